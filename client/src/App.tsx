@@ -11,6 +11,14 @@ import Register from "@/pages/register";
 import Landing from "@/pages/landing";
 import Navbar from "@/components/navbar";
 import ColumnConfig from "@/pages/column-config";
+import Trash from "@/pages/trash";
+import Backup from "@/pages/backup";
+import ImportExperiences from "@/pages/import-experiences";
+import ResumeBuilder from "@/pages/resume-builder";
+import Questions from "@/pages/questions";
+import Practice from "@/pages/practice";
+import JobMatch from "@/pages/job-match";
+import Skills from "@/pages/skills";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
   const [, setLocation] = useLocation();
@@ -39,6 +47,30 @@ function Router() {
       <Route path="/columns">
         <ProtectedRoute component={ColumnConfig} />
       </Route>
+      <Route path="/resumes">
+        <ProtectedRoute component={ResumeBuilder} />
+      </Route>
+      <Route path="/questions">
+        <ProtectedRoute component={Questions} />
+      </Route>
+      <Route path="/practice">
+        <ProtectedRoute component={Practice} />
+      </Route>
+      <Route path="/job-match">
+        <ProtectedRoute component={JobMatch} />
+      </Route>
+      <Route path="/skills">
+        <ProtectedRoute component={Skills} />
+      </Route>
+      <Route path="/trash">
+        <ProtectedRoute component={Trash} />
+      </Route>
+      <Route path="/import">
+        <ProtectedRoute component={ImportExperiences} />
+      </Route>
+      <Route path="/backup">
+        <ProtectedRoute component={Backup} />
+      </Route>
       <Route path="/" component={Landing}/>
       <Route component={NotFound} />
     </Switch>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { columnFormSchema, Column } from "@shared/schema";
+import { columnFormSchema, Column, DropdownOptionChanges, reservedColumnKeys } from "@shared/schema";
 import { generateColumnKey } from "@/lib/config";
 import { useColumns } from "@/hooks/use-columns";
 import {
@@ -25,18 +25,25 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { columnTypes } from "@/lib/config";
+import DropdownOptionsEditor, { OptionRow, rowsFromOptions, summarizeOptionRows } from "@/components/dropdown-options-editor";
 
 interface ColumnFormProps {
   column?: Column;
+  // Prefills a new column's key, e.g. to re-adopt values left by a deleted column
+  initialKey?: string;
   onSubmit: (data: any) => void;
   onCancel: () => void;
 }
 
-export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormProps) {
+export default function ColumnForm({ column, initialKey, onSubmit, onCancel }: ColumnFormProps) {
   const { columns } = useColumns();
   const [showDropdownOptions, setShowDropdownOptions] = useState(
     column?.type === "dropdown"
   );
+  // Existing dropdown columns edit option by option so stored values can follow renames
+  const editsExistingOptions = column?.type === "dropdown";
+  const [optionRows, setOptionRows] = useState<OptionRow[]>(rowsFromOptions(column?.dropdownOptions || []));
+  const [removedValues, setRemovedValues] = useState<DropdownOptionChanges["removedValues"]>("keep");
   
   // Get the maximum order value for new columns
   const [maxOrder, setMaxOrder] = useState<number>(column?.order || 0);
@@ -56,8 +63,8 @@ export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormPro
   const form = useForm({
     resolver: zodResolver(columnFormSchema),
     defaultValues: {
-      name: column?.name || "",
-      key: column?.key || "",
+      name: column?.name || initialKey || "",
+      key: column?.key || initialKey || "",
       type: column?.type || "short-text",
       dropdownOptions: column?.dropdownOptions || [],
       allowMultiple: column?.allowMultiple || false,
@@ -76,7 +83,7 @@ export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormPro
     form.setValue("name", name);
     
     // Only auto-generate key for new columns
-    if (!column) {
+    if (!column && !initialKey) {
       const key = generateColumnKey(name);
       form.setValue("key", key);
     }
@@ -114,6 +121,13 @@ export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormPro
   };
   
   const handleSubmit = (data: any) => {
+    if (editsExistingOptions && data.type === "dropdown") {
+      const { options, renames, hasRemovals } = summarizeOptionRows(optionRows);
+      const optionChanges: DropdownOptionChanges | undefined =
+        Object.keys(renames).length > 0 || hasRemovals ? { renames, removedValues } : undefined;
+      onSubmit({ ...data, dropdownOptions: options, optionChanges });
+      return;
+    }
     onSubmit(data);
   };
   
@@ -148,11 +162,13 @@ export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormPro
                 <Input
                   {...field}
                   placeholder="e.g., role, location, technologies"
-                  disabled={!!column} // Disable editing key for existing columns
+                  disabled={!!column && reservedColumnKeys.includes(column.key)} // The date columns are built in
                 />
               </FormControl>
               <FormDescription>
-                A unique identifier for this column (auto-generated from name)
+                {column
+                  ? "Changing the key moves the values already stored under it"
+                  : "A unique identifier for this column (auto-generated from name)"}
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -187,54 +203,78 @@ export default function ColumnForm({ column, onSubmit, onCancel }: ColumnFormPro
           )}
         />
         
+        {showDropdownOptions && editsExistingOptions && (
+          <FormField
+            control={form.control}
+            name="dropdownOptions"
+            render={() => (
+              <FormItem>
+                <FormLabel>Dropdown Options</FormLabel>
+                <DropdownOptionsEditor
+                  rows={optionRows}
+                  onRowsChange={setOptionRows}
+                  removedValues={removedValues}
+                  onRemovedValuesChange={setRemovedValues}
+                />
+                <FormDescription>
+                  Renaming an option updates the experiences that use it; give two options the same name to merge them
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {showDropdownOptions && (
           <>
-            <FormField
-              control={form.control}
-              name="dropdownOptions"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Dropdown Options</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      value={field.value?.join("\n") || ""}
-                      onChange={handleDropdownOptionsChange}
-                      placeholder="Enter options, one per line"
-                      rows={4}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          // Prevent form submission when pressing Enter in the textarea
-                          e.stopPropagation();
+            {!editsExistingOptions && (
+              <FormField
+                control={form.control}
+                name="dropdownOptions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dropdown Options</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        value={field.value?.join("\n") || ""}
+                        onChange={handleDropdownOptionsChange}
+                        placeholder="Enter options, one per line"
+                        rows={4}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            // Prevent form submission when pressing Enter in the textarea
+                            e.stopPropagation();
                           
-                          // Get the current value and cursor position
-                          const textarea = e.currentTarget;
-                          const cursorPosition = textarea.selectionStart;
-                          const value = textarea.value;
+                            // Get the current value and cursor position
+                            const textarea = e.currentTarget;
+                            const cursorPosition = textarea.selectionStart;
+                            const value = textarea.value;
                           
-                          // Insert a newline at the cursor position
-                          const newValue = value.substring(0, cursorPosition) + "\n" + value.substring(cursorPosition);
+                            // Insert a newline at the cursor position
+                            const newValue = value.substring(0, cursorPosition) + "\n" + value.substring(cursorPosition);
                           
-                          // Update the value and cursor position
-                          textarea.value = newValue;
-                          textarea.selectionStart = textarea.selectionEnd = cursorPosition + 1;
+                            // Update the value and cursor position
+                            textarea.value = newValue;
+                            textarea.selectionStart = textarea.selectionEnd = cursorPosition + 1;
                           
-                          // Manually trigger the onChange handler
-                          const changeEvent = new Event('input', { bubbles: true });
-                          textarea.dispatchEvent(changeEvent);
+                            // Manually trigger the onChange handler
+                            const changeEvent = new Event('input', { bubbles: true });
+                            textarea.dispatchEvent(changeEvent);
                           
-                          // Prevent the default Enter key behavior
-                          e.preventDefault();
-                        }
-                      }}
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Enter each option on a new line
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                            // Prevent the default Enter key behavior
+                            e.preventDefault();
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Enter each option on a new line
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             
             <FormField
               control={form.control}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, Undo2 } from "lucide-react";
+import { DropdownOptionChanges } from "@shared/schema";
+
+// One editable option; original is null for options added in this edit
+export interface OptionRow {
+  original: string | null;
+  value: string;
+  removed: boolean;
+}
+
+export const rowsFromOptions = (options: string[]): OptionRow[] =>
+  options.map(option => ({ original: option, value: option, removed: false }));
+
+// The option list and rename map described by the edited rows.
+// Two rows given the same name merge into a single option.
+export const summarizeOptionRows = (rows: OptionRow[]) => {
+  const options: string[] = [];
+  const renames: Record<string, string> = {};
+
+  rows.forEach(row => {
+    const value = row.value.trim();
+    if (row.removed || !value) return;
+    if (!options.includes(value)) options.push(value);
+    if (row.original !== null && row.original !== value) renames[row.original] = value;
+  });
+
+  const hasRemovals = rows.some(row => row.original !== null && (row.removed || !row.value.trim()));
+  return { options, renames, hasRemovals };
+};
+
+interface DropdownOptionsEditorProps {
+  rows: OptionRow[];
+  onRowsChange: (rows: OptionRow[]) => void;
+  removedValues: DropdownOptionChanges["removedValues"];
+  onRemovedValuesChange: (value: DropdownOptionChanges["removedValues"]) => void;
+}
+
+// Edits the options of an existing dropdown column so that renames, merges and
+// removals can be applied to the values experiences already store
+export default function DropdownOptionsEditor({
+  rows,
+  onRowsChange,
+  removedValues,
+  onRemovedValuesChange,
+}: DropdownOptionsEditorProps) {
+  const [newOption, setNewOption] = useState("");
+
+  const updateRow = (index: number, changes: Partial<OptionRow>) => {
+    onRowsChange(rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const addOption = () => {
+    const value = newOption.trim();
+    if (!value) return;
+    onRowsChange([...rows, { original: null, value, removed: false }]);
+    setNewOption("");
+  };
+
+  // Describe what happens to an existing option's stored values
+  const describeRow = (row: OptionRow, index: number) => {
+    const value = row.value.trim();
+    if (row.original === null) return "New option";
+    if (row.removed || !value) return "Removed";
+    // The first row with a name keeps it; later rows with the same name merge into it
+    const mergedInto = rows.slice(0, index).some(other => !other.removed && other.value.trim() === value);
+    if (mergedInto) return `Merged into "${value}"`;
+    if (row.original !== value) return `Renamed from "${row.original}"`;
+    return null;
+  };
+
+  const { hasRemovals } = summarizeOptionRows(rows);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {rows.map((row, index) => {
+          const description = describeRow(row, index);
+          return (
+            <div key={index}>
+              <div className="flex items-center gap-2">
+                <Input
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  disabled={row.removed}
+                  className={row.removed ? "line-through text-gray-400" : undefined}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0"
+                  aria-label={row.removed ? `Restore ${row.value}` : `Remove ${row.value}`}
+                  onClick={() => row.original === null
+                    ? onRowsChange(rows.filter((_, i) => i !== index))
+                    : updateRow(index, { removed: !row.removed })}
+                >
+                  {row.removed ? <Undo2 className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </div>
+              {description && <p className="text-xs text-gray-500 mt-1">{description}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newOption}
+          onChange={(e) => setNewOption(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addOption();
+            }
+          }}
+          placeholder="Add an option"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={addOption}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {hasRemovals && (
+        <div className="space-y-1">
+          <Label className="text-sm">Experiences using removed options</Label>
+          <Select value={removedValues} onValueChange={(value) => onRemovedValuesChange(value as DropdownOptionChanges["removedValues"])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="keep">Keep their values as legacy values</SelectItem>
+              <SelectItem value="clear">Clear their values</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Column, Experience, Tag } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatFieldValue } from "@/lib/config";
+
+// The saved fields of an experience, with dates as YYYY-MM-DD and tags as sorted ids
+export interface ExperienceValues {
+  startDate: string;
+  endDate: string | null;
+  customFields: Record<string, any>;
+  tags: number[];
+}
+
+export const toDateKey = (value: string | Date): string => new Date(value).toISOString().split('T')[0];
+
+export const valuesOfExperience = (experience: Experience): ExperienceValues => ({
+  startDate: toDateKey(experience.startDate),
+  endDate: experience.endDate ? toDateKey(experience.endDate) : null,
+  customFields: { ...(experience.customFields as Record<string, any>) },
+  tags: (experience.tags ?? []).map(tag => tag.id).sort((a, b) => a - b),
+});
+
+type Side = "mine" | "theirs";
+
+// The fields compared as a whole; customFields is compared key by key
+type WholeField = Exclude<keyof ExperienceValues, "customFields">;
+
+const wholeFields: readonly string[] = ["startDate", "endDate", "tags"] satisfies WholeField[];
+
+const isWholeField = (field: string): field is WholeField => wholeFields.includes(field);
+
+const setWholeField = <K extends WholeField>(values: ExperienceValues, field: K, value: ExperienceValues[K]) => {
+  values[field] = value;
+};
+
+// One field that differs between the loaded copy, my edit and the server copy.
+// Field names follow the revision diff: "startDate", "endDate", "tags" or "customFields.<key>".
+interface MergeField {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+  // Both sides changed it, differently; otherwise the side that changed it wins
+  conflict: boolean;
+  changedBy: Side;
+}
+
+const readField = (values: ExperienceValues, field: string): unknown =>
+  isWholeField(field) ? values[field] : values.customFields[field.slice('customFields.'.length)];
+
+// Blank inputs and missing keys mean the same thing
+const normalize = (value: unknown) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ? null : value;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Three-way comparison of every field against the copy the form was loaded from
+export const mergeFields = (base: ExperienceValues, mine: ExperienceValues, theirs: ExperienceValues): MergeField[] => {
+  const customKeys = new Set([
+    ...Object.keys(base.customFields),
+    ...Object.keys(mine.customFields),
+    ...Object.keys(theirs.customFields),
+  ]);
+  const fields = ["startDate", "endDate", ...Array.from(customKeys).sort().map(key => `customFields.${key}`), "tags"];
+
+  return fields.flatMap(field => {
+    const [b, m, t] = [readField(base, field), readField(mine, field), readField(theirs, field)];
+    if (same(m, t)) return [];
+    const mineChanged = !same(m, b);
+    const theirsChanged = !same(t, b);
+    return [{
+      field,
+      mine: m,
+      theirs: t,
+      conflict: mineChanged && theirsChanged,
+      changedBy: mineChanged ? "mine" : "theirs",
+    }];
+  });
+};
+
+// The server copy with the chosen side of each differing field applied
+const applyChoices = (theirs: ExperienceValues, fields: MergeField[], choices: Record<string, Side>): ExperienceValues => {
+  const merged: ExperienceValues = { ...theirs, customFields: { ...theirs.customFields } };
+  fields.forEach(({ field, mine, conflict, changedBy }) => {
+    if ((conflict ? choices[field] : changedBy) !== "mine") return;
+    if (field.startsWith('customFields.')) {
+      const key = field.slice('customFields.'.length);
+      if (mine === undefined) {
+        delete merged.customFields[key];
+      } else {
+        merged.customFields[key] = mine;
+      }
+    } else if (isWholeField(field)) {
+      // mine was read from the same field of an ExperienceValues
+      setWholeField(merged, field, mine as ExperienceValues[WholeField]);
+    }
+  });
+  return merged;
+};
+
+interface ExperienceConflictDialogProps {
+  open: boolean;
+  // The copy the form was loaded from, what the user tried to save and the server's copy now
+  base: Experience;
+  mine: ExperienceValues;
+  theirs: Experience;
+  columns: Column[];
+  tags: Tag[];
+  onSaveMerged: (values: ExperienceValues, version: number) => void;
+  onUseTheirs: (theirs: Experience) => void;
+  onCancel: () => void;
+}
+
+// Shown when saving an experience that was changed elsewhere after the form
+// opened. Changes only one side made are merged; the user picks a side for the rest.
+export default function ExperienceConflictDialog({
+  open,
+  base,
+  mine,
+  theirs,
+  columns,
+  tags,
+  onSaveMerged,
+  onUseTheirs,
+  onCancel,
+}: ExperienceConflictDialogProps) {
+  const theirValues = valuesOfExperience(theirs);
+  const fields = mergeFields(valuesOfExperience(base), mine, theirValues);
+  const conflicts = fields.filter(field => field.conflict);
+  const autoMerged = fields.filter(field => !field.conflict);
+
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  useEffect(() => setChoices({}), [theirs]);
+
+  const fieldLabel = (field: string) => {
+    if (field === 'startDate') return "Start Date";
+    if (field === 'endDate') return "End Date";
+    if (field === 'tags') return "Tags";
+    const key = field.replace(/^customFields\./, '');
+    return columns.find(column => column.key === key)?.name ?? key;
+  };
+
+  const display = (field: string, value: unknown) => field === 'tags'
+    ? formatFieldValue((value as number[]).map(id => tags.find(tag => tag.id === id)?.name ?? `#${id}`))
+    : formatFieldValue(value);
+
+  const choiceFor = (field: string): Side => choices[field] ?? "mine";
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>This experience was changed elsewhere</DialogTitle>
+          <DialogDescription>
+            Someone saved a newer version while you were editing.
+            {conflicts.length > 0
+              ? " Choose which version to keep for the fields you both changed."
+              : " None of your changes overlap, so they can be merged."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflicts.map(({ field, mine: myValue, theirs: theirValue }) => (
+            <div key={field} className="space-y-2">
+              <Label className="font-medium">{fieldLabel(field)}</Label>
+              <RadioGroup
+                value={choiceFor(field)}
+                onValueChange={(side) => setChoices(prev => ({ ...prev, [field]: side as Side }))}
+              >
+                {([["mine", "Yours", myValue], ["theirs", "Theirs", theirValue]] as const).map(([side, label, value]) => (
+                  <div key={side} className="flex items-start gap-2">
+                    <RadioGroupItem value={side} id={`${field}-${side}`} className="mt-1" />
+                    <Label htmlFor={`${field}-${side}`} className="font-normal">
+                      <span className="text-gray-500">{label}: </span>
+                      <span className="whitespace-pre-wrap break-words">{display(field, value)}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+
+          {autoMerged.length > 0 && (
+            <div className="text-sm text-gray-500">
+              <p>Merged automatically:</p>
+              <ul className="list-disc pl-5">
+                {autoMerged.map(({ field, changedBy }) => (
+                  <li key={field}>
+                    {fieldLabel(field)} ({changedBy === "mine" ? "your change" : "their change"})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={() => onUseTheirs(theirs)}>
+            Discard My Changes
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onSaveMerged(
+              applyChoices(theirValues, fields, Object.fromEntries(conflicts.map(({ field }) => [field, choiceFor(field)]))),
+              theirs.version
+            )}
+          >
+            Save Merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
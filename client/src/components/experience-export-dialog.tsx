@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import {
+  Column, ExperienceFilters, ExperiencePageOptions, ExportFormat, JsonResumeField, JsonResumeSection, jsonResumeFields
+} from "@shared/schema";
+import { downloadExperienceExport, downloadJsonResumeExport } from "@/hooks/use-experiences";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ExperienceExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: Column[];
+  // The table's current filters and sort, which the export follows
+  filters: ExperienceFilters;
+  sort: Pick<ExperiencePageOptions, 'sortBy' | 'sortDir'>;
+}
+
+type JsonResumeFieldMapping = Record<JsonResumeField, string | null>;
+
+const jsonResumeFieldLabels: Record<JsonResumeField, string> = {
+  organization: "Organization (company)",
+  project: "Project name",
+  position: "Position",
+  location: "Location",
+  url: "URL",
+  summary: "Summary",
+  highlights: "Highlights (one per line)",
+  skills: "Skills",
+};
+
+// Column keys tried for each field, after a column named like the field itself
+const jsonResumeFieldAliases: Partial<Record<JsonResumeField, string[]>> = {
+  organization: ["client", "company", "employer"],
+  position: ["role", "title"],
+  summary: ["notes", "description"],
+};
+
+const suggestJsonResumeFields = (columns: Column[]): JsonResumeFieldMapping => {
+  const keyFor = (field: JsonResumeField) =>
+    [field, ...(jsonResumeFieldAliases[field] ?? [])]
+      .map(candidate => columns.find(column => column.key.toLowerCase() === candidate)?.key)
+      .find(Boolean) ?? null;
+  return Object.fromEntries(jsonResumeFields.map(field => [field, keyFor(field)])) as JsonResumeFieldMapping;
+};
+
+// Export options: file format, which columns (the visible ones to start with),
+// tags and the date style. The server streams the file back. A JSON Resume maps
+// columns onto the fields of its entries instead.
+export default function ExperienceExportDialog({ open, onOpenChange, columns, filters, sort }: ExperienceExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat | "jsonResume">("csv");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [includeTags, setIncludeTags] = useState(true);
+  const [isoDates, setIsoDates] = useState(false);
+  const [jsonResumeFieldKeys, setJsonResumeFieldKeys] = useState<JsonResumeFieldMapping>(() => suggestJsonResumeFields([]));
+  const [section, setSection] = useState<JsonResumeSection>("work");
+  const [sectionColumn, setSectionColumn] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedKeys(columns.filter(column => column.isVisible).map(column => column.key));
+    setJsonResumeFieldKeys(suggestJsonResumeFields(columns));
+  }, [open, columns]);
+
+  const fieldColumns = columns.filter(column => column.key !== "startDate" && column.key !== "endDate");
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => checked ? [...prev, key] : prev.filter(selected => selected !== key));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (format === "jsonResume") {
+        await downloadJsonResumeExport(filters, { fields: jsonResumeFieldKeys, section, sectionColumn, includeTags });
+      } else {
+        // Keep the configured column order whatever order they were ticked in
+        const keys = columns.map(column => column.key).filter(key => selectedKeys.includes(key));
+        await downloadExperienceExport(filters, { ...sort, format, columns: keys, includeTags, isoDates });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to export experiences",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Experiences</DialogTitle>
+          <DialogDescription>
+            Exports every experience matching the current filters, in the current sort order
+            (a JSON Resume lists the most recent first).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat | "jsonResume")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel workbook (XLSX)</SelectItem>
+                <SelectItem value="jsonResume">JSON Resume</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === "jsonResume" ? (
+            <>
+              {jsonResumeFields.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{jsonResumeFieldLabels[field]}</Label>
+                  <Select
+                    value={jsonResumeFieldKeys[field] ?? "none"}
+                    onValueChange={(value) => setJsonResumeFieldKeys(prev => ({ ...prev, [field]: value === "none" ? null : value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {fieldColumns.map(column => (
+                        <SelectItem key={column.key} value={column.key}>{column.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="space-y-1">
+                <Label>Section</Label>
+                <Select
+                  value={sectionColumn ? `column:${sectionColumn}` : section}
+                  onValueChange={(value) => {
+                    if (value.startsWith("column:")) {
+                      setSectionColumn(value.slice("column:".length));
+                    } else {
+                      setSectionColumn(null);
+                      setSection(value as JsonResumeSection);
+                    }
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="work">Work</SelectItem>
+                    <SelectItem value="volunteer">Volunteer</SelectItem>
+                    <SelectItem value="projects">Projects</SelectItem>
+                    {fieldColumns.map(column => (
+                      <SelectItem key={column.key} value={`column:${column.key}`}>From the {column.name} column</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sectionColumn && (
+                  <p className="text-xs text-gray-500">
+                    Values other than work, volunteer or projects go to the {section} section.
+                  </p>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              {columns.map(column => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${column.key}`}
+                    checked={selectedKeys.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-${column.key}`} className="font-normal">
+                    {column.name}
+                    {!column.isVisible && <span className="text-gray-400"> (hidden)</span>}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch id="export-tags" checked={includeTags} onCheckedChange={setIncludeTags} />
+            <Label htmlFor="export-tags" className="font-normal">
+              {format === "jsonResume" ? "Add tags to the skills" : "Include tags"}
+            </Label>
+          </div>
+          {format !== "jsonResume" && (
+            <div className="flex items-center gap-2">
+              <Switch id="export-iso-dates" checked={isoDates} onCheckedChange={setIsoDates} />
+              <Label htmlFor="export-iso-dates" className="font-normal">Write dates as YYYY-MM-DD</Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || (format !== "jsonResume" && selectedKeys.length === 0 && !includeTags)}
+          >
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -29,9 +30,14 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { CalendarIcon } from "lucide-react";
+import { formatDuration, parseDuration } from "@/lib/config";
+import { CalendarIcon, History, Star } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import ExperienceHistory from "./experience-history";
+import ExperienceConflictDialog, { ExperienceValues, toDateKey } from "./experience-conflict-dialog";
+import { versionConflictOf } from "@/lib/queryClient";
 
 interface ExperienceFormProps {
   columns: Column[];
@@ -39,12 +45,27 @@ interface ExperienceFormProps {
   onClose: () => void;
 }
 
+// Stored dropdown values that are no longer among the column's options
+const legacyValues = (column: Column, value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : [];
+  return values.filter((item): item is string =>
+    typeof item === 'string' && !(column.dropdownOptions || []).includes(item)
+  );
+};
+
+// Number inputs hand back strings; an empty box means "no value"
+const toNumberOrUndefined = (value: string) => value === '' ? undefined : Number(value);
+
 export default function ExperienceForm({ 
   columns, 
   experience, 
   onClose 
 }: ExperienceFormProps) {
   const { createExperience, updateExperience, tags } = useExperiences();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The copy the form was last loaded from; its version goes with every save
+  const [loaded, setLoaded] = useState(experience);
+  const [conflict, setConflict] = useState<{ mine: ExperienceValues; theirs: Experience } | null>(null);
   
   // Custom validation schema based on column requirements
   const getValidationSchema = () => {
@@ -73,6 +94,26 @@ export default function ExperienceForm({
             fieldSchema = z.string().optional();
           }
           break;
+        case 'number':
+        case 'currency':
+          fieldSchema = z.number({ invalid_type_error: "Enter a number" }).optional();
+          break;
+        case 'url':
+          fieldSchema = z.string().url({ message: "Enter a full URL, e.g. https://example.com" }).optional().or(z.literal(''));
+          break;
+        case 'boolean':
+          fieldSchema = z.boolean().optional();
+          break;
+        case 'rating':
+          fieldSchema = z.number().int().min(1).max(5).optional();
+          break;
+        case 'duration':
+          // Edited as text ("1h 30m") and converted to minutes on submit
+          fieldSchema = z.string().optional().refine(
+            value => !value || parseDuration(value) !== null,
+            { message: "Enter a duration like 45m, 1h 30m or 2d" }
+          );
+          break;
         default:
           fieldSchema = z.any().optional();
       }
@@ -80,41 +121,99 @@ export default function ExperienceForm({
       customFieldsSchema[column.key] = fieldSchema;
     });
     
+    // The form only knows the active columns, but the update replaces customFields
+    // as a whole, so values of archived columns and orphaned keys pass through untouched
     return experienceSchema.extend({
-      customFields: z.object(customFieldsSchema),
+      customFields: z.object(customFieldsSchema).passthrough(),
+    });
+  };
+  
+  const durationKeys = columns.filter(column => column.type === 'duration').map(column => column.key);
+
+  // Durations are stored in minutes but edited as text
+  const toFormFields = (customFields: Record<string, any>) => {
+    const fields = { ...customFields };
+    durationKeys.forEach(key => {
+      if (typeof fields[key] === 'number') fields[key] = formatDuration(fields[key]);
+    });
+    return fields;
+  };
+
+  const fromFormFields = (customFields: Record<string, any>) => {
+    const fields = { ...customFields };
+    durationKeys.forEach(key => {
+      const minutes = fields[key] ? parseDuration(fields[key]) : null;
+      if (minutes === null) {
+        delete fields[key];
+      } else {
+        fields[key] = minutes;
+      }
     });
+    return fields;
   };
   
+  const formValuesFor = (source: Experience | null) => ({
+    startDate: source?.startDate ? new Date(source.startDate) : new Date(),
+    endDate: source?.endDate ? new Date(source.endDate) : undefined,
+    customFields: toFormFields((source?.customFields || {}) as Record<string, any>),
+    tags: source?.tags?.map(tag => tag.id) || [],
+  });
+
   // Initialize form with experience data or defaults
   const form = useForm<z.infer<ReturnType<typeof getValidationSchema>>>({
     resolver: zodResolver(getValidationSchema()),
-    defaultValues: {
-      startDate: experience?.startDate ? new Date(experience.startDate) : new Date(),
-      endDate: experience?.endDate ? new Date(experience.endDate) : undefined,
-      customFields: experience?.customFields || {},
-      tags: experience?.tags?.map(tag => tag.id) || [],
-    },
+    defaultValues: formValuesFor(experience),
   });
 
+  // Load a copy into the form, e.g. after a restore or when taking the other edit
+  const loadExperience = (source: Experience) => {
+    setLoaded(source);
+    form.reset(formValuesFor(source));
+  };
+
+  // Save against a version; if someone else saved first, open the conflict dialog
+  const saveUpdate = (id: number, values: ExperienceValues, version: number | undefined) => {
+    updateExperience(
+      {
+        id,
+        data: {
+          startDate: new Date(values.startDate),
+          endDate: values.endDate ? new Date(values.endDate) : null,
+          customFields: values.customFields,
+          tags: values.tags,
+          version,
+        },
+      },
+      {
+        onSuccess: onClose,
+        onError: (error) => {
+          const current = versionConflictOf<Experience>(error)?.current;
+          if (current) setConflict({ mine: values, theirs: current });
+        },
+      }
+    );
+  };
+
   const onSubmit = (data: z.infer<ReturnType<typeof getValidationSchema>>) => {
+    const customFields = fromFormFields(data.customFields);
+
+    // Edits close the form once saved, so a conflict can still be resolved here
     if (experience) {
-      updateExperience({ 
-        id: experience.id, 
-        data: {
-          startDate: data.startDate,
-          endDate: data.endDate,
-          customFields: data.customFields,
-          tags: data.tags,
-        }
-      });
-    } else {
-      createExperience({
-        startDate: data.startDate,
-        endDate: data.endDate,
-        customFields: data.customFields,
-        tags: data.tags,
-      });
+      saveUpdate(experience.id, {
+        startDate: toDateKey(data.startDate),
+        endDate: data.endDate ? toDateKey(data.endDate) : null,
+        customFields,
+        tags: [...(data.tags || [])].sort((a, b) => a - b),
+      }, loaded?.version);
+      return;
     }
+
+    createExperience({
+      startDate: data.startDate,
+      endDate: data.endDate,
+      customFields,
+      tags: data.tags,
+    });
     onClose();
   };
   
@@ -296,6 +395,21 @@ export default function ExperienceForm({
                         <FormItem>
                           <FormLabel>{column.name}</FormLabel>
                           <div className="space-y-2">
+                            {legacyValues(column, field.value).map(value => (
+                              <div key={`legacy-${value}`} className="flex items-center">
+                                <Checkbox
+                                  id={`${column.key}-legacy-${value}`}
+                                  checked
+                                  onCheckedChange={() => field.onChange(field.value.filter((val: string) => val !== value))}
+                                />
+                                <label
+                                  htmlFor={`${column.key}-legacy-${value}`}
+                                  className="ml-2 text-sm text-gray-500"
+                                >
+                                  {value} (legacy)
+                                </label>
+                              </div>
+                            ))}
                             {column.dropdownOptions?.map((option, index) => (
                               <div key={index} className="flex items-center">
                                 <Checkbox
@@ -343,6 +457,11 @@ export default function ExperienceForm({
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
+                              {legacyValues(column, field.value).map(value => (
+                                <SelectItem key={`legacy-${value}`} value={value}>
+                                  {value} (legacy)
+                                </SelectItem>
+                              ))}
                               {column.dropdownOptions?.map((option, index) => (
                                 <SelectItem key={index} value={option}>
                                   {option}
@@ -356,6 +475,126 @@ export default function ExperienceForm({
                     />
                   );
                 }
+
+              case 'number':
+              case 'currency':
+                return (
+                  <FormField
+                    key={column.id}
+                    control={form.control}
+                    name={`customFields.${column.key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{column.name}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step={column.type === 'currency' ? '0.01' : 'any'}
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={e => field.onChange(toNumberOrUndefined(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                );
+
+              case 'url':
+                return (
+                  <FormField
+                    key={column.id}
+                    control={form.control}
+                    name={`customFields.${column.key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{column.name}</FormLabel>
+                        <FormControl>
+                          <Input type="url" placeholder="https://" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                );
+
+              case 'boolean':
+                return (
+                  <FormField
+                    key={column.id}
+                    control={form.control}
+                    name={`customFields.${column.key}`}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                        <FormLabel>{column.name}</FormLabel>
+                        <FormControl>
+                          <Switch
+                            checked={field.value === true}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                );
+
+              case 'rating':
+                return (
+                  <FormField
+                    key={column.id}
+                    control={form.control}
+                    name={`customFields.${column.key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{column.name}</FormLabel>
+                        <div className="flex items-center gap-1">
+                          {[1, 2, 3, 4, 5].map(value => (
+                            <button
+                              key={value}
+                              type="button"
+                              aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                              // Clicking the current rating clears it
+                              onClick={() => field.onChange(field.value === value ? undefined : value)}
+                            >
+                              <Star
+                                className={cn(
+                                  "h-5 w-5",
+                                  (field.value || 0) >= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+                                )}
+                              />
+                            </button>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                );
+
+              case 'duration':
+                return (
+                  <FormField
+                    key={column.id}
+                    control={form.control}
+                    name={`customFields.${column.key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{column.name}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. 1h 30m" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                );
+                
+              // Stories are written in the story editor, opened from the table;
+              // the stored value is saved back as it was loaded
+              case 'story':
+                return null;
                 
               default:
                 return null;
@@ -388,6 +627,12 @@ export default function ExperienceForm({
         </div>
         
         <div className="flex justify-end space-x-2">
+          {experience && (
+            <Button type="button" variant="ghost" className="mr-auto" onClick={() => setIsHistoryOpen(!isHistoryOpen)}>
+              <History className="h-4 w-4 mr-1" />
+              {isHistoryOpen ? "Hide History" : "History"}
+            </Button>
+          )}
           <Button type="button" variant="outline" onClick={onClose}>
             Cancel
           </Button>
@@ -396,6 +641,39 @@ export default function ExperienceForm({
           </Button>
         </div>
       </form>
+
+      {/* Restoring a revision saves it right away and reloads it into the form */}
+      {experience && isHistoryOpen && (
+        <div className="mt-6 border-t pt-6">
+          <ExperienceHistory
+            experienceId={experience.id}
+            columns={columns}
+            onRestored={loadExperience}
+          />
+        </div>
+      )}
+
+      {loaded && conflict && (
+        <ExperienceConflictDialog
+          open
+          base={loaded}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          columns={columns}
+          tags={tags}
+          onSaveMerged={(values, version) => {
+            // The merge is based on their copy, so a further conflict compares against it
+            setLoaded(conflict.theirs);
+            setConflict(null);
+            saveUpdate(conflict.theirs.id, values, version);
+          }}
+          onUseTheirs={(theirs) => {
+            loadExperience(theirs);
+            setConflict(null);
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </Form>
   );
 }
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useExperienceRevisions, useRevisionDiff } from "@/hooks/use-experiences";
+import { Column, Experience, RevisionAction } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatFieldValue } from "@/lib/config";
+import { RotateCcw } from "lucide-react";
+
+interface ExperienceHistoryProps {
+  experienceId: number;
+  columns: Column[];
+  onRestored: (experience: Experience) => void;
+}
+
+const actionLabels: Record<RevisionAction, string> = {
+  baseline: "Existing version",
+  create: "Created",
+  update: "Edited",
+  tags: "Tags changed",
+  restore: "Restored",
+  column: "Column changed",
+};
+
+// Lists the saved revisions of an experience, shows what changed between any
+// two of them and restores an earlier one
+export default function ExperienceHistory({ experienceId, columns, onRestored }: ExperienceHistoryProps) {
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  const { revisions, isLoading, restoreRevision, isPending } = useExperienceRevisions(experienceId);
+  const latest = revisions[0]?.revision;
+  // Until something is picked, compare the two most recent revisions
+  const fromRevision = from ?? revisions[1]?.revision;
+  const toRevision = to ?? latest;
+  const compare = fromRevision !== undefined && toRevision !== undefined && fromRevision !== toRevision
+    ? { from: fromRevision, to: toRevision }
+    : undefined;
+  const { data: diff } = useRevisionDiff(experienceId, compare);
+
+  const fieldLabel = (field: string) => {
+    if (field === 'startDate') return "Start Date";
+    if (field === 'endDate') return "End Date";
+    if (field === 'tags') return "Tags";
+    const key = field.replace(/^customFields\./, '');
+    return columns.find(column => column.key === key)?.name ?? key;
+  };
+
+  const restore = (revision: number) => {
+    restoreRevision(revision, {
+      onSuccess: (experience) => {
+        setFrom(null);
+        setTo(null);
+        onRestored(experience);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No revisions have been recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-200 rounded-md border">
+        {revisions.map(revision => (
+          <li key={revision.id} className="flex items-center justify-between px-3 py-2">
+            <div className="text-sm">
+              <span className="font-medium">Revision {revision.revision}</span>
+              <span className="text-gray-500">
+                {" · "}{actionLabels[revision.action as RevisionAction] ?? revision.action}
+                {" · "}{format(new Date(revision.createdAt), "PP p")}
+              </span>
+              {revision.revision === latest && (
+                <span className="ml-2 text-xs text-primary">Current</span>
+              )}
+            </div>
+            {revision.revision !== latest && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => restore(revision.revision)}
+                disabled={isPending}
+                className="text-primary"
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Restore
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {revisions.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {([["Compare", fromRevision, setFrom], ["With", toRevision, setTo]] as const).map(([label, value, setValue]) => (
+              <div key={label} className="space-y-1">
+                <Label className="text-sm">{label}</Label>
+                <Select value={value?.toString()} onValueChange={(selected) => setValue(parseInt(selected))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a revision" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.revision.toString()}>
+                        Revision {revision.revision}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {!compare ? (
+            <p className="text-sm text-gray-500">Pick two different revisions to see what changed.</p>
+          ) : !diff ? (
+            <p className="text-sm text-gray-500">Comparing...</p>
+          ) : diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-500">These revisions are identical.</p>
+          ) : (
+            <dl className="space-y-2">
+              {diff.changes.map(change => (
+                <div key={change.field} className="text-sm">
+                  <dt className="font-medium">{fieldLabel(change.field)}</dt>
+                  <dd className="grid grid-cols-2 gap-2">
+                    <span className="rounded bg-red-50 px-2 py-1 text-red-700 line-through whitespace-pre-wrap break-words">
+                      {formatFieldValue(change.before)}
+                    </span>
+                    <span className="rounded bg-green-50 px-2 py-1 text-green-700 whitespace-pre-wrap break-words">
+                      {formatFieldValue(change.after)}
+                    </span>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { 
   Table, 
   TableBody, 
@@ -27,64 +27,111 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Edit, Trash2, Search, Plus } from "lucide-react";
-import { Experience, Tag, Column } from "@shared/schema";
-import { useExperiences } from "@/hooks/use-experiences";
-import { getTagColor } from "@/lib/config";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Edit, Trash2, Search, Plus, ArrowUp, ArrowDown, Star, Download } from "lucide-react";
+import { Experience, ExperienceFilters, Tag, Column } from "@shared/schema";
+import { useExperiences, useExperiencePage } from "@/hooks/use-experiences";
+import { getTagColor, formatCurrency, formatDuration } from "@/lib/config";
 import { format } from "date-fns";
 import ExperienceForm from "./experience-form";
+import ExperienceExportDialog from "./experience-export-dialog";
+import StoryEditor, { StoryProgress } from "./story-editor";
 import { 
   Dialog, 
   DialogContent, 
+  DialogDescription,
   DialogHeader, 
   DialogTitle
 } from "@/components/ui/dialog";
 
 interface ExperienceTableProps {
   columns: Column[];
-  experiences: Experience[];
+  filters: ExperienceFilters;
   isLoading: boolean;
 }
 
+const pageSizeOptions = [5, 10, 25, 50];
+
+// A stored dropdown value whose option has since been removed from the column
+const isLegacyOption = (column: Column, value: string) =>
+  !(column.dropdownOptions || []).some(option => option.toLowerCase() === value.toLowerCase());
+
+function LegacyOption({ value }: { value: string }) {
+  return (
+    <span
+      title="No longer one of this column's options"
+      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border border-dashed border-gray-300 text-gray-500"
+    >
+      {value} (legacy)
+    </span>
+  );
+}
+
 export default function ExperienceTable({ 
   columns, 
-  experiences,
-  isLoading 
+  filters,
+  isLoading: columnsLoading 
 }: ExperienceTableProps) {
   const { deleteExperience } = useExperiences();
 
   const [searchTerm, setSearchTerm] = useState("");
   const [page, setPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState(10);
+  const [sortBy, setSortBy] = useState("startDate");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
   const [isExperienceModalOpen, setIsExperienceModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [currentExperience, setCurrentExperience] = useState<Experience | null>(null);
-  const itemsPerPage = 5;
+  // The story cell being edited in the story editor
+  const [storyTarget, setStoryTarget] = useState<{ experience: Experience; column: Column } | null>(null);
 
-  // Filter experiences by search term
-  const filteredExperiences = experiences.filter(exp => {
-    if (!searchTerm) return true;
+  // The table's own search box takes precedence over the sidebar search term
+  const activeFilters: ExperienceFilters = {
+    ...filters,
+    searchTerm: searchTerm || filters.searchTerm,
+  };
 
-    const term = searchTerm.toLowerCase();
+  const { data, isLoading: experiencesLoading } = useExperiencePage({
+    ...activeFilters,
+    page,
+    pageSize: itemsPerPage,
+    sortBy,
+    sortDir,
+  });
 
-    // Search in custom fields
-    const customFieldsMatch = Object.entries(exp.customFields || {}).some(([_, value]) => 
-      value && typeof value === 'string' && value.toLowerCase().includes(term)
-    );
+  const isLoading = columnsLoading || experiencesLoading;
+  const paginatedExperiences = data?.items ?? [];
+  const totalResults = data?.total ?? 0;
+  const totalPages = data?.totalPages ?? 1;
 
-    // Search in tags
-    const tagsMatch = exp.tags?.some(tag => 
-      tag.name.toLowerCase().includes(term)
-    );
+  // Go back to the first page whenever the result set changes shape
+  useEffect(() => {
+    setPage(1);
+  }, [filters, searchTerm, itemsPerPage, sortBy, sortDir]);
 
-    return customFieldsMatch || tagsMatch;
-  });
+  // Stay in range when the last rows of the final page are deleted
+  useEffect(() => {
+    if (page > totalPages) {
+      setPage(totalPages);
+    }
+  }, [page, totalPages]);
 
-  // Pagination
-  const totalPages = Math.max(1, Math.ceil(filteredExperiences.length / itemsPerPage));
-  const paginatedExperiences = filteredExperiences.slice(
-    (page - 1) * itemsPerPage, 
-    page * itemsPerPage
-  );
+  // Clicking a header sorts by it, clicking it again flips the direction
+  const handleSort = (column: Column) => {
+    if (sortBy === column.key) {
+      setSortDir(dir => dir === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(column.key);
+      setSortDir("asc");
+    }
+  };
 
   // Format date for display
   const formatDate = (dateStr: string | Date | null | undefined): string => {
@@ -142,6 +189,9 @@ export default function ExperienceTable({
       return (
         <div className="flex flex-wrap gap-1">
           {value.map((item, idx) => {
+            if (isLegacyOption(column, item)) {
+              return <LegacyOption key={idx} value={item} />;
+            }
             const color = getTagColor(item);
             return (
               <span
@@ -156,6 +206,10 @@ export default function ExperienceTable({
       );
     }
 
+    if (column.type === 'dropdown' && typeof value === 'string' && isLegacyOption(column, value)) {
+      return <LegacyOption value={value} />;
+    }
+
     // For skills column with tags
     if (column.key === 'skills' && experience.tags && experience.tags.length > 0) {
       return (
@@ -175,6 +229,59 @@ export default function ExperienceTable({
       );
     }
 
+    if ((column.type === 'number' || column.type === 'currency') && typeof value === 'number') {
+      return column.type === 'currency' ? formatCurrency(value) : value.toLocaleString();
+    }
+
+    // Only link web addresses; anything else is shown as plain text
+    if (column.type === 'url' && typeof value === 'string' && /^https?:\/\//i.test(value)) {
+      return (
+        <a
+          href={value}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary hover:underline max-w-xs truncate block"
+        >
+          {value.replace(/^https?:\/\//i, '')}
+        </a>
+      );
+    }
+
+    if (column.type === 'boolean') {
+      return value === true ? "Yes" : value === false ? "No" : "";
+    }
+
+    if (column.type === 'rating' && typeof value === 'number') {
+      return (
+        <div className="flex items-center" aria-label={`${value} out of 5`}>
+          {[1, 2, 3, 4, 5].map(star => (
+            <Star
+              key={star}
+              className={`h-4 w-4 ${value >= star ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    if (column.type === 'duration' && typeof value === 'number') {
+      return formatDuration(value);
+    }
+
+    // Stories show which STAR sections are written and open in the story editor
+    if (column.type === 'story') {
+      return (
+        <button
+          type="button"
+          title="Edit story"
+          className="rounded p-1 hover:bg-gray-100"
+          onClick={() => setStoryTarget({ experience, column })}
+        >
+          <StoryProgress value={value} />
+        </button>
+      );
+    }
+
     // Default for text content with truncation for long text
     if (column.type === 'long-text' && typeof value === 'string') {
       return <div className="max-w-xs truncate">{value}</div>;
@@ -183,33 +290,12 @@ export default function ExperienceTable({
     return value || "";
   };
 
-  const exportToCsv = () => {
-    // Convert experiences to CSV format
-    const headers = columns.map(col => col.name).join(',') + '\n';
-    const rows = experiences.map(exp => {
-      return columns.map(col => {
-        if (col.key === 'startDate' || col.key === 'endDate') {
-          return exp[col.key] ? new Date(exp[col.key]).toLocaleDateString() : '';
-        }
-        const value = exp.customFields[col.key] || '';
-        return Array.isArray(value) ? `"${value.join(', ')}"` : `"${value}"`;
-      }).join(',');
-    }).join('\n');
-
-    const csv = headers + rows;
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'experiences.csv';
-    a.click();
-  };
-
   return (
     <div>
       <div className="mb-4">
-        <Button variant="outline" onClick={exportToCsv}>
-          Export to CSV
+        <Button variant="outline" onClick={() => setIsExportDialogOpen(true)}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
         </Button>
       </div>
       <div className="bg-white shadow rounded-lg overflow-hidden">
@@ -241,7 +327,18 @@ export default function ExperienceTable({
               <TableRow>
                 {columns.filter(col => col.isVisible).map((column) => (
                   <TableHead key={column.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    {column.name}
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column)}
+                      className="inline-flex items-center uppercase tracking-wider hover:text-gray-700"
+                    >
+                      {column.name}
+                      {sortBy === column.key && (
+                        sortDir === "asc"
+                          ? <ArrowUp className="h-3 w-3 ml-1" />
+                          : <ArrowDown className="h-3 w-3 ml-1" />
+                      )}
+                    </button>
                   </TableHead>
                 ))}
                 <TableHead className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -296,17 +393,32 @@ export default function ExperienceTable({
         </div>
 
         {/* Pagination */}
-        {!isLoading && filteredExperiences.length > 0 && (
+        {!isLoading && totalResults > 0 && (
           <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200">
             <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-              <div>
+              <div className="flex items-center space-x-4">
                 <p className="text-sm text-gray-700">
                   Showing <span className="font-medium">{(page - 1) * itemsPerPage + 1}</span> to{" "}
                   <span className="font-medium">
-                    {Math.min(page * itemsPerPage, filteredExperiences.length)}
+                    {Math.min(page * itemsPerPage, totalResults)}
                   </span>{" "}
-                  of <span className="font-medium">{filteredExperiences.length}</span> results
+                  of <span className="font-medium">{totalResults}</span> results
                 </p>
+                <Select
+                  value={String(itemsPerPage)}
+                  onValueChange={(value) => setItemsPerPage(Number(value))}
+                >
+                  <SelectTrigger className="w-[120px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pageSizeOptions.map(size => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} per page
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <Pagination>
                 <PaginationContent>
@@ -370,24 +482,53 @@ export default function ExperienceTable({
         </DialogContent>
       </Dialog>
 
+      {/* Story Editor Dialog */}
+      <Dialog open={storyTarget !== null} onOpenChange={(open) => !open && setStoryTarget(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{storyTarget?.column.name}</DialogTitle>
+            <DialogDescription>
+              {storyTarget && `${formatDate(storyTarget.experience.startDate)} – ${storyTarget.experience.endDate ? formatDate(storyTarget.experience.endDate) : "Present"}`}
+            </DialogDescription>
+          </DialogHeader>
+          {storyTarget && (
+            <StoryEditor
+              key={`${storyTarget.experience.id}-${storyTarget.column.key}`}
+              columns={columns}
+              column={storyTarget.column}
+              experience={storyTarget.experience}
+              onClose={() => setStoryTarget(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Move to trash?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete this experience and all associated data.
-              This action cannot be undone.
+              The experience will be moved to the trash. You can restore it from the Trash page
+              until it is permanently deleted at the end of the retention period.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
-              Delete
+              Move to Trash
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ExperienceExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        columns={columns}
+        filters={activeFilters}
+        sort={{ sortBy, sortDir }}
+      />
     </div>
   );
 }
\ No newline at end of file
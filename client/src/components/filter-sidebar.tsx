@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { useToast } from "@/hooks/use-toast";
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -15,62 +14,115 @@ import {
 import { formatISO } from "date-fns";
 import { useExperiences } from "@/hooks/use-experiences";
 import { useColumns } from "@/hooks/use-columns";
-import { Tag, Column } from "@shared/schema";
+import { useQuestions } from "@/hooks/use-questions";
+import { Tag, Column, ExperienceFilters, RangeFilter, isColumnType, numericColumnTypes } from "@shared/schema";
+import { parseDuration } from "@/lib/config";
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
 
 interface FilterSidebarProps {
-  onFilter: (filteredExperiences: any[]) => void;
+  onFilter: (filters: ExperienceFilters) => void;
+  // Filters to start from, e.g. a saved resume's; read once on mount
+  initialFilters?: ExperienceFilters;
 }
 
-export default function FilterSidebar({ onFilter }: FilterSidebarProps) {
-  const { tags, filterExperiences } = useExperiences();
+// Range bounds as typed text; minutes are valid duration input as they are
+const rangeInputsOf = (rangeFilters: Record<string, RangeFilter> = {}) => {
+  const inputs: Record<string, { min: string; max: string }> = {};
+  Object.entries(rangeFilters).forEach(([key, { min, max }]) => {
+    inputs[key] = { min: min === undefined ? "" : String(min), max: max === undefined ? "" : String(max) };
+  });
+  return inputs;
+};
+
+const booleanSelectionsOf = (booleanFilters: Record<string, boolean> = {}) => {
+  const selections: Record<string, "yes" | "no"> = {};
+  Object.entries(booleanFilters).forEach(([key, value]) => {
+    selections[key] = value ? "yes" : "no";
+  });
+  return selections;
+};
+
+export default function FilterSidebar({ onFilter, initialFilters = {} }: FilterSidebarProps) {
+  const { tags } = useExperiences();
   const { columns } = useColumns();
-  const { toast } = useToast();
+  const { questions } = useQuestions();
   
-  const [startDate, setStartDate] = useState<string>("");
-  const [endDate, setEndDate] = useState<string>("");
-  const [selectedTags, setSelectedTags] = useState<number[]>([]);
-  const [searchTerm, setSearchTerm] = useState<string>("");
-  const [isFiltering, setIsFiltering] = useState(false);
-  const [dropdownFilters, setDropdownFilters] = useState<Record<string, string[]>>({});
+  const [startDate, setStartDate] = useState<string>(initialFilters.startDate ?? "");
+  const [endDate, setEndDate] = useState<string>(initialFilters.endDate ?? "");
+  const [selectedTags, setSelectedTags] = useState<number[]>(initialFilters.tagIds ?? []);
+  const [searchTerm, setSearchTerm] = useState<string>(initialFilters.searchTerm ?? "");
+  const [dropdownFilters, setDropdownFilters] = useState<Record<string, string[]>>(initialFilters.dropdownFilters ?? {});
+  // Raw min/max text per numeric column, parsed when filters are applied
+  const [rangeInputs, setRangeInputs] = useState(() => rangeInputsOf(initialFilters.rangeFilters));
+  const [booleanSelections, setBooleanSelections] = useState(() => booleanSelectionsOf(initialFilters.booleanFilters));
+  const [questionId, setQuestionId] = useState<number | undefined>(initialFilters.questionId);
 
   // Get dropdown columns
   const dropdownColumns = columns.filter(col => 
     col.type === "dropdown" && col.isVisible && col.dropdownOptions && col.dropdownOptions.length > 0
   );
 
-  // Apply filters
-  const applyFilters = async () => {
-    setIsFiltering(true);
-    
-    try {
-      // Filter out empty dropdown filters
-      const nonEmptyDropdownFilters: Record<string, string[]> = {};
-      Object.entries(dropdownFilters).forEach(([key, values]) => {
-        if (values.length > 0) {
-          nonEmptyDropdownFilters[key] = values;
-        }
-      });
+  const numericColumns = columns.filter(col => col.isVisible && isColumnType(col.type) && numericColumnTypes.includes(col.type));
+  const booleanColumns = columns.filter(col => col.isVisible && col.type === "boolean");
 
-      const filteredExperiences = await filterExperiences({
-        startDate: startDate ? formatISO(new Date(startDate), { representation: 'date' }) : undefined,
-        endDate: endDate ? formatISO(new Date(endDate), { representation: 'date' }) : undefined,
-        tagIds: selectedTags.length > 0 ? selectedTags : undefined,
-        searchTerm: searchTerm || undefined,
-        dropdownFilters: Object.keys(nonEmptyDropdownFilters).length > 0 ? nonEmptyDropdownFilters : undefined,
-      });
-      
-      onFilter(filteredExperiences);
-    } catch (error) {
-      toast({
-        title: "Filter error",
-        description: "Failed to apply filters. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsFiltering(false);
-    }
+  // Durations are typed like "1h 30m" but filtered in minutes
+  const parseBound = (column: Column, text: string): number | undefined => {
+    if (!text.trim()) return undefined;
+    const value = column.type === "duration" ? parseDuration(text) : Number(text);
+    return value === null || !Number.isFinite(value) ? undefined : value;
+  };
+
+  const updateRangeInput = (columnKey: string, bound: "min" | "max", text: string) => {
+    setRangeInputs(prev => ({
+      ...prev,
+      [columnKey]: { ...(prev[columnKey] ?? { min: "", max: "" }), [bound]: text }
+    }));
+  };
+
+  const updateBooleanSelection = (columnKey: string, value: string) => {
+    setBooleanSelections(prev => {
+      const { [columnKey]: _, ...rest } = prev;
+      return value === "yes" || value === "no" ? { ...rest, [columnKey]: value } : rest;
+    });
+  };
+
+  // Apply filters; the experience table fetches the matching page from the server
+  const applyFilters = () => {
+    // Filter out empty dropdown filters
+    const nonEmptyDropdownFilters: Record<string, string[]> = {};
+    Object.entries(dropdownFilters).forEach(([key, values]) => {
+      if (values.length > 0) {
+        nonEmptyDropdownFilters[key] = values;
+      }
+    });
+
+    const rangeFilters: Record<string, RangeFilter> = {};
+    numericColumns.forEach(column => {
+      const input = rangeInputs[column.key];
+      if (!input) return;
+      const min = parseBound(column, input.min);
+      const max = parseBound(column, input.max);
+      if (min !== undefined || max !== undefined) {
+        rangeFilters[column.key] = { min, max };
+      }
+    });
+
+    const booleanFilters: Record<string, boolean> = {};
+    Object.entries(booleanSelections).forEach(([key, value]) => {
+      booleanFilters[key] = value === "yes";
+    });
+
+    onFilter({
+      startDate: startDate ? formatISO(new Date(startDate), { representation: 'date' }) : undefined,
+      endDate: endDate ? formatISO(new Date(endDate), { representation: 'date' }) : undefined,
+      tagIds: selectedTags.length > 0 ? selectedTags : undefined,
+      searchTerm: searchTerm || undefined,
+      dropdownFilters: Object.keys(nonEmptyDropdownFilters).length > 0 ? nonEmptyDropdownFilters : undefined,
+      rangeFilters: Object.keys(rangeFilters).length > 0 ? rangeFilters : undefined,
+      booleanFilters: Object.keys(booleanFilters).length > 0 ? booleanFilters : undefined,
+      questionId,
+    });
   };
 
   // Clear filters
@@ -80,9 +132,12 @@ export default function FilterSidebar({ onFilter }: FilterSidebarProps) {
     setSelectedTags([]);
     setSearchTerm("");
     setDropdownFilters({});
+    setRangeInputs({});
+    setBooleanSelections({});
+    setQuestionId(undefined);
     
     // Reset to show all experiences
-    filterExperiences({}).then(onFilter);
+    onFilter({});
   };
 
   // Handle tag selection
@@ -208,6 +263,84 @@ export default function FilterSidebar({ onFilter }: FilterSidebarProps) {
             </div>
           )}
           
+          {/* Numeric range filters */}
+          {numericColumns.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Ranges</h4>
+              <div className="space-y-3">
+                {numericColumns.map((column) => (
+                  <div key={column.key} className="space-y-1">
+                    <Label className="text-xs text-gray-500">{column.name}</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type={column.type === "duration" ? "text" : "number"}
+                        placeholder={column.type === "duration" ? "Min, e.g. 1h" : "Min"}
+                        value={rangeInputs[column.key]?.min ?? ""}
+                        onChange={(e) => updateRangeInput(column.key, "min", e.target.value)}
+                      />
+                      <Input
+                        type={column.type === "duration" ? "text" : "number"}
+                        placeholder="Max"
+                        value={rangeInputs[column.key]?.max ?? ""}
+                        onChange={(e) => updateRangeInput(column.key, "max", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Yes/No filters */}
+          {booleanColumns.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Yes / No</h4>
+              <div className="space-y-3">
+                {booleanColumns.map((column) => (
+                  <div key={column.key} className="space-y-1">
+                    <Label className="text-xs text-gray-500">{column.name}</Label>
+                    <Select
+                      value={booleanSelections[column.key] ?? "any"}
+                      onValueChange={(value) => updateBooleanSelection(column.key, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        <SelectItem value="yes">Yes</SelectItem>
+                        <SelectItem value="no">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {/* Question filter: only the experiences linked to a question as answers */}
+          {questions.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Answers To</h4>
+              <Select
+                value={questionId === undefined ? "any" : String(questionId)}
+                onValueChange={(value) => setQuestionId(value === "any" ? undefined : Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any question</SelectItem>
+                  {questions.map(question => (
+                    <SelectItem key={question.id} value={String(question.id)}>
+                      <span className="block max-w-[12rem] truncate">{question.text}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
           {/* Tags Filter */}
           <div>
             <h4 className="text-sm font-medium text-gray-700 mb-2">Skills/Tags</h4>
@@ -245,7 +378,6 @@ export default function FilterSidebar({ onFilter }: FilterSidebarProps) {
           <Button 
             className="w-full" 
             onClick={applyFilters}
-            disabled={isFiltering}
           >
             Apply Filters
           </Button>
@@ -253,7 +385,6 @@ export default function FilterSidebar({ onFilter }: FilterSidebarProps) {
             className="w-full" 
             variant="outline"
             onClick={clearFilters}
-            disabled={isFiltering}
           >
             Clear Filters
           </Button>
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Menu, UserCircle2 } from "lucide-react";
+import { Flame, Menu, UserCircle2 } from "lucide-react";
 
 import {
   DropdownMenu,
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 import { useToast } from "@/hooks/use-toast";
+import { usePracticeSummary } from "@/hooks/use-practice";
 
 function AuthButton() {
   const [, setLocation] = useLocation();
@@ -54,6 +55,7 @@ function AuthButton() {
 
 export default function Navbar() {
   const [location] = useLocation();
+  const practice = usePracticeSummary(location !== "/");
 
   return (
     <nav className="bg-white shadow-sm">
@@ -81,6 +83,76 @@ export default function Navbar() {
                     }`}>
                       Column Configuration
                   </Link>
+                  <Link href="/import" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/import" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Import
+                  </Link>
+                  <Link href="/resumes" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/resumes" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Resumes
+                  </Link>
+                  <Link href="/questions" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/questions" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Questions
+                  </Link>
+                  <Link href="/job-match" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/job-match" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Job Match
+                  </Link>
+                  <Link href="/practice" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/practice" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Practice
+                      {practice && practice.dueCount > 0 && (
+                        <span className="ml-1.5 rounded-full bg-primary px-1.5 text-xs text-white" title="Due for practice">
+                          {practice.dueCount}
+                        </span>
+                      )}
+                      {practice && practice.streak > 0 && (
+                        <span
+                          className={`ml-1.5 inline-flex items-center text-xs ${practice.reviewedToday ? "text-orange-500" : "text-gray-400"}`}
+                          title={practice.reviewedToday ? "Practice streak" : "Practice today to keep your streak"}
+                        >
+                          <Flame className="h-3 w-3 mr-0.5" />
+                          {practice.streak}
+                        </span>
+                      )}
+                  </Link>
+                  <Link href="/skills" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/skills" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Skills
+                  </Link>
+                  <Link href="/trash" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/trash" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Trash
+                  </Link>
+                  <Link href="/backup" className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                      location === "/backup" 
+                        ? "border-primary text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    }`}>
+                      Backup
+                  </Link>
                 </>
               )}
             </div>
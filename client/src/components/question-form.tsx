@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Column, Question, QuestionFormData, questionFormSchema } from "@shared/schema";
+import { useExperiencePage } from "@/hooks/use-experiences";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { experienceLabel, questionCategoryLabels } from "@/lib/config";
+
+interface QuestionFormProps {
+  question: Question | null;
+  columns: Column[];
+  // Competencies already in the bank, offered as suggestions
+  competencies: string[];
+  onSubmit: (data: QuestionFormData) => void;
+  onCancel: () => void;
+}
+
+// Experiences per page of the answer picker
+const PICK_PAGE_SIZE = 8;
+
+export default function QuestionForm({ question, columns, competencies, onSubmit, onCancel }: QuestionFormProps) {
+  const [pickSearch, setPickSearch] = useState("");
+  const [pickPage, setPickPage] = useState(1);
+
+  const form = useForm<QuestionFormData>({
+    resolver: zodResolver(questionFormSchema),
+    defaultValues: {
+      text: question?.text ?? "",
+      category: (question?.category as QuestionFormData["category"]) ?? "behavioral",
+      competency: question?.competency ?? "",
+      experienceIds: question?.experienceIds ?? [],
+    },
+  });
+
+  const { data: pickPageData } = useExperiencePage({
+    searchTerm: pickSearch || undefined,
+    page: pickPage,
+    pageSize: PICK_PAGE_SIZE,
+    sortBy: "startDate",
+    sortDir: "desc",
+  });
+  const pageCount = pickPageData?.totalPages ?? 1;
+
+  useEffect(() => {
+    setPickPage(1);
+  }, [pickSearch]);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="text"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Question</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={3} placeholder="e.g. Tell me about a time you disagreed with your manager." />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(questionCategoryLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="competency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Competency</FormLabel>
+                <FormControl>
+                  <Input {...field} list="question-competencies" placeholder="e.g. Conflict resolution" />
+                </FormControl>
+                <datalist id="question-competencies">
+                  {competencies.map(competency => <option key={competency} value={competency} />)}
+                </datalist>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="experienceIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Answers</FormLabel>
+              <FormDescription>
+                The experiences you could tell when asked this. {field.value.length} linked.
+              </FormDescription>
+              <Input
+                placeholder="Search experiences..."
+                value={pickSearch}
+                onChange={(e) => setPickSearch(e.target.value)}
+              />
+              <div className="space-y-2 pt-2">
+                {pickPageData?.items.map(experience => (
+                  <div key={experience.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`answer-${experience.id}`}
+                      checked={field.value.includes(experience.id)}
+                      onCheckedChange={(checked) => field.onChange(checked === true
+                        ? [...field.value, experience.id]
+                        : field.value.filter(id => id !== experience.id))}
+                    />
+                    <label htmlFor={`answer-${experience.id}`} className="text-sm">
+                      {experienceLabel(experience, columns)}
+                    </label>
+                  </div>
+                ))}
+                {pickPageData?.items.length === 0 && (
+                  <p className="text-sm text-gray-500">No experiences found.</p>
+                )}
+              </div>
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-sm text-gray-500">Page {pickPage} of {pageCount}</span>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" disabled={pickPage <= 1} onClick={() => setPickPage(pickPage - 1)}>
+                    Previous
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" disabled={pickPage >= pageCount} onClick={() => setPickPage(pickPage + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">
+            {question ? "Update" : "Save"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Column, Experience } from "@shared/schema";
+import { useExperiences } from "@/hooks/use-experiences";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  filledStorySections,
+  isStoryValue,
+  storySectionLabels,
+  storySections,
+  type StoryValue,
+} from "@/lib/config";
+import ExperienceConflictDialog, { ExperienceValues, valuesOfExperience } from "./experience-conflict-dialog";
+import { versionConflictOf } from "@/lib/queryClient";
+
+interface StoryEditorProps {
+  columns: Column[];
+  // The story column being edited
+  column: Column;
+  experience: Experience;
+  onClose: () => void;
+}
+
+// What each section should answer, shown as its placeholder
+const sectionPrompts: Record<keyof StoryValue, string> = {
+  situation: "Where were you and what was going on? Keep it to the context the listener needs.",
+  task: "What were you responsible for, and what made it hard?",
+  action: "What did you do, step by step? Say \"I\", not \"we\".",
+  result: "What changed because of it? Numbers, feedback, what you learned.",
+};
+
+// One letter per STAR section, filled in once the section has been written
+export function StoryProgress({ value }: { value: unknown }) {
+  const filled = filledStorySections(value);
+
+  return (
+    <span className="inline-flex items-center gap-1" aria-label={`${filled.length} of ${storySections.length} sections written`}>
+      {storySections.map(section => (
+        <span
+          key={section}
+          title={storySectionLabels[section]}
+          className={cn(
+            "inline-flex h-5 w-5 items-center justify-center rounded text-xs font-medium",
+            filled.includes(section) ? "bg-green-100 text-green-800" : "border border-dashed border-gray-300 text-gray-400"
+          )}
+        >
+          {storySectionLabels[section][0]}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// Text saved before the column became a story column starts out as the situation
+const storyOf = (experience: Experience, column: Column): StoryValue => {
+  const value = (experience.customFields as Record<string, any>)[column.key];
+  if (typeof value === 'string' && value.trim()) return { situation: value };
+  return isStoryValue(value) ? value : {};
+};
+
+// Sections with text only; an empty story clears the field
+const withStory = (customFields: Record<string, any>, key: string, story: StoryValue) => {
+  const fields = { ...customFields };
+  const written: StoryValue = {};
+  storySections.forEach(section => {
+    const text = story[section]?.trim();
+    if (text) written[section] = text;
+  });
+  if (Object.keys(written).length > 0) {
+    fields[key] = written;
+  } else {
+    delete fields[key];
+  }
+  return fields;
+};
+
+export default function StoryEditor({ columns, column, experience, onClose }: StoryEditorProps) {
+  const { updateExperience, tags } = useExperiences();
+  // The copy the editor was last loaded from; its version goes with every save
+  const [loaded, setLoaded] = useState(experience);
+  const [story, setStory] = useState<StoryValue>(() => storyOf(experience, column));
+  const [conflict, setConflict] = useState<{ mine: ExperienceValues; theirs: Experience } | null>(null);
+
+  // Save against a version; if someone else saved first, open the conflict dialog
+  const saveUpdate = (values: ExperienceValues, version: number | undefined) => {
+    updateExperience(
+      {
+        id: experience.id,
+        data: {
+          startDate: new Date(values.startDate),
+          endDate: values.endDate ? new Date(values.endDate) : null,
+          customFields: values.customFields,
+          tags: values.tags,
+          version,
+        },
+      },
+      {
+        onSuccess: onClose,
+        onError: (error) => {
+          const current = versionConflictOf<Experience>(error)?.current;
+          if (current) setConflict({ mine: values, theirs: current });
+        },
+      }
+    );
+  };
+
+  const handleSave = () => {
+    const values = valuesOfExperience(loaded);
+    saveUpdate({ ...values, customFields: withStory(values.customFields, column.key, story) }, loaded.version);
+  };
+
+  const filledCount = filledStorySections(story).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <StoryProgress value={story} />
+        <span className="text-sm text-gray-500">
+          {filledCount === storySections.length
+            ? "Every section is written"
+            : `${filledCount} of ${storySections.length} sections written`}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {storySections.map(section => (
+          <div key={section} className="space-y-2">
+            <Label htmlFor={`story-${section}`}>{storySectionLabels[section]}</Label>
+            <Textarea
+              id={`story-${section}`}
+              rows={section === 'action' ? 5 : 3}
+              placeholder={sectionPrompts[section]}
+              value={story[section] ?? ''}
+              onChange={e => setStory(prev => ({ ...prev, [section]: e.target.value }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave}>
+          Save Story
+        </Button>
+      </div>
+
+      {conflict && (
+        <ExperienceConflictDialog
+          open
+          base={loaded}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          columns={columns}
+          tags={tags}
+          onSaveMerged={(values, version) => {
+            // The merge is based on their copy, so a further conflict compares against it
+            setLoaded(conflict.theirs);
+            setConflict(null);
+            saveUpdate(values, version);
+          }}
+          onUseTheirs={(theirs) => {
+            setLoaded(theirs);
+            setStory(storyOf(theirs, column));
+            setConflict(null);
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+    </div>
+  );
+}
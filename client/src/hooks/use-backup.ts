@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import { ArchiveImportMode, ArchiveImportResult } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { downloadResponse } from "@/lib/utils";
+
+// Full account backup: download an archive, or restore one by merging or replacing
+export function useBackup() {
+  const { toast } = useToast();
+
+  const downloadBackup = async () => {
+    try {
+      const res = await apiRequest('GET', '/api/export');
+      await downloadResponse(res, 'worktrackerpro-backup.json');
+    } catch (error) {
+      toast({
+        title: "Failed to download backup",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importBackupMutation = useMutation({
+    mutationFn: async ({ archive, mode }: { archive: unknown, mode: ArchiveImportMode }): Promise<ArchiveImportResult> => {
+      const res = await apiRequest('POST', `/api/import?mode=${mode}`, archive);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Backup restored",
+        description: `Imported ${result.created.experiences} experience(s), ${result.created.columns} column(s) and ${result.created.tags} tag(s)`,
+      });
+      // Everything the account owns may have changed
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    downloadBackup,
+    importBackup: importBackupMutation.mutate,
+    importResult: importBackupMutation.data,
+    isPending: importBackupMutation.isPending,
+  };
+}
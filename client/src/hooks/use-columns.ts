@@ -1,9 +1,19 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Column, ColumnFormData } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  Column, ColumnDeleteMode, ColumnFormData, ColumnKeyRenamePreview, DropdownOptionChanges, OrphanedFieldKey
+} from "@shared/schema";
+import { apiRequest, versionConflictOf } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+// Archiving, purging and resetting also change the archived and orphaned lists
+function invalidateColumnQueries() {
+  queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/columns/archived'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/columns/orphaned-keys'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+}
+
 export function useColumns() {
   const { toast } = useToast();
 
@@ -21,7 +31,8 @@ export function useColumns() {
         title: "Column created",
         description: "The column has been created successfully",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+      // A new column may adopt an orphaned key
+      invalidateColumnQueries();
     },
     onError: (error) => {
       toast({
@@ -33,18 +44,35 @@ export function useColumns() {
   });
 
   const updateColumnMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: Partial<ColumnFormData> }) => {
+    mutationFn: async ({ id, data }: {
+      id: number,
+      data: Partial<ColumnFormData> & { optionChanges?: DropdownOptionChanges, version?: number }
+    }) => {
       const res = await apiRequest('PATCH', `/api/columns/${id}`, data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_column, { data }) => {
       toast({
         title: "Column updated",
         description: "The column has been updated successfully",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+      // Key and option changes rewrite the stored values of existing experiences
+      if (data.key !== undefined || data.optionChanges) {
+        invalidateColumnQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+      }
     },
     onError: (error) => {
+      if (versionConflictOf(error)) {
+        toast({
+          title: "Column changed elsewhere",
+          description: "Someone else saved this column first. The latest version has been loaded; please make your change again.",
+          variant: "destructive",
+        });
+        invalidateColumnQueries();
+        return;
+      }
       toast({
         title: "Failed to update column",
         description: error.message,
@@ -54,15 +82,17 @@ export function useColumns() {
   });
 
   const deleteColumnMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest('DELETE', `/api/columns/${id}`);
+    mutationFn: async ({ id, mode }: { id: number, mode: ColumnDeleteMode }) => {
+      await apiRequest('DELETE', `/api/columns/${id}?mode=${mode}`);
     },
-    onSuccess: () => {
+    onSuccess: (_result, { mode }) => {
       toast({
-        title: "Column deleted",
-        description: "The column has been deleted successfully",
+        title: mode === "archive" ? "Column archived" : "Column deleted",
+        description: mode === "archive"
+          ? "The column is hidden and its values are kept; you can restore it at any time"
+          : "The column and its values have been deleted",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+      invalidateColumnQueries();
     },
     onError: (error) => {
       toast({
@@ -73,6 +103,33 @@ export function useColumns() {
     },
   });
 
+  const resetColumnsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/columns/reset');
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Columns reset",
+        description: "Your columns have been restored to the defaults",
+      });
+      invalidateColumnQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to reset columns",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Count the experiences a key change would move, without changing anything
+  const previewKeyRename = async (id: number, key: string): Promise<ColumnKeyRenamePreview> => {
+    const res = await apiRequest('GET', `/api/columns/${id}/rename-preview?key=${encodeURIComponent(key)}`);
+    return res.json();
+  };
+
   const sortedColumns = [...columns].sort((a, b) => a.order - b.order);
   const visibleColumns = sortedColumns.filter(column => column.isVisible);
 
@@ -84,6 +141,71 @@ export function useColumns() {
     createColumn: createColumnMutation.mutate,
     updateColumn: updateColumnMutation.mutate,
     deleteColumn: deleteColumnMutation.mutate,
-    isPending: createColumnMutation.isPending || updateColumnMutation.isPending || deleteColumnMutation.isPending,
+    resetColumns: resetColumnsMutation.mutate,
+    previewKeyRename,
+    isPending: createColumnMutation.isPending || updateColumnMutation.isPending || deleteColumnMutation.isPending || resetColumnsMutation.isPending,
+  };
+}
+
+// Archived columns and the orphaned customFields keys deleted columns left behind
+export function useColumnCleanup() {
+  const { toast } = useToast();
+
+  const { data: archivedColumns = [] } = useQuery<Column[]>({
+    queryKey: ['/api/columns/archived'],
+  });
+
+  const { data: orphanedKeys = [] } = useQuery<OrphanedFieldKey[]>({
+    queryKey: ['/api/columns/orphaned-keys'],
+  });
+
+  const restoreColumnMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/columns/${id}/restore`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Column restored",
+        description: "The column and its values are back",
+      });
+      invalidateColumnQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore column",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeOrphanedKeyMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const res = await apiRequest('DELETE', `/api/columns/orphaned-keys/${encodeURIComponent(key)}`);
+      return res.json();
+    },
+    onSuccess: (result: OrphanedFieldKey) => {
+      toast({
+        title: "Data deleted",
+        description: `Removed "${result.key}" from ${result.experienceCount} experience(s)`,
+      });
+      invalidateColumnQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete data",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    archivedColumns,
+    orphanedKeys,
+    restoreColumn: restoreColumnMutation.mutate,
+    purgeOrphanedKey: purgeOrphanedKeyMutation.mutate,
+    isPending: restoreColumnMutation.isPending || purgeOrphanedKeyMutation.isPending,
   };
 }
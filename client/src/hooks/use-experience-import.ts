@@ -0,0 +1,73 @@
+import { useMutation } from "@tanstack/react-query";
+import { ExperienceImportPreview, ExperienceImportRequest, ExperienceImportResult, ImportSource } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ImportOptions = Omit<ExperienceImportRequest, 'dryRun'>;
+
+// Spreadsheet and JSON Resume import of experiences: preview the file's headers,
+// check the mapped rows with a dry run, then import the rows that passed
+export function useExperienceImport() {
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ text, source }: { text: string, source: ImportSource }): Promise<ExperienceImportPreview> => {
+      const res = await apiRequest('POST', '/api/experiences/import/preview', { text, source });
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to read the file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (options: ImportOptions): Promise<ExperienceImportResult> => {
+      const res = await apiRequest('POST', '/api/experiences/import', { ...options, dryRun: true });
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to check the rows",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (options: ImportOptions): Promise<ExperienceImportResult> => {
+      const res = await apiRequest('POST', '/api/experiences/import', { ...options, dryRun: false });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Import complete",
+        description: `Imported ${result.created.experiences} experience(s) and created ${result.created.columns} column(s) and ${result.created.tags} tag(s)`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/columns'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      // A new column may claim a key that was orphaned
+      queryClient.invalidateQueries({ queryKey: ['/api/columns/orphaned-keys'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to import experiences",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    preview: previewMutation.mutate,
+    dryRun: dryRunMutation.mutate,
+    runImport: importMutation.mutate,
+    isPending: previewMutation.isPending || dryRunMutation.isPending || importMutation.isPending,
+  };
+}
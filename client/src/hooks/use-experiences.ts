@@ -1,15 +1,51 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Experience, ExperienceFormData, Tag } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import {
+  Experience,
+  ExperienceExportOptions,
+  ExperienceFilters,
+  ExperienceFormData,
+  ExperiencePage,
+  ExperiencePageOptions,
+  ExperienceRevision,
+  ExperienceTrash,
+  JsonResumeExportOptions,
+  RevisionDiff,
+  Tag,
+} from "@shared/schema";
+import { apiRequest, versionConflictOf } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { downloadResponse } from "@/lib/utils";
 
-export function useExperiences() {
-  const { toast } = useToast();
+export type ExperienceQuery = ExperienceFilters & ExperiencePageOptions;
 
-  const { data: experiences = [], isLoading, isError } = useQuery<Experience[]>({
-    queryKey: ['/api/experiences'],
+// One server-side page of experiences matching the filters
+export function useExperiencePage(query: ExperienceQuery) {
+  return useQuery<ExperiencePage>({
+    // Shares the '/api/experiences' prefix so mutations invalidate it
+    queryKey: ['/api/experiences', 'search', query],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/experiences/search', query);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
   });
+}
+
+// Stream the experiences matching the filters from the server as a CSV or XLSX download
+export async function downloadExperienceExport(filters: ExperienceFilters, options: ExperienceExportOptions) {
+  const res = await apiRequest('POST', '/api/experiences/export', { ...filters, ...options });
+  await downloadResponse(res, `experiences.${options.format ?? 'csv'}`);
+}
+
+// Download the experiences matching the filters as a JSON Resume, fields filled from the mapped columns
+export async function downloadJsonResumeExport(filters: ExperienceFilters, options: JsonResumeExportOptions) {
+  const res = await apiRequest('POST', '/api/experiences/export/json-resume', { ...filters, ...options });
+  await downloadResponse(res, 'resume.json');
+}
+
+export function useExperiences() {
+  const { toast } = useToast();
 
   const createExperienceMutation = useMutation({
     mutationFn: async (experienceData: ExperienceFormData) => {
@@ -33,7 +69,8 @@ export function useExperiences() {
   });
 
   const updateExperienceMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: Partial<ExperienceFormData> }) => {
+    // version is the one the edit started from; a stale version is rejected with a conflict
+    mutationFn: async ({ id, data }: { id: number, data: Partial<ExperienceFormData> & { version?: number } }): Promise<Experience> => {
       const res = await apiRequest('PATCH', `/api/experiences/${id}`, data);
       return res.json();
     },
@@ -45,6 +82,8 @@ export function useExperiences() {
       queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
     },
     onError: (error) => {
+      // The form resolves conflicts itself
+      if (versionConflictOf(error)) return;
       toast({
         title: "Failed to update experience",
         description: error.message,
@@ -59,8 +98,8 @@ export function useExperiences() {
     },
     onSuccess: () => {
       toast({
-        title: "Experience deleted",
-        description: "The experience has been deleted successfully",
+        title: "Moved to trash",
+        description: "The experience can be restored from the Trash page",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
     },
@@ -94,37 +133,150 @@ export function useExperiences() {
     },
   });
 
-  const filterExperiences = async (filters: {
-    startDate?: string;
-    endDate?: string;
-    tagIds?: number[];
-    searchTerm?: string;
-    dropdownFilters?: Record<string, string[]>;
-  }) => {
-    try {
-      // For dropdown filters and complex filtering, use POST request with the filter params in the body
-      const res = await apiRequest('POST', '/api/experiences/search', filters);
-      
-      if (!res.ok) {
-        throw new Error('Failed to filter experiences');
-      }
-      return await res.json();
-    } catch (error) {
-      console.error('Error filtering experiences:', error);
-      throw error;
-    }
-  };
-
   return {
-    experiences,
-    isLoading,
-    isError,
     createExperience: createExperienceMutation.mutate,
     updateExperience: updateExperienceMutation.mutate,
     deleteExperience: deleteExperienceMutation.mutate,
     isPending: createExperienceMutation.isPending || updateExperienceMutation.isPending || deleteExperienceMutation.isPending,
     tags,
     createTag: createTagMutation.mutate,
-    filterExperiences,
   };
 }
+
+// Deleted experiences waiting in the trash, with restore and permanent delete
+export function useTrash() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ExperienceTrash>({
+    // Shares the '/api/experiences' prefix so deleting an experience refreshes it
+    queryKey: ['/api/experiences', 'trash'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/experiences/trash');
+      return res.json();
+    },
+  });
+
+  const restoreExperienceMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/experiences/${id}/restore`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Experience restored",
+        description: "The experience is back in your list",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore experience",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeExperienceMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/experiences/${id}/permanent`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Experience deleted",
+        description: "The experience has been permanently deleted",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete experience",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emptyTrashMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/experiences/trash');
+    },
+    onSuccess: () => {
+      toast({
+        title: "Trash emptied",
+        description: "Every experience in the trash has been permanently deleted",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to empty trash",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    experiences: data?.items ?? [],
+    retentionDays: data?.retentionDays,
+    isLoading,
+    restoreExperience: restoreExperienceMutation.mutate,
+    purgeExperience: purgeExperienceMutation.mutate,
+    emptyTrash: emptyTrashMutation.mutate,
+    isPending: restoreExperienceMutation.isPending || purgeExperienceMutation.isPending || emptyTrashMutation.isPending,
+  };
+}
+
+// Revision history of one experience, with restoring an earlier revision
+export function useExperienceRevisions(experienceId: number) {
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<ExperienceRevision[]>({
+    queryKey: ['/api/experiences', experienceId, 'revisions'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/experiences/${experienceId}/revisions`);
+      return res.json();
+    },
+  });
+
+  const restoreRevisionMutation = useMutation({
+    mutationFn: async (revision: number): Promise<Experience> => {
+      const res = await apiRequest('POST', `/api/experiences/${experienceId}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: (_experience, revision) => {
+      toast({
+        title: "Revision restored",
+        description: `The experience is back to revision ${revision}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    revisions,
+    isLoading,
+    restoreRevision: restoreRevisionMutation.mutate,
+    isPending: restoreRevisionMutation.isPending,
+  };
+}
+
+// Field-level changes between two revisions of an experience
+export function useRevisionDiff(experienceId: number, compare?: { from: number; to: number }) {
+  return useQuery<RevisionDiff>({
+    queryKey: ['/api/experiences', experienceId, 'revisions', 'diff', compare],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/experiences/${experienceId}/revisions/diff?from=${compare!.from}&to=${compare!.to}`);
+      return res.json();
+    },
+    enabled: compare !== undefined,
+  });
+}
@@ -0,0 +1,30 @@
+import { useMutation } from "@tanstack/react-query";
+import { JobMatchRequest, JobMatchResult } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Rank the user's experiences against a job description. Nothing is saved, so
+// the result lives in the mutation rather than the query cache.
+export function useJobMatch() {
+  const { toast } = useToast();
+
+  const matchMutation = useMutation({
+    mutationFn: async (data: JobMatchRequest): Promise<JobMatchResult> => {
+      const res = await apiRequest('POST', '/api/job-match', data);
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to match the job description",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    match: matchMutation.mutate,
+    result: matchMutation.data,
+    isPending: matchMutation.isPending,
+  };
+}
@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PracticeReviewData, PracticeSchedule, PracticeSession, PracticeSummary } from "@shared/schema";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Ratings offered after an attempt, on SM-2's 0-5 scale; anything below Hard
+// counts as forgotten and starts the experience over
+export const practiceRatings = [
+  { label: "Again", rating: 1, description: "Couldn't tell it" },
+  { label: "Hard", rating: 3, description: "Got there with effort" },
+  { label: "Good", rating: 4, description: "Told it with small gaps" },
+  { label: "Easy", rating: 5, description: "Told it without thinking" },
+] as const;
+
+// The streak and due count shown in the navbar; null when signed out
+export function usePracticeSummary(enabled = true) {
+  const { data: summary } = useQuery<PracticeSummary | null>({
+    queryKey: ['/api/practice/summary'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled,
+  });
+
+  return summary ?? null;
+}
+
+// Today's practice session. It is refetched on every visit since stories and
+// question links edited elsewhere change what can be practiced.
+export function usePractice() {
+  const { toast } = useToast();
+
+  const { data: session, isLoading } = useQuery<PracticeSession>({
+    queryKey: ['/api/practice'],
+    staleTime: 0,
+  });
+
+  // The session carries the summary too, so the navbar catches up whenever it loads
+  useEffect(() => {
+    if (!session) return;
+    const { dueCount, streak, reviewedToday } = session;
+    queryClient.setQueryData<PracticeSummary>(['/api/practice/summary'], { dueCount, streak, reviewedToday });
+  }, [session]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ experienceId, data }: { experienceId: number, data: PracticeReviewData }): Promise<PracticeSchedule> => {
+      const res = await apiRequest('POST', `/api/practice/${experienceId}/review`, data);
+      return res.json();
+    },
+    // Stays pending until the session has been refetched, so the next item
+    // isn't rated against the one just practiced
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/practice'] }),
+    onError: (error) => {
+      toast({
+        title: "Failed to save your rating",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    session,
+    isLoading,
+    review: reviewMutation.mutate,
+    isPending: reviewMutation.isPending,
+  };
+}
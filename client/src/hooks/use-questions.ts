@@ -0,0 +1,92 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Question, QuestionFormData } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Linking answers changes what the question filter matches, so experience
+// searches are refreshed along with the question list
+const invalidateQuestions = () => {
+  queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/experiences'] });
+};
+
+// The interview question bank
+export function useQuestions() {
+  const { toast } = useToast();
+
+  const { data: questions = [], isLoading } = useQuery<Question[]>({
+    queryKey: ['/api/questions'],
+  });
+
+  const createQuestionMutation = useMutation({
+    mutationFn: async (questionData: QuestionFormData): Promise<Question> => {
+      const res = await apiRequest('POST', '/api/questions', questionData);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Question added",
+        description: "The question has been added to your question bank",
+      });
+      invalidateQuestions();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateQuestionMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: Partial<QuestionFormData> }): Promise<Question> => {
+      const res = await apiRequest('PATCH', `/api/questions/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Question updated",
+        description: "The question has been updated successfully",
+      });
+      invalidateQuestions();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/questions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Question deleted",
+        description: "The question has been deleted successfully",
+      });
+      invalidateQuestions();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    questions,
+    isLoading,
+    createQuestion: createQuestionMutation.mutate,
+    updateQuestion: updateQuestionMutation.mutate,
+    deleteQuestion: deleteQuestionMutation.mutate,
+    isPending: createQuestionMutation.isPending || updateQuestionMutation.isPending || deleteQuestionMutation.isPending,
+  };
+}
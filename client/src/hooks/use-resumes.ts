@@ -0,0 +1,99 @@
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { Resume, ResumeFormData, ResumePreview } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Saved resume variants
+export function useResumes() {
+  const { toast } = useToast();
+
+  const { data: resumes = [], isLoading } = useQuery<Resume[]>({
+    queryKey: ['/api/resumes'],
+  });
+
+  const createResumeMutation = useMutation({
+    mutationFn: async (resumeData: ResumeFormData): Promise<Resume> => {
+      const res = await apiRequest('POST', '/api/resumes', resumeData);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Resume saved",
+        description: "The resume has been saved successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/resumes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateResumeMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: Partial<ResumeFormData> }): Promise<Resume> => {
+      const res = await apiRequest('PATCH', `/api/resumes/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Resume saved",
+        description: "The resume has been updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/resumes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteResumeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/resumes/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Resume deleted",
+        description: "The resume has been deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/resumes'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete resume",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    resumes,
+    isLoading,
+    createResume: createResumeMutation.mutate,
+    updateResume: updateResumeMutation.mutate,
+    deleteResume: deleteResumeMutation.mutate,
+    isPending: createResumeMutation.isPending || updateResumeMutation.isPending || deleteResumeMutation.isPending,
+  };
+}
+
+// The rendered Markdown and HTML of a resume draft; null while the draft isn't complete
+export function useResumePreview(draft: ResumeFormData | null) {
+  return useQuery<ResumePreview>({
+    // Shares the '/api/experiences' prefix so experience edits refresh it
+    queryKey: ['/api/experiences', 'resume-preview', draft],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/resumes/preview', draft);
+      return res.json();
+    },
+    enabled: draft !== null,
+    placeholderData: keepPreviousData,
+  });
+}
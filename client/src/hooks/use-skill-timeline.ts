@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { SkillTimeline } from "@shared/schema";
+
+// How long each skill has been used, from one multi-select column key or
+// "tags", or from all of them. Refetched on every visit since it follows
+// whatever experiences were edited in the meantime.
+export function useSkillTimeline(source?: string) {
+  const query = source ? `?source=${encodeURIComponent(source)}` : "";
+
+  const { data: timeline, isLoading } = useQuery<SkillTimeline>({
+    queryKey: [`/api/analytics/skills${query}`],
+    staleTime: 0,
+  });
+
+  return { timeline, isLoading };
+}
@@ -1,65 +1,20 @@
 import { z } from "zod";
-
-// Default column definitions
-export const defaultColumns = [
-  {
-    id: 1,
-    name: "Start Date",
-    key: "startDate",
-    type: "date" as const,
-    order: 1,
-    isVisible: true
-  },
-  {
-    id: 2,
-    name: "End Date",
-    key: "endDate",
-    type: "date" as const,
-    order: 2,
-    isVisible: true
-  },
-  {
-    id: 3,
-    name: "Client",
-    key: "client",
-    type: "short-text" as const,
-    order: 3,
-    isVisible: true
-  },
-  {
-    id: 4,
-    name: "Project",
-    key: "project",
-    type: "short-text" as const,
-    order: 4,
-    isVisible: true
-  },
-  {
-    id: 5,
-    name: "Skills",
-    key: "skills",
-    type: "dropdown" as const,
-    dropdownOptions: ["React", "TypeScript", "Next.js", "MongoDB", "Python"],
-    allowMultiple: true,
-    order: 5,
-    isVisible: true
-  },
-  {
-    id: 6,
-    name: "Notes",
-    key: "notes",
-    type: "long-text" as const,
-    order: 6,
-    isVisible: true
-  }
-];
+import { format } from "date-fns";
+import type { Column, Experience, QuestionCategory } from "@shared/schema";
 
 // Define column types
 export const columnTypes = [
   { value: "date", label: "Date" },
   { value: "short-text", label: "Short Text" },
   { value: "long-text", label: "Long Text" },
-  { value: "dropdown", label: "Dropdown" }
+  { value: "dropdown", label: "Dropdown" },
+  { value: "number", label: "Number" },
+  { value: "currency", label: "Currency" },
+  { value: "url", label: "URL" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "rating", label: "Rating (1-5)" },
+  { value: "duration", label: "Duration" },
+  { value: "story", label: "STAR Story" }
 ];
 
 // Helper functions for getting column properties
@@ -77,6 +32,48 @@ export const generateColumnKey = (name: string): string => {
     .trim();
 };
 
+// Currency values are stored as plain numbers and shown in this currency
+export const DEFAULT_CURRENCY = "USD";
+
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: DEFAULT_CURRENCY }).format(value);
+};
+
+// Shared with the server, which parses durations when importing spreadsheets
+export { formatDuration, parseDuration } from "@shared/duration";
+import { formatStory, isStoryValue } from "@shared/story";
+export { filledStorySections, isStoryValue, storySectionLabels, storySections, type StoryValue } from "@shared/story";
+// Shared with the server so job match highlights are the terms it matched on
+export { termRanges } from "@shared/terms";
+
+// A stored field value as plain text, for history and conflict views; empty values read as a dash
+export const formatFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === 'boolean') return value ? "Yes" : "No";
+  if (isStoryValue(value)) return formatStory(value) || "—";
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const questionCategoryLabels: Record<QuestionCategory, string> = {
+  behavioral: "Behavioral",
+  technical: "Technical",
+};
+
+// A short name for an experience in lists, e.g. of a question's answers: its
+// first two filled text or single-choice dropdown values, or its start month
+export const experienceLabel = (experience: Experience, columns: Column[]): string => {
+  const fields = experience.customFields as Record<string, any>;
+  const label = columns
+    .filter(column => column.type === 'short-text' || (column.type === 'dropdown' && !column.allowMultiple))
+    .map(column => fields[column.key])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    .slice(0, 2)
+    .join(" — ");
+  return label || format(new Date(experience.startDate), "MMM yyyy");
+};
+
 // Tags color mapping to maintain consistent colors
 export const tagColors: Record<string, { bg: string, text: string }> = {
   "React": { bg: "bg-blue-100", text: "text-blue-800" },
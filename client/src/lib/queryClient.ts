@@ -1,12 +1,33 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { VersionConflict } from "@shared/schema";
+
+// A non-2xx response; body is the parsed JSON body when there is one
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: unknown) {
+    super(message);
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    throw new ApiError(`${res.status}: ${text}`, res.status, body);
   }
 }
 
+// The server's current copy when a PATCH was rejected for carrying a stale version
+export function versionConflictOf<T>(error: unknown): VersionConflict<T> | undefined {
+  return error instanceof ApiError && error.status === 409 && (error.body as VersionConflict<T>)?.current
+    ? error.body as VersionConflict<T>
+    : undefined;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
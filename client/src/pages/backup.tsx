@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useBackup } from "@/hooks/use-backup";
+import { useToast } from "@/hooks/use-toast";
+import { ArchiveImportMode } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Upload } from "lucide-react";
+
+export default function Backup() {
+  const { downloadBackup, importBackup, importResult, isPending } = useBackup();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ArchiveImportMode>("merge");
+  const [isReplaceDialogOpen, setIsReplaceDialogOpen] = useState(false);
+
+  const restore = async () => {
+    if (!file) return;
+    let archive: unknown;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      toast({
+        title: "Not a backup file",
+        description: "The selected file is not valid JSON",
+        variant: "destructive",
+      });
+      return;
+    }
+    importBackup({ archive, mode });
+  };
+
+  // Replacing deletes everything first, so ask before doing it
+  const handleRestoreClick = () => {
+    if (mode === "replace") {
+      setIsReplaceDialogOpen(true);
+    } else {
+      restore();
+    }
+  };
+
+  const confirmReplace = () => {
+    setIsReplaceDialogOpen(false);
+    restore();
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-lg">Download a Backup</CardTitle>
+            <CardDescription>
+              One JSON file with your columns, experiences (including the trash), tags and how they are linked.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Button onClick={downloadBackup}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Backup
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-lg">Restore a Backup</CardTitle>
+            <CardDescription>
+              Merging adds the backup to what you have; replacing deletes your current data first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="backup-file">Backup file</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as ArchiveImportMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge into my account</SelectItem>
+                  <SelectItem value="replace">Replace everything in my account</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleRestoreClick} disabled={!file || isPending}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isPending ? "Restoring..." : "Restore"}
+            </Button>
+
+            {importResult && (
+              <div className="rounded-md border p-4 text-sm space-y-2">
+                <p>
+                  Created {importResult.created.columns} column(s), {importResult.created.tags} tag(s),{" "}
+                  {importResult.created.experiences} experience(s) and {importResult.created.experienceTags} tag link(s).
+                </p>
+                {importResult.conflicts.length > 0 && (
+                  <div>
+                    <p className="font-medium">Not imported as-is:</p>
+                    <ul className="list-disc pl-5 text-gray-600">
+                      {importResult.conflicts.map((conflict, index) => (
+                        <li key={index}>
+                          {conflict.kind === "experience" ? `Experience #${conflict.item}` : `${conflict.kind === "column" ? "Column" : "Tag"} "${conflict.item}"`}
+                          : {conflict.resolution}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Replace Confirmation Dialog */}
+      <AlertDialog open={isReplaceDialogOpen} onOpenChange={setIsReplaceDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace all of your data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your current columns, tags and experiences, including the trash and revision history,
+              will be deleted and replaced by the backup. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReplace} className="bg-red-600 hover:bg-red-700">
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
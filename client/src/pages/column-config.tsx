@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import { useColumns } from "@/hooks/use-columns";
-import { Column } from "@shared/schema";
+import { useColumns, useColumnCleanup } from "@/hooks/use-columns";
+import { Column, ColumnDeleteMode, ColumnKeyRenamePreview } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -27,11 +28,23 @@ import {
 import { Badge } from "@/components/ui/badge";
 
 export default function ColumnConfig() {
-  const { columns, createColumn, updateColumn, deleteColumn, isPending } = useColumns();
+  const { columns, createColumn, updateColumn, deleteColumn, resetColumns, previewKeyRename, isPending } = useColumns();
+  const { archivedColumns, orphanedKeys, restoreColumn, purgeOrphanedKey, isPending: isCleanupPending } = useColumnCleanup();
+  const { toast } = useToast();
   const [isColumnModalOpen, setIsColumnModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
   const [currentColumn, setCurrentColumn] = useState<Column | undefined>(undefined);
+  // Key of orphaned values being re-adopted by a new column
+  const [adoptedKey, setAdoptedKey] = useState<string | undefined>(undefined);
+  const [keyToPurge, setKeyToPurge] = useState<string | null>(null);
   const [sortedColumns, setSortedColumns] = useState<Column[]>([]);
+  // An edit that changes the column key waits here until the user confirms it
+  const [pendingKeyRename, setPendingKeyRename] = useState<{
+    column: Column;
+    data: any;
+    preview: ColumnKeyRenamePreview;
+  } | null>(null);
   
   // Sort columns by order when the component loads or columns change
   useEffect(() => {
@@ -41,11 +54,20 @@ export default function ColumnConfig() {
   // Handle opening the add/edit modal
   const handleAddColumn = () => {
     setCurrentColumn(undefined);
+    setAdoptedKey(undefined);
+    setIsColumnModalOpen(true);
+  };
+
+  // Create a column that picks up values left under an orphaned key
+  const handleAdoptKey = (key: string) => {
+    setCurrentColumn(undefined);
+    setAdoptedKey(key);
     setIsColumnModalOpen(true);
   };
   
   const handleEditColumn = (column: Column) => {
     setCurrentColumn(column);
+    setAdoptedKey(undefined);
     setIsColumnModalOpen(true);
   };
   
@@ -55,23 +77,59 @@ export default function ColumnConfig() {
     setIsDeleteDialogOpen(true);
   };
   
-  // Execute delete
-  const confirmDelete = () => {
+  // Execute delete: archive keeps the values, purge removes them too
+  const confirmDelete = (mode: ColumnDeleteMode) => {
     if (currentColumn) {
-      deleteColumn(currentColumn.id);
+      deleteColumn({ id: currentColumn.id, mode });
       setIsDeleteDialogOpen(false);
     }
   };
+
+  const confirmPurgeKey = () => {
+    if (keyToPurge) {
+      purgeOrphanedKey(keyToPurge);
+      setKeyToPurge(null);
+    }
+  };
+  
+  // Execute reset to the default column set
+  const confirmReset = () => {
+    resetColumns();
+    setIsResetDialogOpen(false);
+  };
   
   // Handle form submission
-  const handleColumnSubmit = (data: any) => {
-    if (currentColumn) {
-      updateColumn({ id: currentColumn.id, data });
+  const handleColumnSubmit = async (data: any) => {
+    if (currentColumn && data.key !== currentColumn.key) {
+      try {
+        const preview = await previewKeyRename(currentColumn.id, data.key);
+        setPendingKeyRename({ column: currentColumn, data, preview });
+      } catch (error) {
+        toast({
+          title: "Cannot change column key",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (currentColumn) {
+      updateColumn({ id: currentColumn.id, data: { ...data, version: currentColumn.version } });
     } else {
       createColumn(data);
     }
     setIsColumnModalOpen(false);
   };
+
+  // Execute a confirmed key change
+  const confirmKeyRename = () => {
+    if (pendingKeyRename) {
+      updateColumn({
+        id: pendingKeyRename.column.id,
+        data: { ...pendingKeyRename.data, version: pendingKeyRename.column.version },
+      });
+      setPendingKeyRename(null);
+    }
+  };
   
   // Toggle column visibility
   const toggleColumnVisibility = (column: Column) => {
@@ -267,7 +325,89 @@ export default function ColumnConfig() {
               >
                 Import Config
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setIsResetDialogOpen(true)}
+                disabled={isPending}
+              >
+                Reset to Defaults
+              </Button>
             </div>
+
+            {archivedColumns.length > 0 && (
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold mb-3">Archived Columns</h3>
+                <ul className="space-y-2">
+                  {archivedColumns.map(column => (
+                    <li key={column.id} className="flex items-center justify-between p-3 rounded-md border">
+                      <div>
+                        <span className="font-medium">{column.name}</span>
+                        <span className="ml-2 text-sm text-gray-500">{getColumnLabel(column.type)}</span>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreColumn(column.id)}
+                          disabled={isCleanupPending}
+                        >
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-500 hover:text-red-700"
+                          onClick={() => handleDeleteClick(column)}
+                          disabled={isPending}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {orphanedKeys.length > 0 && (
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold mb-1">Orphaned Data</h3>
+                <p className="text-sm text-gray-500 mb-3">
+                  Values stored under keys that no column uses, usually left behind by deleted columns.
+                </p>
+                <ul className="space-y-2">
+                  {orphanedKeys.map(orphan => (
+                    <li key={orphan.key} className="flex items-center justify-between p-3 rounded-md border">
+                      <div>
+                        <span className="font-mono text-sm">{orphan.key}</span>
+                        <span className="ml-2 text-sm text-gray-500">
+                          {orphan.experienceCount} experience{orphan.experienceCount === 1 ? "" : "s"}
+                        </span>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleAdoptKey(orphan.key)}
+                          disabled={isPending}
+                        >
+                          Create Column
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-500 hover:text-red-700"
+                          onClick={() => setKeyToPurge(orphan.key)}
+                          disabled={isCleanupPending}
+                        >
+                          Delete Data
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -280,6 +420,7 @@ export default function ColumnConfig() {
           </DialogHeader>
           <ColumnForm 
             column={currentColumn}
+            initialKey={adoptedKey}
             onSubmit={handleColumnSubmit}
             onCancel={() => setIsColumnModalOpen(false)}
           />
@@ -290,16 +431,89 @@ export default function ColumnConfig() {
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Delete the "{currentColumn?.name}" column?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the "{currentColumn?.name}" column from all experiences.
+              {currentColumn?.archivedAt
+                ? "Deleting permanently also removes this column's values from every experience. This action cannot be undone."
+                : "Archiving hides the column but keeps its values so you can restore it later. Deleting permanently also removes its values from every experience and cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {!currentColumn?.archivedAt && (
+              <AlertDialogAction onClick={() => confirmDelete("archive")}>
+                Archive
+              </AlertDialogAction>
+            )}
+            <AlertDialogAction onClick={() => confirmDelete("purge")} className="bg-red-600 hover:bg-red-700">
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Key Change Confirmation Dialog */}
+      <AlertDialog open={!!pendingKeyRename} onOpenChange={(open) => !open && setPendingKeyRename(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change column key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingKeyRename && (
+                <>
+                  The key of "{pendingKeyRename.column.name}" changes from "{pendingKeyRename.preview.oldKey}" to
+                  "{pendingKeyRename.preview.newKey}".{" "}
+                  {pendingKeyRename.preview.affected === 1
+                    ? "1 experience has a value that will be moved to the new key."
+                    : `${pendingKeyRename.preview.affected} experiences have values that will be moved to the new key.`}
+                  {pendingKeyRename.preview.overwritten > 0 &&
+                    ` ${pendingKeyRename.preview.overwritten} of them already have a value under "${pendingKeyRename.preview.newKey}", which will be replaced.`}
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmKeyRename}>
+              Change Key
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Orphaned Data Confirmation Dialog */}
+      <AlertDialog open={keyToPurge !== null} onOpenChange={(open) => !open && setKeyToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete orphaned data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes every value stored under "{keyToPurge}" from your experiences.
               This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
-              Delete
+            <AlertDialogAction onClick={confirmPurgeKey} className="bg-red-600 hover:bg-red-700">
+              Delete Data
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Reset Confirmation Dialog */}
+      <AlertDialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset columns to defaults?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This replaces all of your columns, archived ones included, with the default set.
+              Values stored in columns that are not part of the defaults are kept and listed
+              under Orphaned Data.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReset} className="bg-red-600 hover:bg-red-700">
+              Reset
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,26 +1,17 @@
 import { useState } from "react";
 import { useColumns } from "@/hooks/use-columns";
-import { useExperiences } from "@/hooks/use-experiences";
 import FilterSidebar from "@/components/filter-sidebar";
 import ExperienceTable from "@/components/experience-table";
-import { Experience } from "@shared/schema";
+import { ExperienceFilters } from "@shared/schema";
 
 export default function Home() {
   const { columns, isLoading: columnsLoading } = useColumns();
-  const { experiences, isLoading: experiencesLoading } = useExperiences();
-  const [filteredExperiences, setFilteredExperiences] = useState<Experience[]>([]);
+  const [filters, setFilters] = useState<ExperienceFilters>({});
   
-  // When filtering, update the displayed experiences
-  const handleFilter = (filtered: Experience[]) => {
-    setFilteredExperiences(filtered);
+  // When filtering, the table refetches its current page with the new filters
+  const handleFilter = (newFilters: ExperienceFilters) => {
+    setFilters(newFilters);
   };
-  
-  // If not filtered, show all experiences
-  const displayedExperiences = filteredExperiences.length > 0 
-    ? filteredExperiences 
-    : experiences;
-    
-  const isLoading = columnsLoading || experiencesLoading;
 
   return (
     <div className="py-6">
@@ -31,8 +22,8 @@ export default function Home() {
           <div className="flex-1">
             <ExperienceTable
               columns={columns}
-              experiences={displayedExperiences}
-              isLoading={isLoading}
+              filters={filters}
+              isLoading={columnsLoading}
             />
           </div>
         </div>
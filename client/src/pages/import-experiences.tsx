@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useColumns } from "@/hooks/use-columns";
+import { useExperienceImport } from "@/hooks/use-experience-import";
+import {
+  ColumnType, ExperienceImportMapping, ExperienceImportPreview, ExperienceImportResult, ImportSource, reservedColumnKeys
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { columnTypes, formatFieldValue, generateColumnKey } from "@/lib/config";
+import { ArrowLeft, Upload } from "lucide-react";
+
+// Row errors listed before the rest are summarized as a count
+const MAX_LISTED_ERRORS = 100;
+
+// Select values for the mapping targets; existing columns are "column:<key>"
+const targetValue = (mapping: ExperienceImportMapping) =>
+  mapping.target === "column" ? `column:${mapping.key}` : mapping.target;
+
+export default function ImportExperiences() {
+  const [, setLocation] = useLocation();
+  const { columns } = useColumns();
+  const { preview, dryRun, runImport, isPending } = useExperienceImport();
+
+  const [text, setText] = useState<string | null>(null);
+  const [source, setSource] = useState<ImportSource>("spreadsheet");
+  const [sheet, setSheet] = useState<ExperienceImportPreview | null>(null);
+  const [mappings, setMappings] = useState<ExperienceImportMapping[]>([]);
+  const [dayFirst, setDayFirst] = useState(false);
+  const [check, setCheck] = useState<ExperienceImportResult | null>(null);
+
+  const mappableColumns = columns.filter(column => !reservedColumnKeys.includes(column.key));
+
+  // JSON Resume entries aren't spreadsheet rows, so they are counted as entries
+  const rowLabel = source === "jsonResume" ? "Entry" : "Row";
+
+  const handleFile = async (file: File | undefined) => {
+    setSheet(null);
+    setCheck(null);
+    setText(null);
+    if (!file) return;
+
+    const fileText = await file.text();
+    const fileSource: ImportSource = file.name.toLowerCase().endsWith(".json") ? "jsonResume" : "spreadsheet";
+    setText(fileText);
+    setSource(fileSource);
+    preview({ text: fileText, source: fileSource }, {
+      onSuccess: (result) => {
+        setSheet(result);
+        setMappings(result.suggestedMappings);
+      },
+    });
+  };
+
+  const setMapping = (index: number, mapping: ExperienceImportMapping) => {
+    setCheck(null);
+    setMappings(prev => prev.map((current, i) => i === index ? mapping : current));
+  };
+
+  const handleTargetChange = (index: number, value: string) => {
+    if (value.startsWith("column:")) {
+      setMapping(index, { target: "column", key: value.slice("column:".length) });
+    } else if (value === "newColumn") {
+      const header = sheet?.headers[index] ?? "";
+      setMapping(index, {
+        target: "newColumn",
+        column: { name: header, key: generateColumnKey(header), type: "short-text", allowMultiple: false },
+      });
+    } else {
+      setMapping(index, { target: value as "ignore" | "startDate" | "endDate" | "tags" });
+    }
+  };
+
+  const options = () => ({ text: text ?? "", source, delimiter: sheet?.delimiter, mappings, dayFirst });
+
+  const handleCheck = () => {
+    dryRun(options(), { onSuccess: setCheck });
+  };
+
+  const handleImport = () => {
+    runImport(options(), { onSuccess: () => setLocation('/dashboard') });
+  };
+
+  const fieldName = (key: string) =>
+    columns.find(column => column.key === key)?.name ??
+    check?.newColumns.find(column => column.key === key)?.name ??
+    key;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-lg">Import Experiences</CardTitle>
+            <CardDescription>
+              Upload a CSV or TSV file with a header row, or a JSON Resume (resume.json) to import its work,
+              volunteer and project entries. You'll map its columns and check the rows before anything is saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <div className="space-y-1 max-w-md">
+              <Label htmlFor="import-file">Spreadsheet file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {sheet && !check && (
+          <Card>
+            <CardHeader className="border-b border-gray-200">
+              <CardTitle className="text-lg">Map Columns</CardTitle>
+              <CardDescription>
+                {sheet.source === "jsonResume"
+                  ? `${sheet.rowCount} entr${sheet.rowCount === 1 ? "y" : "ies"} found in the JSON Resume. Choose where each of its fields goes.`
+                  : `${sheet.rowCount} row(s) found, ${sheet.delimiter === "\t" ? "tab" : "comma"} separated. Choose where each column of the file goes.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File column</TableHead>
+                    <TableHead>Sample values</TableHead>
+                    <TableHead>Import as</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sheet.headers.map((header, index) => {
+                    const mapping = mappings[index] ?? { target: "ignore" };
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{header || <span className="text-gray-400">(no header)</span>}</TableCell>
+                        <TableCell className="text-sm text-gray-500 max-w-xs truncate">
+                          {sheet.sampleRows.map(row => row[index]).filter(Boolean).join(" · ") || "—"}
+                        </TableCell>
+                        <TableCell className="space-y-2 min-w-[16rem]">
+                          <Select value={targetValue(mapping)} onValueChange={(value) => handleTargetChange(index, value)}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ignore">Don't import</SelectItem>
+                              <SelectItem value="startDate">Start Date</SelectItem>
+                              <SelectItem value="endDate">End Date</SelectItem>
+                              {mappableColumns.map(column => (
+                                <SelectItem key={column.key} value={`column:${column.key}`}>
+                                  {column.name}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="tags">Tags</SelectItem>
+                              <SelectItem value="newColumn">New column...</SelectItem>
+                            </SelectContent>
+                          </Select>
+
+                          {mapping.target === "column" &&
+                            columns.find(column => column.key === mapping.key)?.type === "dropdown" && (
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                id={`add-options-${index}`}
+                                checked={!!mapping.addOptions}
+                                onCheckedChange={(addOptions) => setMapping(index, { ...mapping, addOptions })}
+                              />
+                              <Label htmlFor={`add-options-${index}`} className="text-sm font-normal">
+                                Add values that aren't options yet
+                              </Label>
+                            </div>
+                          )}
+
+                          {mapping.target === "newColumn" && (
+                            <div className="grid grid-cols-2 gap-2">
+                              <Input
+                                value={mapping.column.name}
+                                placeholder="Column name"
+                                onChange={(e) => setMapping(index, {
+                                  target: "newColumn",
+                                  column: { ...mapping.column, name: e.target.value, key: generateColumnKey(e.target.value) },
+                                })}
+                              />
+                              <Select
+                                value={mapping.column.type}
+                                onValueChange={(type) => setMapping(index, {
+                                  target: "newColumn",
+                                  column: { ...mapping.column, type: type as ColumnType, allowMultiple: false },
+                                })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {columnTypes.map(type => (
+                                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {mapping.column.type === "dropdown" && (
+                                <div className="col-span-2 flex items-center gap-2">
+                                  <Switch
+                                    id={`allow-multiple-${index}`}
+                                    checked={!!mapping.column.allowMultiple}
+                                    onCheckedChange={(allowMultiple) => setMapping(index, {
+                                      target: "newColumn",
+                                      column: { ...mapping.column, allowMultiple },
+                                    })}
+                                  />
+                                  <Label htmlFor={`allow-multiple-${index}`} className="text-sm font-normal">
+                                    Several values per cell, separated by ; | or ,
+                                  </Label>
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label>Dates like 03/04/2020 mean</Label>
+                  <Select value={dayFirst ? "day" : "month"} onValueChange={(value) => setDayFirst(value === "day")}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="month">March 4 (month first)</SelectItem>
+                      <SelectItem value="day">3 April (day first)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleCheck} disabled={isPending}>
+                  {isPending ? "Checking..." : "Check Rows"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {check && (
+          <Card>
+            <CardHeader className="border-b border-gray-200">
+              <CardTitle className="text-lg">Review</CardTitle>
+              <CardDescription>
+                {check.validRowCount} of {check.rowCount} {rowLabel.toLowerCase()}(s) can be imported.
+                {check.errors.length > 0 && " Rows with problems are skipped; fix them in the file and upload it again to include them."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-6">
+              {check.newColumns.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-medium">New columns</p>
+                  <ul className="list-disc pl-5 text-gray-600">
+                    {check.newColumns.map(column => (
+                      <li key={column.key}>
+                        {column.name} ({columnTypes.find(type => type.value === column.type)?.label ?? column.type})
+                        {column.dropdownOptions && `: ${formatFieldValue(column.dropdownOptions)}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {check.addedOptions.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-medium">New dropdown options</p>
+                  <ul className="list-disc pl-5 text-gray-600">
+                    {check.addedOptions.map(addition => (
+                      <li key={addition.key}>
+                        {fieldName(addition.key)}: {formatFieldValue(addition.options)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {check.errors.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Problems</p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{rowLabel}</TableHead>
+                        <TableHead>Column</TableHead>
+                        <TableHead>Problem</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {check.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{error.row}</TableCell>
+                          <TableCell>{error.header ?? "—"}</TableCell>
+                          <TableCell className="text-red-600">{error.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {check.errors.length > MAX_LISTED_ERRORS && (
+                    <p className="text-sm text-gray-500">...and {check.errors.length - MAX_LISTED_ERRORS} more</p>
+                  )}
+                </div>
+              )}
+
+              {check.sample.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">First {rowLabel.toLowerCase()}s as they will be saved</p>
+                  <ul className="space-y-2 text-sm">
+                    {check.sample.map(experience => (
+                      <li key={experience.row} className="rounded-md border p-3">
+                        <span className="font-medium">{rowLabel} {experience.row}: </span>
+                        {experience.startDate} – {experience.endDate ?? "Present"}
+                        {Object.entries(experience.customFields).map(([key, value]) => (
+                          <span key={key} className="text-gray-600"> · {fieldName(key)}: {formatFieldValue(value)}</span>
+                        ))}
+                        {experience.tags.length > 0 && (
+                          <span className="text-gray-600"> · Tags: {formatFieldValue(experience.tags)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setCheck(null)} disabled={isPending}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Mapping
+                </Button>
+                <Button onClick={handleImport} disabled={isPending || check.validRowCount === 0}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isPending ? "Importing..." : `Import ${check.validRowCount} ${rowLabel}(s)`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { Fragment, useState } from "react";
+import { useJobMatch } from "@/hooks/use-job-match";
+import { useColumns } from "@/hooks/use-columns";
+import { Column, JobKeyword, JobMatchExperience } from "@shared/schema";
+import { experienceLabel, formatFieldValue, termRanges } from "@/lib/config";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Search } from "lucide-react";
+
+// Where the server reports a match in tag names instead of a column
+const TAGS_SOURCE = "tags";
+
+// text with the given terms marked
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  const ranges = termRanges(text, terms);
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    parts.push(<Fragment key={`text-${start}`}>{text.slice(position, start)}</Fragment>);
+    parts.push(<mark key={`mark-${start}`} className="bg-yellow-100 rounded px-0.5">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(<Fragment key="rest">{text.slice(position)}</Fragment>);
+  return <>{parts}</>;
+}
+
+function KeywordBadge({ keyword }: { keyword: JobKeyword }) {
+  return (
+    <Badge
+      variant={keyword.experienceCount > 0 ? "secondary" : "outline"}
+      title={keyword.experienceCount === 1 ? "In 1 experience" : `In ${keyword.experienceCount} experiences`}
+    >
+      {keyword.label}
+    </Badge>
+  );
+}
+
+// One ranked experience with the fields its matches were found in
+function MatchedExperience({ match, columns }: { match: JobMatchExperience; columns: Column[] }) {
+  const { experience, score, matches } = match;
+  const fields = experience.customFields as Record<string, any>;
+  const terms = matches.map(term => term.term);
+  const sources = Array.from(new Set(matches.flatMap(term => term.sources)));
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-gray-900">{experienceLabel(experience, columns)}</p>
+          <div className="flex flex-wrap gap-1">
+            {matches.map(term => (
+              <Badge key={term.term} variant="secondary">{term.label}</Badge>
+            ))}
+          </div>
+        </div>
+        <span className="text-sm font-medium text-gray-700 whitespace-nowrap">{score}% match</span>
+      </div>
+      <dl className="space-y-2">
+        {sources.map(source => {
+          const column = columns.find(candidate => candidate.key === source);
+          const text = source === TAGS_SOURCE
+            ? (experience.tags ?? []).map(tag => tag.name).join(", ")
+            : formatFieldValue(fields[source]);
+          return (
+            <div key={source} className="text-sm">
+              <dt className="font-medium text-gray-500">{source === TAGS_SOURCE ? "Tags" : column?.name ?? source}</dt>
+              <dd className="text-gray-700 whitespace-pre-wrap">
+                <Highlighted text={text} terms={terms} />
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+    </div>
+  );
+}
+
+export default function JobMatch() {
+  const { match, result, isPending } = useJobMatch();
+  const { columns } = useColumns();
+  const [jobDescription, setJobDescription] = useState("");
+
+  const handleMatch = () => match({ jobDescription });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-lg">Job Match</CardTitle>
+            <CardDescription>
+              Paste a job posting to see which of your experiences fit it best and which of its skills none of them cover.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="job-description">Job description</Label>
+              <Textarea
+                id="job-description"
+                rows={10}
+                value={jobDescription}
+                onChange={e => setJobDescription(e.target.value)}
+                placeholder="Paste the job posting here..."
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleMatch} disabled={isPending || jobDescription.trim() === ""}>
+                <Search className="h-4 w-4 mr-2" />
+                {isPending ? "Matching..." : "Find Matches"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-1">
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Keywords</CardTitle>
+                <CardDescription>The job's most distinctive terms, most important first.</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                {result.keywords.length === 0 ? (
+                  <p className="text-sm text-gray-500">No keywords found in this text.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {result.keywords.map(keyword => <KeywordBadge key={keyword.term} keyword={keyword} />)}
+                  </div>
+                )}
+                {result.uncovered.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-gray-900">Skills no experience mentions</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {result.uncovered.map(keyword => (
+                        <Badge key={keyword.term} variant="outline" className="border-dashed text-red-700">
+                          {keyword.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Matching Experiences</CardTitle>
+                <CardDescription>
+                  {result.total === 0
+                    ? "None of your experiences mention these keywords."
+                    : result.total > result.experiences.length
+                      ? `The best ${result.experiences.length} of ${result.total} matching experiences.`
+                      : result.total === 1 ? "1 matching experience." : `${result.total} matching experiences.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y divide-gray-200">
+                  {result.experiences.map(matched => (
+                    <MatchedExperience key={matched.experience.id} match={matched} columns={columns} />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { usePractice, practiceRatings } from "@/hooks/use-practice";
+import { useColumns } from "@/hooks/use-columns";
+import { Column, Experience } from "@shared/schema";
+import { experienceLabel, filledStorySections, isStoryValue, storySectionLabels } from "@/lib/config";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Eye, Flame } from "lucide-react";
+
+// What the user wrote for an experience: its stories section by section, then
+// its long text fields
+function PracticeAnswer({ experience, columns }: { experience: Experience; columns: Column[] }) {
+  const fields = experience.customFields as Record<string, any>;
+  const stories = columns.filter(column => column.type === 'story' && filledStorySections(fields[column.key]).length > 0);
+  const notes = columns.filter(column =>
+    column.type === 'long-text' && typeof fields[column.key] === 'string' && fields[column.key].trim() !== ''
+  );
+
+  if (stories.length === 0 && notes.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing is written for this experience yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {stories.map(column => {
+        const story = fields[column.key];
+        return (
+          <div key={column.id} className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">{column.name}</h4>
+            {isStoryValue(story) && filledStorySections(story).map(section => (
+              <p key={section} className="text-sm text-gray-700 whitespace-pre-wrap">
+                <span className="font-medium">{storySectionLabels[section]}:</span> {story[section]?.trim()}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+      {notes.map(column => (
+        <div key={column.id} className="space-y-1">
+          <h4 className="text-sm font-medium text-gray-900">{column.name}</h4>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">{fields[column.key]}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Practice() {
+  const { session, isLoading, review, isPending } = usePractice();
+  const { columns } = useColumns();
+  const [revealed, setRevealed] = useState(false);
+
+  const current = session?.items[0];
+
+  const handleRating = (rating: number) => {
+    if (!current) return;
+    review(
+      { experienceId: current.experience.id, data: { rating, questionId: current.question?.id ?? null } },
+      { onSuccess: () => setRevealed(false) }
+    );
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Practice</CardTitle>
+                <CardDescription>
+                  Tell each story out loud, then rate how well you remembered it. Stories you know well come back less often.
+                </CardDescription>
+              </div>
+              {session && (
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{session.dueCount} due</Badge>
+                  <Badge variant="outline" className="gap-1">
+                    <Flame className="h-3 w-3" />
+                    {session.streak === 1 ? "1 day" : `${session.streak} days`}
+                  </Badge>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-6">
+            {isLoading || !session ? (
+              <p className="text-sm text-gray-500">Loading practice...</p>
+            ) : !current ? (
+              <p className="text-sm text-gray-500">
+                {session.nextDueDate
+                  ? `Nothing is due. Your next review is on ${format(new Date(`${session.nextDueDate}T00:00:00`), "MMMM d, yyyy")}.`
+                  : <>
+                      Nothing to practice yet. Write a STAR story for an experience, or link one to
+                      a question in the <Link href="/questions" className="text-primary hover:underline">question bank</Link>.
+                    </>}
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                    {current.question ? "Answer this question" : "Tell this story"}
+                  </p>
+                  <p className="text-lg font-medium text-gray-900">
+                    {current.question ? current.question.text : experienceLabel(current.experience, columns)}
+                  </p>
+                  {current.question && (
+                    <p className="text-sm text-gray-500">With: {experienceLabel(current.experience, columns)}</p>
+                  )}
+                </div>
+
+                {revealed ? (
+                  <>
+                    <div className="rounded-md border p-4">
+                      <PracticeAnswer experience={current.experience} columns={columns} />
+                    </div>
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-700">How well did you remember it?</p>
+                      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                        {practiceRatings.map(({ label, rating, description }) => (
+                          <Button
+                            key={rating}
+                            variant={rating === 1 ? "outline" : "secondary"}
+                            className="h-auto flex-col py-2"
+                            disabled={isPending}
+                            onClick={() => handleRating(rating)}
+                          >
+                            <span>{label}</span>
+                            <span className="text-xs font-normal text-gray-500">{description}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <Button onClick={() => setRevealed(true)}>
+                    <Eye className="h-4 w-4 mr-2" />
+                    Show Story
+                  </Button>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
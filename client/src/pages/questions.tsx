@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuestions } from "@/hooks/use-questions";
+import { useExperiencePage } from "@/hooks/use-experiences";
+import { useColumns } from "@/hooks/use-columns";
+import { Column, Question, QuestionCategory, QuestionFormData } from "@shared/schema";
+import QuestionForm from "@/components/question-form";
+import { experienceLabel, questionCategoryLabels } from "@/lib/config";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronDown, ChevronRight, Edit, Plus, Trash2 } from "lucide-react";
+
+// Answers listed under an expanded question; the rest are in the filtered table
+const ANSWER_LIST_SIZE = 20;
+
+// The experiences linked to one question, fetched through the question filter
+function QuestionAnswers({ question, columns }: { question: Question; columns: Column[] }) {
+  const { data, isLoading } = useExperiencePage({
+    questionId: question.id,
+    page: 1,
+    pageSize: ANSWER_LIST_SIZE,
+    sortBy: "startDate",
+    sortDir: "desc",
+  });
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading answers...</p>;
+  if (!data || data.total === 0) {
+    return <p className="text-sm text-gray-500">No experiences are linked to this question yet.</p>;
+  }
+
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+      {data.items.map(experience => (
+        <li key={experience.id}>{experienceLabel(experience, columns)}</li>
+      ))}
+      {data.total > data.items.length && (
+        <li className="list-none text-gray-500">and {data.total - data.items.length} more</li>
+      )}
+    </ul>
+  );
+}
+
+export default function Questions() {
+  const { questions, isLoading, createQuestion, updateQuestion, deleteQuestion, isPending } = useQuestions();
+  const { visibleColumns } = useColumns();
+  const [category, setCategory] = useState<QuestionCategory | "all">("all");
+  const [competency, setCompetency] = useState("all");
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
+  const [questionToDelete, setQuestionToDelete] = useState<Question | null>(null);
+
+  const competencies = Array.from(new Set(questions.map(question => question.competency)))
+    .sort((a, b) => a.localeCompare(b));
+
+  const shownQuestions = questions.filter(question =>
+    (category === "all" || question.category === category) &&
+    (competency === "all" || question.competency === competency)
+  );
+
+  const toggleExpanded = (id: number) => {
+    setExpandedIds(prev => prev.includes(id) ? prev.filter(expanded => expanded !== id) : [...prev, id]);
+  };
+
+  const openForm = (question: Question | null) => {
+    setCurrentQuestion(question);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (data: QuestionFormData) => {
+    if (currentQuestion) {
+      updateQuestion({ id: currentQuestion.id, data }, { onSuccess: () => setIsFormOpen(false) });
+    } else {
+      createQuestion(data, { onSuccess: () => setIsFormOpen(false) });
+    }
+  };
+
+  const confirmDelete = () => {
+    if (questionToDelete) {
+      deleteQuestion(questionToDelete.id);
+      setQuestionToDelete(null);
+    }
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Question Bank</CardTitle>
+                <CardDescription>
+                  Interview questions you expect, each with the experiences you would answer it with.
+                </CardDescription>
+              </div>
+              <Button onClick={() => openForm(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Select value={category} onValueChange={(value) => setCategory(value as QuestionCategory | "all")}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {Object.entries(questionCategoryLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={competency} onValueChange={setCompetency}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All competencies</SelectItem>
+                  {competencies.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading questions...</p>
+            ) : shownQuestions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {questions.length === 0
+                  ? "No questions yet. Add the questions you expect to be asked."
+                  : "No questions match these filters."}
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-200 border rounded-md">
+                {shownQuestions.map(question => {
+                  const isExpanded = expandedIds.includes(question.id);
+                  return (
+                    <div key={question.id} className="p-4 space-y-3">
+                      <div className="flex items-start gap-3">
+                        <button
+                          type="button"
+                          aria-label={isExpanded ? "Hide answers" : "Show answers"}
+                          className="mt-0.5 text-gray-500 hover:text-gray-700"
+                          onClick={() => toggleExpanded(question.id)}
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                        <div className="flex-1 space-y-1">
+                          <p className="text-sm font-medium text-gray-900">{question.text}</p>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="secondary">
+                              {questionCategoryLabels[question.category as QuestionCategory] ?? question.category}
+                            </Badge>
+                            <Badge variant="outline">{question.competency}</Badge>
+                            <span className="text-xs text-gray-500">
+                              {question.experienceIds.length === 1 ? "1 answer" : `${question.experienceIds.length} answers`}
+                            </span>
+                          </div>
+                        </div>
+                        <Button variant="ghost" onClick={() => openForm(question)} className="text-primary">
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => setQuestionToDelete(question)}
+                          className="text-red-500 hover:text-red-700"
+                          disabled={isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                      {isExpanded && (
+                        <div className="pl-7">
+                          <QuestionAnswers question={question} columns={visibleColumns} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{currentQuestion ? "Edit Question" : "Add Question"}</DialogTitle>
+          </DialogHeader>
+          <QuestionForm
+            key={currentQuestion?.id ?? "new"}
+            question={currentQuestion}
+            columns={visibleColumns}
+            competencies={competencies}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={questionToDelete !== null} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The question is removed from your question bank. The experiences linked to it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
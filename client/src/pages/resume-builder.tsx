@@ -0,0 +1,455 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { useResumes, useResumePreview } from "@/hooks/use-resumes";
+import { useExperiencePage } from "@/hooks/use-experiences";
+import { useColumns } from "@/hooks/use-columns";
+import {
+  Experience, ExperienceFilters, Resume, ResumeFormData, ResumeFormat, ResumeSections, ResumeTemplate
+} from "@shared/schema";
+import FilterSidebar from "@/components/filter-sidebar";
+import { downloadBlob } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Plus, Printer, Save, Trash2 } from "lucide-react";
+
+// Experiences per page of the hand-picked list
+const PICK_PAGE_SIZE = 10;
+
+// How long typing pauses before the preview is rendered again
+const PREVIEW_DELAY_MS = 500;
+
+const templateLabels: Record<ResumeTemplate, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  compact: "Compact",
+};
+
+const downloads: Record<ResumeFormat, { label: string; extension: string; type: string }> = {
+  markdown: { label: "Markdown", extension: "md", type: "text/markdown;charset=utf-8" },
+  html: { label: "HTML", extension: "html", type: "text/html;charset=utf-8" },
+};
+
+const sectionFields: { key: Exclude<keyof ResumeSections, 'includeTags'>; label: string; hint: string }[] = [
+  { key: "title", label: "Title", hint: "The heading of each entry" },
+  { key: "company", label: "Company", hint: "Shown next to the title" },
+  { key: "bullets", label: "Bullet points", hint: "One bullet per line of text" },
+  { key: "skills", label: "Skills", hint: "Gathered from every entry into one section" },
+];
+
+// Start a new resume from the default columns when the account still has them
+const suggestSections = (columnKeys: string[]): ResumeSections => {
+  const keyIfPresent = (key: string) => columnKeys.includes(key) ? key : null;
+  return {
+    title: keyIfPresent("project"),
+    company: keyIfPresent("client"),
+    bullets: keyIfPresent("notes"),
+    skills: keyIfPresent("skills"),
+    includeTags: false,
+  };
+};
+
+const fileNameOf = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "resume";
+
+export default function ResumeBuilder() {
+  const { resumes, createResume, updateResume, deleteResume, isPending } = useResumes();
+  const { columns } = useColumns();
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  const [resumeId, setResumeId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [targetRole, setTargetRole] = useState("");
+  const [template, setTemplate] = useState<ResumeTemplate>("classic");
+  const [heading, setHeading] = useState("");
+  const [summary, setSummary] = useState("");
+  const [selectionMode, setSelectionMode] = useState<"filter" | "manual">("filter");
+  const [filters, setFilters] = useState<ExperienceFilters>({});
+  const [experienceIds, setExperienceIds] = useState<number[]>([]);
+  const [sections, setSections] = useState<ResumeSections | null>(null);
+  const [pickPage, setPickPage] = useState(1);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  // Columns load after the page does, so a new resume's sections are suggested once they arrive.
+  // Keyed by the column keys, as the columns array itself is rebuilt on every render.
+  const columnKeys = columns.map(column => column.key).join("\n");
+  const currentSections = useMemo(
+    () => sections ?? suggestSections(columnKeys.split("\n")),
+    [sections, columnKeys]
+  );
+
+  const sectionColumns = columns.filter(column => column.key !== 'startDate' && column.key !== 'endDate');
+
+  const { data: pickPageData } = useExperiencePage({
+    page: pickPage,
+    pageSize: PICK_PAGE_SIZE,
+    sortBy: "startDate",
+    sortDir: "desc",
+  });
+
+  const draft = useMemo((): ResumeFormData | null => {
+    if (!name.trim() || !targetRole.trim()) return null;
+    return {
+      name,
+      targetRole,
+      template,
+      heading,
+      summary,
+      selection: selectionMode === "filter" ? { mode: "filter", filters } : { mode: "manual", experienceIds },
+      sections: currentSections,
+    };
+  }, [name, targetRole, template, heading, summary, selectionMode, filters, experienceIds, currentSections]);
+
+  // Render the preview once typing pauses rather than on every keystroke
+  const [previewDraft, setPreviewDraft] = useState<ResumeFormData | null>(null);
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewDraft(draft), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft]);
+  const { data: preview, isFetching: isRendering } = useResumePreview(previewDraft);
+
+  const loadResume = (resume: Resume | null) => {
+    setResumeId(resume?.id ?? null);
+    setName(resume?.name ?? "");
+    setTargetRole(resume?.targetRole ?? "");
+    setTemplate((resume?.template as ResumeTemplate) ?? "classic");
+    setHeading(resume?.heading ?? "");
+    setSummary(resume?.summary ?? "");
+    setSelectionMode(resume?.selection.mode ?? "filter");
+    setFilters(resume?.selection.mode === "filter" ? resume.selection.filters : {});
+    setExperienceIds(resume?.selection.mode === "manual" ? resume.selection.experienceIds : []);
+    setSections(resume?.sections ?? null);
+    setPickPage(1);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (resumeId !== null) {
+      updateResume({ id: resumeId, data: draft });
+    } else {
+      createResume(draft, { onSuccess: (resume) => setResumeId(resume.id) });
+    }
+  };
+
+  const confirmDelete = () => {
+    setIsDeleteDialogOpen(false);
+    if (resumeId === null) return;
+    deleteResume(resumeId, { onSuccess: () => loadResume(null) });
+  };
+
+  const handleDownload = (resumeFormat: ResumeFormat) => {
+    if (!preview) return;
+    const { extension, type } = downloads[resumeFormat];
+    const content = resumeFormat === "markdown" ? preview.markdown : preview.html;
+    downloadBlob(new Blob([content], { type }), `${fileNameOf(name)}.${extension}`);
+  };
+
+  const setSection = (key: keyof ResumeSections, value: string | boolean | null) => {
+    setSections({ ...currentSections, [key]: value });
+  };
+
+  const toggleExperience = (id: number, checked: boolean) => {
+    setExperienceIds(prev => checked ? [...prev, id] : prev.filter(picked => picked !== id));
+  };
+
+  // The mapped title and company, or the dates when neither is filled in
+  const describe = (experience: Experience) => {
+    const fields = experience.customFields as Record<string, any>;
+    const label = [currentSections.title, currentSections.company]
+      .map(key => key ? fields[key] : undefined)
+      .filter(value => value !== undefined && value !== null && value !== "")
+      .map(String)
+      .join(" — ");
+    return label || format(new Date(experience.startDate), "MMM yyyy");
+  };
+
+  const pageCount = pickPageData ? Math.max(1, Math.ceil(pickPageData.total / PICK_PAGE_SIZE)) : 1;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <CardTitle className="text-lg">Resume Builder</CardTitle>
+            <CardDescription>
+              Build a resume from your experiences and save a variant for each role you apply to.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 flex flex-wrap items-end gap-2">
+            <div className="space-y-1 w-full sm:w-72">
+              <Label>Saved resume</Label>
+              <Select
+                value={resumeId === null ? "" : String(resumeId)}
+                onValueChange={(value) => loadResume(resumes.find(resume => resume.id === Number(value)) ?? null)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={resumes.length > 0 ? "Choose a resume" : "No saved resumes yet"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {resumes.map(resume => (
+                    <SelectItem key={resume.id} value={String(resume.id)}>
+                      {resume.name} ({resume.targetRole})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => loadResume(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Resume
+            </Button>
+            <div className="flex-1" />
+            {resumeId !== null && (
+              <Button variant="outline" onClick={() => setIsDeleteDialogOpen(true)} disabled={isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!draft || isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {resumeId !== null ? "Save Changes" : "Save Resume"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          <div className="w-full lg:w-1/2 space-y-6">
+            <Card>
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="resume-name">Name</Label>
+                    <Input
+                      id="resume-name"
+                      value={name}
+                      placeholder="e.g. Frontend, 2026"
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="resume-role">Target role</Label>
+                    <Input
+                      id="resume-role"
+                      value={targetRole}
+                      placeholder="e.g. Senior Frontend Engineer"
+                      onChange={(e) => setTargetRole(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label>Template</Label>
+                  <Select value={template} onValueChange={(value) => setTemplate(value as ResumeTemplate)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(templateLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="resume-heading">Heading</Label>
+                  <Textarea
+                    id="resume-heading"
+                    rows={3}
+                    value={heading}
+                    placeholder={"Your name on the first line\nthen contact details, one per line"}
+                    onChange={(e) => setHeading(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="resume-summary">Summary</Label>
+                  <Textarea
+                    id="resume-summary"
+                    rows={4}
+                    value={summary}
+                    onChange={(e) => setSummary(e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Sections</CardTitle>
+                <CardDescription>Choose which column fills each part of an entry.</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                {sectionFields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label>{field.label}</Label>
+                    <Select
+                      value={currentSections[field.key] ?? "none"}
+                      onValueChange={(value) => setSection(field.key, value === "none" ? null : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {sectionColumns.map(column => (
+                          <SelectItem key={column.key} value={column.key}>{column.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">{field.hint}</p>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="resume-include-tags"
+                    checked={currentSections.includeTags}
+                    onCheckedChange={(checked) => setSection("includeTags", checked)}
+                  />
+                  <Label htmlFor="resume-include-tags" className="font-normal">Add tags to the skills</Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Experiences</CardTitle>
+                <CardDescription>
+                  {preview ? `${preview.experienceCount} experience(s) on the resume` : "Pick the experiences the resume shows."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <RadioGroup
+                  value={selectionMode}
+                  onValueChange={(value) => setSelectionMode(value as "filter" | "manual")}
+                  className="flex gap-6"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="filter" id="selection-filter" />
+                    <Label htmlFor="selection-filter" className="font-normal">Every experience matching filters</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="manual" id="selection-manual" />
+                    <Label htmlFor="selection-manual" className="font-normal">Pick by hand</Label>
+                  </div>
+                </RadioGroup>
+
+                {selectionMode === "filter" ? (
+                  // Keyed by resume so switching resumes starts the sidebar from that resume's filters
+                  <FilterSidebar key={resumeId ?? "new"} initialFilters={filters} onFilter={setFilters} />
+                ) : (
+                  <div className="space-y-2">
+                    {pickPageData?.items.map(experience => (
+                      <div key={experience.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`pick-${experience.id}`}
+                          checked={experienceIds.includes(experience.id)}
+                          onCheckedChange={(checked) => toggleExperience(experience.id, checked === true)}
+                        />
+                        <Label htmlFor={`pick-${experience.id}`} className="font-normal">
+                          {describe(experience)}
+                        </Label>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between pt-2">
+                      <span className="text-sm text-gray-500">
+                        {experienceIds.length} picked · page {pickPage} of {pageCount}
+                      </span>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={pickPage <= 1} onClick={() => setPickPage(pickPage - 1)}>
+                          Previous
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={pickPage >= pageCount} onClick={() => setPickPage(pickPage + 1)}>
+                          Next
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="w-full lg:w-1/2">
+            <Card className="sticky top-6">
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">Preview</CardTitle>
+                <CardDescription>
+                  {draft ? (isRendering ? "Updating..." : "Print uses this layout.") : "Enter a name and target role to see the preview."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(downloads) as ResumeFormat[]).map(resumeFormat => (
+                    <Button
+                      key={resumeFormat}
+                      variant="outline"
+                      size="sm"
+                      disabled={!preview}
+                      onClick={() => handleDownload(resumeFormat)}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      {downloads[resumeFormat].label}
+                    </Button>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!preview}
+                    onClick={() => previewRef.current?.contentWindow?.print()}
+                  >
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </Button>
+                </div>
+                <iframe
+                  ref={previewRef}
+                  title="Resume preview"
+                  srcDoc={preview?.html ?? ""}
+                  className="w-full h-[70vh] border border-gray-200 rounded-md bg-white"
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this resume?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{name}" will be deleted. Your experiences are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useSkillTimeline } from "@/hooks/use-skill-timeline";
+import { useColumns } from "@/hooks/use-columns";
+import { SkillTimeline } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+
+// Skills compared year by year; more would make the bars unreadable
+const MAX_COMPARED_SKILLS = 5;
+// Skills in the totals chart; the table lists all of them
+const TOTALS_CHART_SIZE = 15;
+
+const skillColors = [
+  "hsl(207 90% 54%)",
+  "hsl(142 71% 45%)",
+  "hsl(38 92% 50%)",
+  "hsl(0 84% 60%)",
+  "hsl(262 83% 58%)",
+];
+
+// Where the server reads tag names from, alongside multi-select column keys
+const TAGS_SOURCE = "tags";
+
+// e.g. 38 -> "3 yrs 2 mos"
+const formatMonths = (months: number): string => {
+  const years = Math.floor(months / 12);
+  const rest = Math.round(months - years * 12);
+  const parts = [
+    years > 0 ? `${years} ${years === 1 ? "yr" : "yrs"}` : "",
+    rest > 0 ? `${rest} ${rest === 1 ? "mo" : "mos"}` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "< 1 mo";
+};
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "MMM yyyy");
+
+// Months per year for the compared skills. Chart series are keyed skill0,
+// skill1, ... since skill names aren't valid CSS variable names.
+function YearlyChart({ timeline, compared }: { timeline: SkillTimeline; compared: string[] }) {
+  const config: ChartConfig = Object.fromEntries(compared.map((skill, i) => [
+    `skill${i}`, { label: skill, color: skillColors[i % skillColors.length] },
+  ]));
+  const data = timeline.years.map(year => {
+    const row: Record<string, number | string> = { year: String(year) };
+    compared.forEach((skill, i) => {
+      const usage = timeline.skills.find(candidate => candidate.skill === skill);
+      row[`skill${i}`] = usage?.byYear.find(entry => entry.year === year)?.months ?? 0;
+    });
+    return row;
+  });
+
+  return (
+    <ChartContainer config={config} className="h-[320px] w-full aspect-auto">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="year" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} domain={[0, 12]} ticks={[0, 3, 6, 9, 12]} unit=" mo" width={48} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {compared.map((_, i) => (
+          <Bar key={i} dataKey={`skill${i}`} fill={`var(--color-skill${i})`} radius={2} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export default function Skills() {
+  const { columns } = useColumns();
+  const [source, setSource] = useState("all");
+  const { timeline, isLoading } = useSkillTimeline(source === "all" ? undefined : source);
+  const [compared, setCompared] = useState<string[]>([]);
+
+  const multiSelectColumns = columns.filter(column => column.type === "dropdown" && column.allowMultiple);
+
+  // Start by comparing the longest used skills whenever the skills change
+  useEffect(() => {
+    setCompared(timeline ? timeline.skills.slice(0, MAX_COMPARED_SKILLS).map(usage => usage.skill) : []);
+  }, [timeline]);
+
+  const toggleCompared = (skill: string) => {
+    setCompared(prev => prev.includes(skill)
+      ? prev.filter(compared => compared !== skill)
+      : prev.length < MAX_COMPARED_SKILLS ? [...prev, skill] : prev);
+  };
+
+  const totals = timeline?.skills.slice(0, TOTALS_CHART_SIZE).map(usage => ({
+    skill: usage.skill,
+    years: Math.round((usage.months / 12) * 10) / 10,
+  })) ?? [];
+  const totalsConfig: ChartConfig = { years: { label: "Years", color: skillColors[0] } };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">Skill Timeline</CardTitle>
+                <CardDescription>
+                  How long you have used each skill, from the dates of the experiences naming it.
+                  Overlapping experiences count their shared months once.
+                </CardDescription>
+              </div>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All skills</SelectItem>
+                  {multiSelectColumns.map(column => (
+                    <SelectItem key={column.key} value={column.key}>{column.name}</SelectItem>
+                  ))}
+                  <SelectItem value={TAGS_SOURCE}>Tags</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6">
+            {isLoading || !timeline ? (
+              <p className="text-sm text-gray-500">Loading skills...</p>
+            ) : timeline.skills.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No skills yet. Skills come from multi-select dropdown columns and tags on your experiences.
+              </p>
+            ) : (
+              <ChartContainer config={totalsConfig} className="w-full aspect-auto" style={{ height: totals.length * 28 + 40 }}>
+                <BarChart data={totals} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" dataKey="years" tickLine={false} axisLine={false} unit=" yrs" />
+                  <YAxis type="category" dataKey="skill" tickLine={false} axisLine={false} width={140} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="years" fill="var(--color-years)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {timeline && timeline.skills.length > 0 && (
+          <>
+            <Card>
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">By Year</CardTitle>
+                <CardDescription>
+                  Months each skill was used per year. Pick up to {MAX_COMPARED_SKILLS} skills in the table to compare.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6">
+                {compared.length === 0 ? (
+                  <p className="text-sm text-gray-500">Pick skills in the table below to compare them.</p>
+                ) : (
+                  <YearlyChart timeline={timeline} compared={compared} />
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="border-b border-gray-200">
+                <CardTitle className="text-lg">All Skills</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Skill</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Experiences</TableHead>
+                      <TableHead>First Used</TableHead>
+                      <TableHead>Last Used</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {timeline.skills.map(usage => {
+                      const comparedIndex = compared.indexOf(usage.skill);
+                      return (
+                        <TableRow
+                          key={usage.skill}
+                          className="cursor-pointer"
+                          onClick={() => toggleCompared(usage.skill)}
+                          aria-selected={comparedIndex >= 0}
+                        >
+                          <TableCell className="font-medium">
+                            <span className="inline-flex items-center gap-2">
+                              <span
+                                className="h-2.5 w-2.5 rounded-sm border"
+                                style={comparedIndex >= 0
+                                  ? { backgroundColor: skillColors[comparedIndex % skillColors.length], borderColor: "transparent" }
+                                  : undefined}
+                              />
+                              {usage.skill}
+                            </span>
+                          </TableCell>
+                          <TableCell>{formatMonths(usage.months)}</TableCell>
+                          <TableCell>{usage.experienceCount}</TableCell>
+                          <TableCell>{formatDay(usage.firstUsed)}</TableCell>
+                          <TableCell>
+                            {usage.lastUsed ? formatDay(usage.lastUsed) : <Badge variant="secondary">Present</Badge>}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { format, addDays, differenceInCalendarDays } from "date-fns";
+import { useTrash } from "@/hooks/use-experiences";
+import { useColumns } from "@/hooks/use-columns";
+import { Experience } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+// How many text columns describe an experience in the trash list
+const SUMMARY_COLUMN_COUNT = 2;
+
+export default function Trash() {
+  const { experiences, retentionDays, isLoading, restoreExperience, purgeExperience, emptyTrash, isPending } = useTrash();
+  const { visibleColumns } = useColumns();
+  const [experienceToPurge, setExperienceToPurge] = useState<Experience | null>(null);
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false);
+
+  const summaryColumns = visibleColumns
+    .filter(column => column.key !== 'startDate' && column.key !== 'endDate' && column.type === 'short-text')
+    .slice(0, SUMMARY_COLUMN_COUNT);
+
+  const formatPeriod = (experience: Experience) => {
+    const start = format(new Date(experience.startDate), "MMM yyyy");
+    const end = experience.endDate ? format(new Date(experience.endDate), "MMM yyyy") : "Present";
+    return `${start} – ${end}`;
+  };
+
+  // Days left before the retention purge removes the experience for good
+  const daysUntilPurge = (experience: Experience) => {
+    if (!experience.deletedAt || retentionDays === undefined) return undefined;
+    const purgeDate = addDays(new Date(experience.deletedAt), retentionDays);
+    return Math.max(0, differenceInCalendarDays(purgeDate, new Date()));
+  };
+
+  const confirmPurge = () => {
+    if (experienceToPurge) {
+      purgeExperience(experienceToPurge.id);
+      setExperienceToPurge(null);
+    }
+  };
+
+  const confirmEmpty = () => {
+    emptyTrash();
+    setIsEmptyDialogOpen(false);
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="text-lg">Trash</CardTitle>
+              <CardDescription>
+                {retentionDays !== undefined
+                  ? `Deleted experiences are permanently removed after ${retentionDays} days.`
+                  : "Deleted experiences are kept here for a while before they are permanently removed."}
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => setIsEmptyDialogOpen(true)}
+              disabled={isPending || experiences.length === 0}
+            >
+              Empty Trash
+            </Button>
+          </CardHeader>
+
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : experiences.length === 0 ? (
+              <p className="text-sm text-gray-500">The trash is empty.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    {summaryColumns.map(column => (
+                      <TableHead key={column.id}>{column.name}</TableHead>
+                    ))}
+                    <TableHead>Deleted</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {experiences.map(experience => {
+                    const remaining = daysUntilPurge(experience);
+                    return (
+                      <TableRow key={experience.id}>
+                        <TableCell className="whitespace-nowrap">{formatPeriod(experience)}</TableCell>
+                        {summaryColumns.map(column => (
+                          <TableCell key={column.id}>
+                            {String((experience.customFields as Record<string, any>)[column.key] ?? "")}
+                          </TableCell>
+                        ))}
+                        <TableCell className="whitespace-nowrap text-sm text-gray-500">
+                          {experience.deletedAt && format(new Date(experience.deletedAt), "PP")}
+                          {remaining !== undefined && (
+                            <span className="block text-xs">
+                              {remaining === 0 ? "Removed today" : `Removed in ${remaining} day${remaining === 1 ? "" : "s"}`}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            onClick={() => restoreExperience(experience.id)}
+                            disabled={isPending}
+                            className="text-primary mr-2"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            onClick={() => setExperienceToPurge(experience)}
+                            disabled={isPending}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete Permanently
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Permanent Delete Confirmation Dialog */}
+      <AlertDialog open={experienceToPurge !== null} onOpenChange={(open) => !open && setExperienceToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete this experience and all associated data.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPurge} className="bg-red-600 hover:bg-red-700">
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Empty Trash Confirmation Dialog */}
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {experiences.length} experience{experiences.length === 1 ? "" : "s"} in the trash will be
+              permanently deleted. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmEmpty} className="bg-red-600 hover:bg-red-700">
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
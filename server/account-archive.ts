@@ -0,0 +1,139 @@
+import {
+  ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION,
+  type AccountArchive, type ArchiveImportConflict, type ArchiveImportMode, type ArchiveImportResult,
+  type Column, type Experience, type Tag
+} from "@shared/schema";
+import { stableStringify } from "./experience-revisions";
+
+// Everything an account owns, as passed to buildArchive and planArchiveImport.
+// Columns include archived ones and experiences include trashed ones.
+export interface AccountContents {
+  columns: Column[];
+  tags: Tag[];
+  experiences: Experience[];
+}
+
+// What importing an archive writes; storage executes it in one transaction
+export interface ArchiveImportPlan {
+  columns: AccountArchive["columns"];
+  tags: AccountArchive["tags"];
+  // Archive tag id -> id of an existing tag with the same name (merge only)
+  existingTagIds: Map<number, number>;
+  experiences: AccountArchive["experiences"];
+  // Links whose experience is being created, still in archive ids
+  experienceTags: AccountArchive["experienceTags"];
+  conflicts: ArchiveImportConflict[];
+}
+
+export function buildArchive({ columns, tags, experiences }: AccountContents): AccountArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    columns: columns.map(({ name, key, type, dropdownOptions, allowMultiple, isVisible, order, archivedAt }) => ({
+      name,
+      key,
+      type: type as AccountArchive["columns"][number]["type"],
+      dropdownOptions,
+      allowMultiple,
+      isVisible,
+      order,
+      archivedAt,
+    })),
+    tags: tags.map(({ id, name }) => ({ id, name })),
+    experiences: experiences.map(({ id, startDate, endDate, customFields, deletedAt }) => ({
+      id,
+      startDate,
+      endDate,
+      customFields: customFields as Record<string, any>,
+      deletedAt,
+    })),
+    experienceTags: experiences.flatMap(experience =>
+      (experience.tags ?? []).map(tag => ({ experienceId: experience.id, tagId: tag.id }))
+    ),
+  };
+}
+
+// Same dates and field values; tags and trash state don't count
+const experienceFingerprint = (experience: { startDate: string; endDate: string | null; customFields: unknown }) =>
+  stableStringify([experience.startDate, experience.endDate ?? null, experience.customFields]);
+
+// Decide what to create. Replace creates everything (the caller clears the account
+// first). Merge keeps existing columns whose key is taken, reuses tags with the
+// same name and skips experiences identical to one the account already has.
+export function planArchiveImport(archive: AccountArchive, mode: ArchiveImportMode, existing: AccountContents): ArchiveImportPlan {
+  if (mode === "replace") {
+    return {
+      columns: archive.columns,
+      tags: archive.tags,
+      existingTagIds: new Map(),
+      experiences: archive.experiences,
+      experienceTags: archive.experienceTags,
+      conflicts: [],
+    };
+  }
+
+  const conflicts: ArchiveImportConflict[] = [];
+
+  const existingColumns = new Map(existing.columns.map(column => [column.key, column]));
+  const columns = archive.columns.filter(column => {
+    const current = existingColumns.get(column.key);
+    if (!current) return true;
+    conflicts.push({
+      kind: "column",
+      item: column.key,
+      resolution: current.type === column.type
+        ? `Kept your existing "${current.name}" column`
+        : `Kept your existing "${current.name}" column (${current.type}); imported values are stored as they are`,
+    });
+    return false;
+  });
+
+  const existingTags = new Map(existing.tags.map(tag => [tag.name, tag.id]));
+  const existingTagIds = new Map<number, number>();
+  const tags = archive.tags.filter(tag => {
+    const currentId = existingTags.get(tag.name);
+    if (currentId === undefined) return true;
+    existingTagIds.set(tag.id, currentId);
+    return false;
+  });
+
+  const fingerprints = new Set(existing.experiences.map(experienceFingerprint));
+  const experiences = archive.experiences.filter(experience => {
+    const fingerprint = experienceFingerprint(experience);
+    if (!fingerprints.has(fingerprint)) {
+      // Also catches duplicates within the archive itself
+      fingerprints.add(fingerprint);
+      return true;
+    }
+    conflicts.push({
+      kind: "experience",
+      item: String(experience.id),
+      resolution: "Skipped because an identical experience already exists",
+    });
+    return false;
+  });
+
+  const created = new Set(experiences.map(experience => experience.id));
+  return {
+    columns,
+    tags,
+    existingTagIds,
+    experiences,
+    experienceTags: archive.experienceTags.filter(link => created.has(link.experienceId)),
+    conflicts,
+  };
+}
+
+export function importResult(plan: ArchiveImportPlan, mode: ArchiveImportMode): ArchiveImportResult {
+  return {
+    mode,
+    created: {
+      columns: plan.columns.length,
+      tags: plan.tags.length,
+      experiences: plan.experiences.length,
+      experienceTags: plan.experienceTags.length,
+    },
+    conflicts: plan.conflicts,
+  };
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DatabaseStorage, DuplicateColumnKeyError, MemStorage, type IStorage } from "./storage";
+import { perUserColumnKeys } from "./migrations/0011_per_user_column_keys";
+import { pool } from "./db";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+let userCount = 0;
+
+const sponsor = { name: "Sponsor", key: "sponsor", type: "short-text", order: 100 };
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s keeps column keys unique per user", (_name, createStorage) => {
+  let storage: IStorage;
+  let userId: number;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    userId = (await storage.createUser({ username: `keeper-${++userCount}`, password: "secret" })).id;
+  });
+
+  it("when a column is created", async () => {
+    await storage.createColumn({ ...sponsor, userId });
+
+    await expect(storage.createColumn({ ...sponsor, name: "Sponsor again", userId }))
+      .rejects.toBeInstanceOf(DuplicateColumnKeyError);
+    expect((await storage.getColumns(userId)).filter(column => column.key === "sponsor")).toHaveLength(1);
+  });
+
+  it("when a column is renamed", async () => {
+    await storage.createColumn({ ...sponsor, userId });
+    const other = await storage.createColumn({ ...sponsor, name: "Partner", key: "partner", userId });
+
+    await expect(storage.updateColumn(other.id, userId, { key: "sponsor" }))
+      .rejects.toBeInstanceOf(DuplicateColumnKeyError);
+    expect(await storage.getColumn(other.id, userId)).toMatchObject({ key: "partner" });
+  });
+
+  it("when the columns are replaced, leaving the current ones alone", async () => {
+    const before = await storage.getColumns(userId);
+
+    await expect(storage.replaceColumns(userId, [sponsor, { ...sponsor, name: "Sponsor again" }]))
+      .rejects.toMatchObject({ key: "sponsor" });
+    expect(await storage.getColumns(userId)).toEqual(before);
+  });
+});
+
+describe("DatabaseStorage column keys", () => {
+  const storage = new DatabaseStorage();
+
+  it("let only one of two concurrent creates through", async () => {
+    const { id: userId } = await storage.createUser({ username: `racer-${++userCount}`, password: "secret" });
+
+    const results = await Promise.allSettled([
+      storage.createColumn({ ...sponsor, userId }),
+      storage.createColumn({ ...sponsor, userId }),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find(result => result.status === "rejected"))
+      .toMatchObject({ reason: expect.any(DuplicateColumnKeyError) });
+  });
+
+  it("are deduplicated by the migration, keeping the oldest column", async () => {
+    const { id: userId } = await storage.createUser({ username: `legacy-${++userCount}`, password: "secret" });
+    await pool.query(`DROP INDEX columns_user_key_unique_idx`);
+    await pool.query(
+      `INSERT INTO columns (user_id, name, key, type, "order") VALUES ($1, 'First', 'sponsor', 'short-text', 1), ($1, 'Second', 'sponsor', 'short-text', 2)`,
+      [userId]
+    );
+
+    for (const statement of perUserColumnKeys.statements) {
+      await pool.query(statement);
+    }
+
+    const sponsors = (await storage.getColumns(userId)).filter(column => column.key === "sponsor");
+    expect(sponsors.map(column => column.name)).toEqual(["First"]);
+    await expect(storage.createColumn({ ...sponsor, userId })).rejects.toBeInstanceOf(DuplicateColumnKeyError);
+  });
+});
@@ -0,0 +1,80 @@
+import type { CsvDelimiter } from "@shared/schema";
+
+/*
+ * Parse delimited text (RFC 4180 CSV, or TSV with the same quoting rules) into
+ * rows of cells. Quoted cells may contain the delimiter, doubled quotes and
+ * line breaks; CRLF and LF line endings are both accepted. A leading byte order
+ * mark is dropped, and so are blank lines, which spreadsheets often leave at
+ * the end of an export.
+ */
+export function parseDelimited(text: string, delimiter: CsvDelimiter): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  // Whether the current cell started with a quote, so `"a"b` keeps its text
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = "";
+    quoted = false;
+  };
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === "" && !quoted) {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === "\r" && input[i + 1] === "\n") {
+      // Handled with the \n
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0 || quoted) endRow();
+  return rows;
+}
+
+// Guess whether text is CSV or TSV from its first line: tabs win when a line
+// has more of them than commas
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count("\t") > count(",") ? "\t" : ",";
+}
+
+// One RFC 4180 record, CRLF included. Cells containing the delimiter, a quote
+// or a line break are quoted, with quotes doubled.
+export function formatCsvRow(cells: (string | number | null | undefined)[]): string {
+  return cells.map(cell => {
+    const text = cell === null || cell === undefined ? "" : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(",") + "\r\n";
+}
@@ -0,0 +1,115 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION } from "@shared/schema";
+import { registerRoutes } from "./routes";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+/*
+ * The server holds typed column values to their column's type on every write,
+ * whatever the client checked. Runs the real routes against the test database.
+ */
+
+const typedColumns = [
+  { name: "Team size", key: "teamSize", type: "number" },
+  { name: "Budget", key: "budget", type: "currency" },
+  { name: "Repository", key: "repo", type: "url" },
+  { name: "Remote", key: "remote", type: "boolean" },
+  { name: "Score", key: "score", type: "rating" },
+  { name: "Time spent", key: "timeSpent", type: "duration" },
+];
+
+const validFields = { teamSize: 4, budget: 1250.5, repo: "https://example.com/repo", remote: true, score: 5, timeSpent: 90 };
+
+const invalidValues: [key: string, value: unknown][] = [
+  ["teamSize", "lots"],
+  ["budget", "$1,000"],
+  ["repo", "not a url"],
+  ["remote", "yes"],
+  ["score", 42],
+  ["score", 2.5],
+  ["timeSpent", "1h 30m"],
+  ["timeSpent", -15],
+];
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+async function api(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", cookie },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json().catch(() => undefined) };
+}
+
+beforeAll(async () => {
+  // The routes log every rejected request
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const res = await fetch(`${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: "typist", password: "secret" }),
+  });
+  cookie = res.headers.get("set-cookie")!.split(";")[0];
+
+  for (const [index, column] of typedColumns.entries()) {
+    expect((await api("POST", "/api/columns", { ...column, order: 10 + index })).status).toBe(201);
+  }
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("typed column values", () => {
+  it("are saved when they suit their column, or are cleared", async () => {
+    const created = await api("POST", "/api/experiences", { startDate: "2020-01-01", customFields: validFields });
+    expect(created.status).toBe(201);
+    expect(created.body.customFields).toEqual(validFields);
+
+    const cleared = await api("PATCH", `/api/experiences/${created.body.id}`, {
+      customFields: { teamSize: null, repo: "", untyped: "kept as it is" },
+    });
+    expect(cleared.status).toBe(200);
+  });
+
+  it.each(invalidValues)("are rejected on create: %s = %j", async (key, value) => {
+    const res = await api("POST", "/api/experiences", { startDate: "2020-01-01", customFields: { ...validFields, [key]: value } });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toContain(key);
+  });
+
+  it.each(invalidValues)("are rejected on update: %s = %j", async (key, value) => {
+    const { body: experience } = await api("POST", "/api/experiences", { startDate: "2020-01-01", customFields: validFields });
+
+    const res = await api("PATCH", `/api/experiences/${experience.id}`, { customFields: { ...validFields, [key]: value } });
+    expect(res.status).toBe(400);
+    const { body: stored } = await api("GET", `/api/experiences/${experience.id}`);
+    expect(stored.customFields).toEqual(validFields);
+  });
+
+  it.each(invalidValues)("are rejected in a backup: %s = %j", async (key, value) => {
+    const res = await api("POST", "/api/import?mode=merge", {
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      columns: typedColumns.map((column, index) => ({ ...column, order: index })),
+      tags: [],
+      experiences: [{ id: 1, startDate: "2020-01-01", customFields: { ...validFields, [key]: value } }],
+      experienceTags: [],
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.message).toContain(key);
+  });
+});
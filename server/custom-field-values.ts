@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { experienceSchema, isColumnType, type Column, type ColumnType } from "@shared/schema";
+
+// What each typed column stores. Durations are whole minutes, as parseDuration
+// returns them; an empty URL is a cleared one. Text, date, dropdown and story
+// values are accepted as they are, like the values of archived columns and
+// keys no column uses.
+const valueSchemas: Partial<Record<ColumnType, z.ZodTypeAny>> = {
+  number: z.number({ invalid_type_error: "Expected a number" }).finite(),
+  currency: z.number({ invalid_type_error: "Expected a number" }).finite(),
+  url: z.string().url({ message: "Expected a full URL, e.g. https://example.com" }).or(z.literal("")),
+  boolean: z.boolean(),
+  rating: z.number().int().min(1, { message: "Expected a rating from 1 to 5" }).max(5, { message: "Expected a rating from 1 to 5" }),
+  duration: z.number({ invalid_type_error: "Expected a duration in minutes" }).int().nonnegative(),
+};
+
+// customFields checked against the columns they belong to. Null clears a value of any type.
+export function customFieldsSchemaOf(columns: Pick<Column, "key" | "type">[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  columns.forEach(column => {
+    const valueSchema = isColumnType(column.type) ? valueSchemas[column.type] : undefined;
+    if (valueSchema) shape[column.key] = valueSchema.nullish();
+  });
+  return z.object(shape).passthrough();
+}
+
+// experienceSchema with its customFields checked against the user's columns
+export const experienceSchemaFor = (columns: Pick<Column, "key" | "type">[]) =>
+  experienceSchema.extend({ customFields: customFieldsSchemaOf(columns) });
@@ -0,0 +1,11 @@
+import type { InsertColumn } from "@shared/schema";
+
+// The column set every new account starts with, and what "reset to defaults" restores
+export const defaultColumns: Omit<InsertColumn, 'userId'>[] = [
+  { name: "Start Date", key: "startDate", type: "date", order: 1, isVisible: true },
+  { name: "End Date", key: "endDate", type: "date", order: 2, isVisible: true },
+  { name: "Client", key: "client", type: "short-text", order: 3, isVisible: true },
+  { name: "Project", key: "project", type: "short-text", order: 4, isVisible: true },
+  { name: "Skills", key: "skills", type: "dropdown", dropdownOptions: ["React", "TypeScript", "Next.js", "MongoDB", "Python"], allowMultiple: true, order: 5, isVisible: true },
+  { name: "Notes", key: "notes", type: "long-text", order: 6, isVisible: true },
+];
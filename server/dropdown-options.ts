@@ -0,0 +1,46 @@
+import type { DropdownOptionChanges } from "@shared/schema";
+
+const sameOption = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Remap one stored option string; null means the value is dropped
+function remapOption(value: string, previousOptions: string[], nextOptions: string[], changes: DropdownOptionChanges): string | null {
+  const renamedFrom = Object.keys(changes.renames).find(option => sameOption(option, value));
+  if (renamedFrom !== undefined) return changes.renames[renamedFrom];
+
+  if (nextOptions.some(option => sameOption(option, value))) return value;
+
+  // Only options removed by this edit are cleared; older legacy values are left alone
+  const removedNow = previousOptions.some(option => sameOption(option, value));
+  return removedNow && changes.removedValues === "clear" ? null : value;
+}
+
+/*
+ * Apply a dropdown option edit to a stored customFields value. Strings are
+ * matched case-insensitively, like the dropdown filters. Multi-select arrays
+ * are remapped element by element and de-duplicated, so merged options
+ * collapse into one. Returns undefined when nothing is left to store.
+ */
+export function remapDropdownValue(
+  value: unknown,
+  previousOptions: string[],
+  nextOptions: string[],
+  changes: DropdownOptionChanges
+): unknown {
+  if (typeof value === "string") {
+    return remapOption(value, previousOptions, nextOptions, changes) ?? undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const remapped: unknown[] = [];
+    for (const item of value) {
+      const next = typeof item === "string" ? remapOption(item, previousOptions, nextOptions, changes) : item;
+      if (next === null) continue;
+      if (typeof next === "string" && remapped.some(existing => typeof existing === "string" && sameOption(existing, next))) continue;
+      remapped.push(next);
+    }
+    return remapped.length > 0 ? remapped : undefined;
+  }
+
+  // Anything else was never a dropdown value; leave it as it is
+  return value;
+}
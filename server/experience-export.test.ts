@@ -0,0 +1,47 @@
+import { Writable } from "stream";
+import type { Response } from "express";
+import { describe, expect, it } from "vitest";
+import type { Experience, ExportFormat } from "@shared/schema";
+import { streamExperienceExport, type ExportColumn } from "./experience-export";
+
+const columns: ExportColumn[] = [{ header: "Tags", tags: true }];
+
+const page = (size: number): Experience[] => Array.from({ length: size }, (_, i) => ({
+  id: i + 1,
+  userId: 1,
+  startDate: "2020-01-01",
+  endDate: null,
+  customFields: {},
+  deletedAt: null,
+  version: 1,
+  tags: [{ id: 1, userId: 1, name: "x".repeat(100) }],
+}));
+
+// A client that never reads what it is sent, as a stalled or vanished download does
+const stalledClient = () => new Writable({ highWaterMark: 16, write() {} }) as unknown as Response;
+
+describe("streamExperienceExport", () => {
+  it.each<ExportFormat>(["csv", "xlsx"])("stops fetching pages when the %s download is abandoned", async exportFormat => {
+    const res = stalledClient();
+    let pagesFetched = 0;
+    let closed = false;
+    const batches = async function* () {
+      try {
+        for (;;) {
+          pagesFetched++;
+          yield page(50);
+        }
+      } finally {
+        closed = true;
+      }
+    };
+
+    const exported = streamExperienceExport(res, exportFormat, columns, true, batches());
+    await new Promise(resolve => setTimeout(resolve, 50));
+    res.destroy();
+
+    await exported;
+    expect(closed).toBe(true);
+    expect(pagesFetched).toBeLessThan(5);
+  });
+});
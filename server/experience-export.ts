@@ -0,0 +1,154 @@
+import type { Response } from "express";
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { format } from "date-fns";
+import type { Column, Experience, ExportFormat } from "@shared/schema";
+import { formatDuration } from "@shared/duration";
+import { formatStory } from "@shared/story";
+import { formatCsvRow } from "./csv";
+
+// Experiences fetched per query while streaming an export
+export const EXPORT_BATCH_SIZE = 200;
+
+// Readable dates: "Mar 4, 2020" in CSV, the same format for XLSX date cells
+const READABLE_DATE_FORMAT = "MMM d, yyyy";
+const XLSX_DATE_FORMAT = "mmm d, yyyy";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// One column of the export: a configured column, or the experience's tags
+export type ExportColumn = { header: string; column: Column } | { header: string; tags: true };
+
+// A value before it is written. Dates stay YYYY-MM-DD until the writer decides how to show them.
+type ExportCell = string | number | null | { date: string };
+
+export function exportColumns(columns: Column[], includeTags: boolean): ExportColumn[] {
+  const selected: ExportColumn[] = columns.map(column => ({ header: column.name, column }));
+  return includeTags ? [...selected, { header: "Tags", tags: true }] : selected;
+}
+
+// Multi-value cells use the separator the spreadsheet import splits on
+const joinValues = (values: unknown[]) => values.map(String).join("; ");
+
+function exportCell(experience: Experience, exportColumn: ExportColumn): ExportCell {
+  if ("tags" in exportColumn) {
+    return joinValues((experience.tags ?? []).map(tag => tag.name));
+  }
+
+  const { column } = exportColumn;
+  if (column.key === "startDate") return { date: experience.startDate };
+  if (column.key === "endDate") return experience.endDate ? { date: experience.endDate } : null;
+
+  const value = (experience.customFields as Record<string, any>)[column.key];
+  if (value === null || value === undefined || value === "") return null;
+
+  switch (column.type) {
+    case "date":
+      return typeof value === "string" && ISO_DATE.test(value) ? { date: value } : String(value);
+    case "number":
+    case "currency":
+    case "rating":
+      return typeof value === "number" ? value : String(value);
+    case "duration":
+      return typeof value === "number" ? formatDuration(value) : String(value);
+    case "boolean":
+      return value === true ? "Yes" : value === false ? "No" : String(value);
+    case "story":
+      return typeof value === "object" ? formatStory(value) || null : String(value);
+  }
+  if (Array.isArray(value)) return joinValues(value);
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+const isDateColumn = (exportColumn: ExportColumn) =>
+  "column" in exportColumn && (exportColumn.column.type === "date" || exportColumn.column.key === "startDate" || exportColumn.column.key === "endDate");
+
+// Parse YYYY-MM-DD as a local date, so formatting doesn't shift it by the server's offset
+const localDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export function exportFileName(exportFormat: ExportFormat, day: string): string {
+  return `experiences-${day}.${exportFormat}`;
+}
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Waits until res has room again. False once the client has gone away, when
+// nothing more should be written or fetched.
+async function readyForMore(res: Response): Promise<boolean> {
+  if (res.destroyed) return false;
+  if (!res.writableNeedDrain) return true;
+
+  const stopWaiting = new AbortController();
+  const { signal } = stopWaiting;
+  try {
+    // once() rejects if res errors while waiting
+    return await Promise.race([
+      once(res, "drain", { signal }).then(() => true),
+      once(res, "close", { signal }).then(() => false),
+    ]);
+  } finally {
+    stopWaiting.abort();
+  }
+}
+
+/*
+ * Write the export to res batch by batch, so large accounts never sit in memory
+ * as a whole. CSV starts with a byte order mark, which spreadsheet apps need to
+ * read UTF-8, and waits for the socket to drain between batches. XLSX goes
+ * through ExcelJS's streaming writer, committing each row as it is added. If the
+ * client disconnects, the export stops and batches is closed, so no more pages
+ * are fetched.
+ */
+export async function streamExperienceExport(
+  res: Response,
+  exportFormat: ExportFormat,
+  columns: ExportColumn[],
+  isoDates: boolean,
+  batches: AsyncIterable<Experience[]>
+): Promise<void> {
+  if (exportFormat === "csv") {
+    const csvCell = (cell: ExportCell) =>
+      cell !== null && typeof cell === "object"
+        ? isoDates ? cell.date : format(localDate(cell.date), READABLE_DATE_FORMAT)
+        : cell;
+
+    res.write("\uFEFF" + formatCsvRow(columns.map(column => column.header)));
+    for await (const batch of batches) {
+      if (!await readyForMore(res)) return;
+      res.write(batch
+        .map(experience => formatCsvRow(columns.map(column => csvCell(exportCell(experience, column)))))
+        .join(""));
+    }
+    res.end();
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet("Experiences");
+  sheet.columns = columns.map((column, index) => ({
+    header: column.header,
+    key: String(index),
+    width: isDateColumn(column) ? 14 : 24,
+    style: isDateColumn(column) && !isoDates ? { numFmt: XLSX_DATE_FORMAT } : {},
+  }));
+
+  const xlsxCell = (cell: ExportCell) =>
+    cell !== null && typeof cell === "object"
+      ? isoDates ? cell.date : new Date(`${cell.date}T00:00:00Z`)
+      : cell;
+
+  for await (const batch of batches) {
+    if (!await readyForMore(res)) return;
+    batch.forEach(experience => {
+      sheet.addRow(columns.map(column => xlsxCell(exportCell(experience, column)))).commit();
+    });
+  }
+  sheet.commit();
+  await workbook.commit();
+}
@@ -0,0 +1,392 @@
+import {
+  reservedColumnKeys,
+  type Column, type CsvDelimiter, type DropdownOptionAddition, type ExperienceImportMapping, type ExperienceImportResult,
+  type ExperienceImportRowError, type InsertColumn, type Tag
+} from "@shared/schema";
+import { parseDuration } from "@shared/duration";
+import { parseStory } from "@shared/story";
+import { z } from "zod";
+import { detectDelimiter, parseDelimited } from "./csv";
+
+// How many rows the preview and the dry run show
+export const IMPORT_SAMPLE_SIZE = 5;
+
+// What a mapped column needs for converting cells
+type ImportColumn = Pick<Column, "name" | "key" | "type" | "dropdownOptions" | "allowMultiple">;
+
+export interface ImportedExperience {
+  row: number;
+  startDate: string;
+  endDate: string | null;
+  customFields: Record<string, any>;
+  // Tag names, matched to the account's tags without case
+  tags: string[];
+}
+
+// What a non-dry-run import writes; storage executes it in one transaction
+export interface ExperienceImportPlan {
+  newColumns: Omit<InsertColumn, "userId">[];
+  addedOptions: DropdownOptionAddition[];
+  experiences: ImportedExperience[];
+  errors: ExperienceImportRowError[];
+}
+
+export interface Spreadsheet {
+  // Unset for rows that didn't come from delimited text
+  delimiter?: CsvDelimiter;
+  headers: string[];
+  rows: string[][];
+  // The number errors give the first row: 2 under a header row
+  firstRow: number;
+}
+
+export function readSpreadsheet(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): Spreadsheet {
+  const [headers = [], ...rows] = parseDelimited(text, delimiter);
+  return { delimiter, headers: headers.map(header => header.trim()), rows, firstRow: 2 };
+}
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// "Jan", "Sept" and "January" all name a month; returns 1-12
+function monthFromName(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) return undefined;
+  const index = MONTH_NAMES.findIndex(month => month.startsWith(lower));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split("T")[0];
+}
+
+/*
+ * Read a date the way spreadsheets tend to write them: 2020-03-04, 2020/3/4,
+ * 03/04/2020 (month first unless dayFirst, though a first number over 12 can
+ * only be a day), 2020-03, 03/2020, Mar 2020, March 4, 2020, 4 March 2020 and
+ * 2020. Partial dates fall on the first of the month or year, and a trailing
+ * time is ignored. Returns YYYY-MM-DD, or null when the text isn't a date.
+ */
+export function parseImportDate(input: string, dayFirst = false): string | null {
+  const text = input.trim().replace(/[T ]\d{1,2}:\d{2}.*$/, "");
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/))) {
+    return toIsoDate(+match[1], +match[2], +match[3]);
+  }
+  if ((match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    const [month, day] = dayFirst ? [second, first] : [first, second];
+    return toIsoDate(year, month, day) ?? toIsoDate(year, day, month);
+  }
+  if ((match = text.match(/^(\d{4})[-/.](\d{1,2})$/))) {
+    return toIsoDate(+match[1], +match[2], 1);
+  }
+  if ((match = text.match(/^(\d{1,2})[-/.](\d{4})$/))) {
+    return toIsoDate(+match[2], +match[1], 1);
+  }
+  if ((match = text.match(/^([a-z]+)\.?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[1]);
+    return month ? toIsoDate(+match[2], month, 1) : null;
+  }
+  if ((match = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[1]);
+    return month ? toIsoDate(+match[3], month, +match[2]) : null;
+  }
+  if ((match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[2]);
+    return month ? toIsoDate(+match[3], month, +match[1]) : null;
+  }
+  if ((match = text.match(/^(\d{4})$/))) {
+    return toIsoDate(+match[1], 1, 1);
+  }
+  return null;
+}
+
+// End dates that mean the experience hasn't ended
+const ONGOING_WORDS = ["present", "current", "now", "ongoing"];
+
+const TRUE_WORDS = ["yes", "y", "true", "t", "1", "x"];
+const FALSE_WORDS = ["no", "n", "false", "f", "0"];
+
+const urlSchema = z.string().url();
+
+// Cells of multi-select dropdowns list their values separated by semicolons,
+// pipes or line breaks, or by commas when none of those appear
+export function splitMultiValue(text: string): string[] {
+  const parts = /[;|\n]/.test(text) ? text.split(/[;|\n]/) : text.split(",");
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+const sameOption = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Options plus the distinct values of the cells that none of them match yet
+function collectOptions(options: string[], cells: string[], allowMultiple: boolean): string[] {
+  const collected = [...options];
+  for (const value of cells.flatMap(cell => allowMultiple ? splitMultiValue(cell) : [cell])) {
+    if (!collected.some(option => sameOption(option, value))) collected.push(value);
+  }
+  return collected;
+}
+
+// Convert one non-empty cell to the value stored for the column, or explain why it can't be
+function convertCell(text: string, column: ImportColumn, dayFirst: boolean): { value: unknown } | { error: string } {
+  switch (column.type) {
+    case "date": {
+      const date = parseImportDate(text, dayFirst);
+      return date ? { value: date } : { error: `"${text}" is not a date` };
+    }
+    case "dropdown": {
+      const options = column.dropdownOptions ?? [];
+      const values = column.allowMultiple ? splitMultiValue(text) : [text];
+      const matched: string[] = [];
+      for (const value of values) {
+        const option = options.find(option => sameOption(option, value));
+        if (!option) return { error: `"${value}" is not one of the options` };
+        if (!matched.includes(option)) matched.push(option);
+      }
+      return { value: column.allowMultiple ? matched : matched[0] };
+    }
+    case "number":
+    case "currency": {
+      // Currency symbols, spaces and thousands separators are dropped
+      const cleaned = text.replace(/[\s$€£¥,]/g, "");
+      return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? { value: Number(cleaned) } : { error: `"${text}" is not a number` };
+    }
+    case "rating": {
+      const rating = Number(text);
+      return Number.isInteger(rating) && rating >= 1 && rating <= 5
+        ? { value: rating }
+        : { error: `"${text}" is not a rating from 1 to 5` };
+    }
+    case "duration": {
+      const minutes = parseDuration(text);
+      return minutes !== null ? { value: minutes } : { error: `"${text}" is not a duration like 45m or 1h 30m` };
+    }
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (TRUE_WORDS.includes(lower)) return { value: true };
+      if (FALSE_WORDS.includes(lower)) return { value: false };
+      return { error: `"${text}" is not yes or no` };
+    }
+    case "story": {
+      // Written as an export writes it, one labelled paragraph per section
+      const story = parseStory(text);
+      return story ? { value: story } : { error: 'Start each part with "Situation:", "Task:", "Action:" or "Result:"' };
+    }
+    case "url":
+      return urlSchema.safeParse(text).success ? { value: text } : { error: `"${text}" is not a full URL` };
+    default:
+      return { value: text };
+  }
+}
+
+// Header names compared without case, spaces or punctuation
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const START_DATE_HEADERS = ["startdate", "start", "from", "started", "began"];
+const END_DATE_HEADERS = ["enddate", "end", "to", "until", "ended", "finished"];
+const TAG_HEADERS = ["tags", "tag", "labels"];
+
+// Map headers to the dates and to active columns with a matching name or key;
+// everything else starts out ignored
+export function suggestImportMappings(headers: string[], columns: Column[]): ExperienceImportMapping[] {
+  const used = new Set<string>();
+  return headers.map((header): ExperienceImportMapping => {
+    const normalized = normalizeHeader(header);
+    const claim = (target: string) => {
+      if (used.has(target)) return false;
+      used.add(target);
+      return true;
+    };
+
+    if (START_DATE_HEADERS.includes(normalized) && claim("startDate")) return { target: "startDate" };
+    if (END_DATE_HEADERS.includes(normalized) && claim("endDate")) return { target: "endDate" };
+    if (TAG_HEADERS.includes(normalized) && claim("tags")) return { target: "tags" };
+
+    const column = columns.find(column =>
+      !reservedColumnKeys.includes(column.key) &&
+      (normalizeHeader(column.name) === normalized || normalizeHeader(column.key) === normalized)
+    );
+    if (normalized && column && claim(column.key)) return { target: "column", key: column.key };
+
+    return { target: "ignore" };
+  });
+}
+
+// Why the mappings can't be used, or undefined when they can. existingColumns
+// includes archived columns, whose keys new columns can't take either.
+export function checkImportMappings(
+  mappings: ExperienceImportMapping[],
+  headers: string[],
+  existingColumns: Column[]
+): string | undefined {
+  if (mappings.length !== headers.length) {
+    return `Expected one mapping for each of the ${headers.length} headers`;
+  }
+
+  const count = (target: ExperienceImportMapping["target"]) => mappings.filter(mapping => mapping.target === target).length;
+  if (count("startDate") !== 1) return "Map exactly one header to the start date";
+  if (count("endDate") > 1) return "Map at most one header to the end date";
+  if (count("tags") > 1) return "Map at most one header to the tags";
+
+  const mappedKeys = new Set<string>();
+  for (const mapping of mappings) {
+    if (mapping.target === "column") {
+      const column = existingColumns.find(column => column.key === mapping.key);
+      if (!column || column.archivedAt) return `There is no column with the key "${mapping.key}"`;
+      if (reservedColumnKeys.includes(mapping.key)) return `Map "${column.name}" to the start or end date instead`;
+      if (mappedKeys.has(mapping.key)) return `More than one header is mapped to "${column.name}"`;
+      mappedKeys.add(mapping.key);
+    } else if (mapping.target === "newColumn") {
+      const { key } = mapping.column;
+      if (reservedColumnKeys.includes(key)) return `"${key}" is a reserved column key`;
+      const existing = existingColumns.find(column => column.key === key);
+      if (existing) {
+        return existing.archivedAt
+          ? `An archived column already uses the key "${key}"; restore it instead`
+          : `A column with the key "${key}" already exists`;
+      }
+      if (mappedKeys.has(key)) return `More than one header is mapped to the key "${key}"`;
+      mappedKeys.add(key);
+    }
+  }
+
+  return undefined;
+}
+
+/*
+ * Convert every row with already-checked mappings. A row with any error is left
+ * out entirely, and its errors are reported with spreadsheet row numbers. New
+ * dropdown columns get the distinct values found in the file as their options
+ * and are ordered after the existing columns; existing dropdown columns mapped
+ * with addOptions get the values they lack appended to theirs.
+ */
+export function planExperienceImport(
+  { headers, rows, firstRow }: Spreadsheet,
+  mappings: ExperienceImportMapping[],
+  existingColumns: Column[],
+  dayFirst: boolean
+): ExperienceImportPlan {
+  const cellsOf = (index: number) => rows.map(cells => (cells[index] ?? "").trim()).filter(Boolean);
+
+  let nextOrder = Math.max(0, ...existingColumns.map(column => column.order)) + 1;
+  const newColumns: Omit<InsertColumn, "userId">[] = [];
+  const addedOptions: DropdownOptionAddition[] = [];
+  const targets = mappings.map((mapping, index): ImportColumn | undefined => {
+    if (mapping.target === "column") {
+      const column = existingColumns.find(column => column.key === mapping.key);
+      if (!column || !mapping.addOptions || column.type !== "dropdown") return column;
+
+      const existingOptions = column.dropdownOptions ?? [];
+      const dropdownOptions = collectOptions(existingOptions, cellsOf(index), !!column.allowMultiple);
+      if (dropdownOptions.length > existingOptions.length) {
+        addedOptions.push({ key: column.key, options: dropdownOptions.slice(existingOptions.length) });
+      }
+      return { ...column, dropdownOptions };
+    }
+    if (mapping.target !== "newColumn") return undefined;
+
+    const { name, key, type, allowMultiple } = mapping.column;
+    const dropdownOptions = type === "dropdown" ? collectOptions([], cellsOf(index), !!allowMultiple) : null;
+    const column = { name, key, type, dropdownOptions, allowMultiple: allowMultiple ?? false, isVisible: true, order: nextOrder++ };
+    newColumns.push(column);
+    return column;
+  });
+
+  const experiences: ImportedExperience[] = [];
+  const errors: ExperienceImportRowError[] = [];
+
+  rows.forEach((cells, rowIndex) => {
+    const row = rowIndex + firstRow;
+    const rowErrors: ExperienceImportRowError[] = [];
+    let startDate: string | null = null;
+    let endDate: string | null = null;
+    const customFields: Record<string, any> = {};
+    const tags: string[] = [];
+
+    if (cells.slice(headers.length).some(cell => cell.trim() !== "")) {
+      rowErrors.push({ row, message: `Has ${cells.length} cells but there are only ${headers.length} headers` });
+    }
+
+    for (let index = 0; index < mappings.length; index++) {
+      const mapping = mappings[index];
+      const header = headers[index];
+      const text = (cells[index] ?? "").trim();
+
+      if (mapping.target === "startDate") {
+        startDate = text ? parseImportDate(text, dayFirst) : null;
+        if (!startDate) {
+          rowErrors.push({ row, header, message: text ? `"${text}" is not a date` : "The start date is missing" });
+        }
+      } else if (mapping.target === "endDate") {
+        if (!text || ONGOING_WORDS.includes(text.toLowerCase())) continue;
+        endDate = parseImportDate(text, dayFirst);
+        if (!endDate) rowErrors.push({ row, header, message: `"${text}" is not a date` });
+      } else if (mapping.target === "tags") {
+        for (const name of splitMultiValue(text)) {
+          if (!tags.some(tag => sameOption(tag, name))) tags.push(name);
+        }
+      } else {
+        const column = targets[index];
+        if (!column || !text) continue;
+        const converted = convertCell(text, column, dayFirst);
+        if ("error" in converted) {
+          rowErrors.push({ row, header, message: converted.error });
+        } else {
+          customFields[column.key] = converted.value;
+        }
+      }
+    }
+
+    if (startDate && endDate && endDate < startDate) {
+      rowErrors.push({ row, message: "The end date is before the start date" });
+    }
+
+    if (rowErrors.length > 0 || !startDate) {
+      errors.push(...rowErrors);
+    } else {
+      experiences.push({ row, startDate, endDate, customFields, tags });
+    }
+  });
+
+  return { newColumns, addedOptions, experiences, errors };
+}
+
+// The account's tag with this name, compared without case
+export function findTag(tags: Tag[], name: string): Tag | undefined {
+  return tags.find(tag => sameOption(tag.name, name));
+}
+
+// Tag names the imported experiences use that the account has no tag for yet
+export function missingTagNames(experiences: { tags: string[] }[], existingTags: Tag[]): string[] {
+  const missing: string[] = [];
+  for (const name of experiences.flatMap(experience => experience.tags)) {
+    if (!findTag(existingTags, name) && !missing.some(other => sameOption(other, name))) missing.push(name);
+  }
+  return missing;
+}
+
+export function experienceImportResult(
+  plan: ExperienceImportPlan,
+  rowCount: number,
+  dryRun: boolean,
+  created: ExperienceImportResult["created"]
+): ExperienceImportResult {
+  return {
+    dryRun,
+    rowCount,
+    validRowCount: plan.experiences.length,
+    errors: plan.errors,
+    sample: plan.experiences.slice(0, IMPORT_SAMPLE_SIZE),
+    newColumns: plan.newColumns.map(({ name, key, type, dropdownOptions, allowMultiple }) => ({
+      name, key, type, dropdownOptions: dropdownOptions ?? null, allowMultiple: allowMultiple ?? null,
+    })),
+    addedOptions: plan.addedOptions,
+    created,
+  };
+}
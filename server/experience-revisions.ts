@@ -0,0 +1,64 @@
+import type { Experience, ExperienceSnapshot, RevisionFieldChange } from "@shared/schema";
+
+// The state a revision records for an experience (which must have its tags attached)
+export function snapshotExperience(experience: Experience): ExperienceSnapshot {
+  return {
+    startDate: experience.startDate,
+    endDate: experience.endDate ?? null,
+    customFields: { ...(experience.customFields as Record<string, any>) },
+    tags: (experience.tags ?? [])
+      .map(tag => ({ id: tag.id, name: tag.name }))
+      .sort((a, b) => a.id - b.id),
+  };
+}
+
+// JSON with object keys sorted, so values read back from jsonb (which reorders
+// keys) compare equal to the objects they were written from
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function sameSnapshot(a: ExperienceSnapshot, b: ExperienceSnapshot): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Field-level differences going from one snapshot to another. Tags are compared
+// by name so a deleted and recreated tag does not show up as a change.
+export function diffSnapshots(from: ExperienceSnapshot, to: ExperienceSnapshot): RevisionFieldChange[] {
+  const changes: RevisionFieldChange[] = [];
+  const differs = (a: unknown, b: unknown) => stableStringify(a) !== stableStringify(b);
+
+  if (differs(from.startDate, to.startDate)) {
+    changes.push({ field: "startDate", before: from.startDate, after: to.startDate });
+  }
+  if (differs(from.endDate, to.endDate)) {
+    changes.push({ field: "endDate", before: from.endDate, after: to.endDate });
+  }
+
+  const fromFields = from.customFields ?? {};
+  const toFields = to.customFields ?? {};
+  const keys = Array.from(new Set([...Object.keys(fromFields), ...Object.keys(toFields)])).sort();
+  keys.forEach(key => {
+    if (differs(fromFields[key], toFields[key])) {
+      changes.push({ field: `customFields.${key}`, before: fromFields[key] ?? null, after: toFields[key] ?? null });
+    }
+  });
+
+  const fromTags = from.tags.map(tag => tag.name).sort();
+  const toTags = to.tags.map(tag => tag.name).sort();
+  if (differs(fromTags, toTags)) {
+    changes.push({ field: "tags", before: fromTags, after: toTags });
+  }
+
+  return changes;
+}
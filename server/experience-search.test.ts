@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Experience } from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+import { matchesSearchFilters, type ExperienceSearchParams } from "./experience-search";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+/*
+ * buildSearchConditions (SQL) and matchesSearchFilters (in memory) must agree
+ * on every filter. Each case runs the same params through DatabaseStorage and
+ * through matchesSearchFilters over the same rows, trashed ones included.
+ */
+
+const storage = new DatabaseStorage();
+let userId: number;
+let tagIds: Record<string, number>;
+let all: Experience[];
+
+const seed: { startDate: string; endDate: string | null; customFields: Record<string, unknown>; tags?: string[] }[] = [
+  { startDate: "2020-03-14", endDate: "2020-03-15", customFields: { client: "Acme", hours: 1.5, remote: true } },
+  { startDate: "2020-03-15", endDate: "2020-06-30", customFields: { client: "Globex", hours: 0, remote: false } },
+  { startDate: "2020-03-16", endDate: null, customFields: { client: "Initech", hours: -3, rate: 0.1 + 0.2 } },
+  { startDate: "2021-01-01", endDate: "2021-12-31", customFields: { hours: 2500, skills: ["TypeScript", "SQL"] }, tags: ["Backend"] },
+  { startDate: "2021-06-01", endDate: "2021-06-01", customFields: { skills: ["typescript"], level: "Senior" }, tags: ["Frontend"] },
+  { startDate: "2022-01-01", endDate: null, customFields: { Skills: ["Go"], Level: "Lead" }, tags: ["Backend", "Frontend"] },
+  { startDate: "2022-02-01", endDate: null, customFields: {} },
+  { startDate: "2022-03-01", endDate: null, customFields: { client: "", skills: [], level: null, notes: "50% off_peak" } },
+  { startDate: "2022-04-01", endDate: null, customFields: { story: { situation: "Backend outage", result: "Fixed" } }, tags: ["Frontend"] },
+];
+
+beforeAll(async () => {
+  const user = await storage.createUser({ username: "searcher", password: "secret" });
+  userId = user.id;
+  tagIds = {};
+  for (const name of ["Backend", "Frontend"]) {
+    tagIds[name] = (await storage.createTag({ userId, name })).id;
+  }
+  for (const row of seed) {
+    await storage.createExperienceWithTags(
+      { userId, startDate: row.startDate, endDate: row.endDate, customFields: row.customFields },
+      (row.tags ?? []).map(name => tagIds[name])
+    );
+  }
+  // A trashed experience matching everything matches nothing
+  const trashed = await storage.createExperienceWithTags(
+    { userId, startDate: "2021-01-01", endDate: null, customFields: { client: "Acme", skills: ["TypeScript"] } },
+    [tagIds.Backend]
+  );
+  await storage.deleteExperience(trashed.id, userId);
+
+  all = [...await storage.getExperiences(userId), ...await storage.getDeletedExperiences(userId)];
+});
+
+const idsOf = (found: Experience[]) => found.map(experience => experience.id).sort((a, b) => a - b);
+
+async function expectParity(filters: Omit<ExperienceSearchParams, "userId">) {
+  const params = { ...filters, userId };
+  const fromSql = idsOf(await storage.searchExperiences(params));
+  const inMemory = idsOf(all.filter(experience => matchesSearchFilters(experience, params)));
+  expect(fromSql).toEqual(inMemory);
+  return fromSql;
+}
+
+describe("SQL and in-memory search agree", () => {
+  it.each(["1.5", "0", "-3", "25", "2500", "0.3", "0.30000000000000004", "true", "false"])(
+    "on how numbers and booleans read as text: %s",
+    async searchTerm => {
+      await expectParity({ searchTerm });
+    }
+  );
+
+  it.each([
+    ["start of day", "2020-03-15T00:00:00.000Z"],
+    ["midday", "2020-03-15T12:30:00.000Z"],
+    ["last millisecond", "2020-03-15T23:59:59.999Z"],
+  ])("on date bounds that include a time (%s)", async (_label, instant) => {
+    const found = await expectParity({ startDate: new Date(instant) });
+    expect(found).toHaveLength(seed.length - 1);
+    await expectParity({ endDate: new Date(instant) });
+    await expectParity({ startDate: new Date(instant), endDate: new Date("2021-06-01T08:00:00.000Z") });
+  });
+
+  it.each([
+    [{ skills: ["TYPESCRIPT"] }],
+    [{ Skills: ["typescript"] }],
+    [{ SKILLS: ["go"] }],
+    [{ level: ["senior", "LEAD"] }],
+    [{ Level: ["Lead"] }],
+  ])("on case-folded dropdown keys and values: %j", async dropdownFilters => {
+    await expectParity({ dropdownFilters });
+  });
+
+  it("on empty and missing custom fields", async () => {
+    await expectParity({ dropdownFilters: { client: [""] } });
+    await expectParity({ dropdownFilters: { skills: ["SQL"] } });
+    await expectParity({ dropdownFilters: { level: ["null"] } });
+    await expectParity({ rangeFilters: { hours: { min: 0 } } });
+    await expectParity({ rangeFilters: { hours: { max: 0 } } });
+    await expectParity({ booleanFilters: { remote: false } });
+    await expectParity({ booleanFilters: { remote: true } });
+    await expectParity({ searchTerm: "null" });
+    await expectParity({ searchTerm: "%" });
+    await expectParity({ searchTerm: "_" });
+  });
+
+  it("on combined tag and text filters", async () => {
+    await expectParity({ tagIds: [tagIds.Backend], searchTerm: "typescript" });
+    await expectParity({ tagIds: [tagIds.Frontend], searchTerm: "backend" });
+    await expectParity({ tagIds: [tagIds.Backend, tagIds.Frontend], searchTerm: "end" });
+    await expectParity({ tagIds: [tagIds.Frontend], searchTerm: "outage", startDate: new Date("2022-01-01T10:00:00Z") });
+    await expectParity({ tagIds: [tagIds.Backend], dropdownFilters: { skills: ["sql"] }, searchTerm: "front" });
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  experiences, experienceTags, questionExperiences, questions, tags,
+  type Experience, type ExperiencePageOptions, type RangeFilter
+} from "@shared/schema";
+import { and, asc, eq, gte, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+
+export interface ExperienceSearchParams {
+  startDate?: Date;
+  endDate?: Date;
+  tagIds?: number[];
+  searchTerm?: string;
+  userId: number;
+  dropdownFilters?: Record<string, string[]>;
+  rangeFilters?: Record<string, RangeFilter>;
+  booleanFilters?: Record<string, boolean>;
+  questionId?: number;
+}
+
+// Format a Date for comparison against a date column (YYYY-MM-DD, UTC). Bounds
+// compare by day, so a bound's time of day never excludes the day itself.
+const toDateString = (value: Date | string): string => new Date(value).toISOString().split('T')[0];
+
+// Only the dropdown filters that actually constrain anything
+const activeDropdownFilters = (params: ExperienceSearchParams) =>
+  Object.entries(params.dropdownFilters || {}).filter(([, values]) => values && values.length > 0);
+
+const isBound = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const activeRangeFilters = (params: ExperienceSearchParams) =>
+  Object.entries(params.rangeFilters || {}).filter(([, range]) => range && (isBound(range.min) || isBound(range.max)));
+
+const activeBooleanFilters = (params: ExperienceSearchParams) =>
+  Object.entries(params.booleanFilters || {}).filter(([, value]) => typeof value === 'boolean');
+
+/*
+ * In-memory reference implementation. MemStorage filters with this directly and
+ * the SQL built by buildSearchConditions below must return exactly the same rows,
+ * so any change here has to be mirrored there. Question links aren't part of an
+ * experience, so callers pass the experiences linked to params.questionId.
+ */
+export function matchesSearchFilters(exp: Experience, params: ExperienceSearchParams, questionExperienceIds?: Set<number>): boolean {
+  // Experiences in the trash never match
+  if (exp.deletedAt) {
+    return false;
+  }
+
+  // Filter by start date
+  if (params.startDate && toDateString(exp.startDate) < toDateString(params.startDate)) {
+    return false;
+  }
+
+  // Filter by end date (ongoing experiences always match)
+  if (params.endDate && exp.endDate && toDateString(exp.endDate) > toDateString(params.endDate)) {
+    return false;
+  }
+
+  // Filter by tags: any of the selected tags
+  if (params.tagIds && params.tagIds.length > 0) {
+    if (!exp.tags?.some(tag => params.tagIds!.includes(tag.id))) {
+      return false;
+    }
+  }
+
+  // Filter by question: only the experiences linked to it as answers
+  if (params.questionId !== undefined && !questionExperienceIds?.has(exp.id)) {
+    return false;
+  }
+
+  const customFields = (exp.customFields || {}) as Record<string, any>;
+
+  // Filter by dropdown values: every column must match one of its selected values.
+  // Dropdowns only ever store strings, anything else never matches.
+  const dropdownMatch = activeDropdownFilters(params).every(([columnKey, selectedValues]) => {
+    const fieldValue = customFields[columnKey.toLowerCase()];
+    if (!fieldValue) return false;
+
+    // Handle array values (multi-select dropdowns)
+    if (Array.isArray(fieldValue)) {
+      const values = fieldValue.filter(v => typeof v === 'string').map(v => v.toLowerCase());
+      return selectedValues.some(selected => values.includes(selected.toLowerCase()));
+    }
+
+    // Handle single string values
+    return typeof fieldValue === 'string' && selectedValues.some(selected =>
+      fieldValue.toLowerCase() === selected.toLowerCase()
+    );
+  });
+  if (!dropdownMatch) return false;
+
+  // Filter by numeric ranges: only number values can fall inside a range
+  const rangeMatch = activeRangeFilters(params).every(([columnKey, range]) => {
+    const value = customFields[columnKey];
+    if (typeof value !== 'number') return false;
+    if (isBound(range.min) && value < range.min) return false;
+    if (isBound(range.max) && value > range.max) return false;
+    return true;
+  });
+  if (!rangeMatch) return false;
+
+  // Filter by boolean columns: unset counts as false
+  const booleanMatch = activeBooleanFilters(params).every(([columnKey, expected]) =>
+    (customFields[columnKey] === true) === expected
+  );
+  if (!booleanMatch) return false;
+
+  // Filter by search term in custom field values or tag names; story values
+  // match on the text of any of their sections
+  if (params.searchTerm) {
+    const searchTerm = params.searchTerm.toLowerCase();
+    const customFieldsMatch = Object.values(customFields).some(value => {
+      if (!value) return false;
+      if (Array.isArray(value)) {
+        return value.some(v => typeof v === 'string' && v.toLowerCase().includes(searchTerm));
+      }
+      if (typeof value === 'object') {
+        return Object.values(value).some(v => typeof v === 'string' && v.toLowerCase().includes(searchTerm));
+      }
+      return String(value).toLowerCase().includes(searchTerm);
+    });
+
+    const tagsMatch = exp.tags?.some(tag =>
+      tag.name.toLowerCase().includes(searchTerm)
+    );
+
+    if (!customFieldsMatch && !tagsMatch) return false;
+  }
+
+  return true;
+}
+
+// Escape LIKE wildcards so the term is matched literally
+const escapeLikePattern = (term: string) => term.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Characters that jsonb::text escapes; a term containing one cannot be
+// prefiltered against the raw document text
+const JSON_ESCAPED_CHARS = /["\\\u0000-\u001f]/;
+
+/*
+ * SQL equivalent of matchesSearchFilters. Each clause pairs an index-friendly
+ * prefilter (GIN containment on the lowercased document, trigram ILIKE on its
+ * text) with an exact recheck so the result set matches the in-memory rules.
+ */
+export function buildSearchConditions(params: ExperienceSearchParams): SQL[] {
+  const conditions: SQL[] = [eq(experiences.userId, params.userId), isNull(experiences.deletedAt)];
+
+  if (params.startDate) {
+    conditions.push(gte(experiences.startDate, toDateString(params.startDate)));
+  }
+
+  if (params.endDate) {
+    conditions.push(or(isNull(experiences.endDate), lte(experiences.endDate, toDateString(params.endDate)))!);
+  }
+
+  if (params.tagIds && params.tagIds.length > 0) {
+    conditions.push(sql`exists (
+      select 1 from ${experienceTags}
+      where ${experienceTags.experienceId} = ${experiences.id}
+        and ${inArray(experienceTags.tagId, params.tagIds)}
+    )`);
+  }
+
+  if (params.questionId !== undefined) {
+    conditions.push(sql`exists (
+      select 1 from ${questionExperiences}
+      join ${questions} on ${questions.id} = ${questionExperiences.questionId}
+      where ${questionExperiences.experienceId} = ${experiences.id}
+        and ${questionExperiences.questionId} = ${params.questionId}
+        and ${questions.userId} = ${params.userId}
+    )`);
+  }
+
+  for (const [columnKey, selectedValues] of activeDropdownFilters(params)) {
+    const key = columnKey.toLowerCase();
+    const lowered = selectedValues.map(value => value.toLowerCase());
+
+    // Containment against lower(custom_fields) can use the GIN index
+    const prefilter = or(...lowered.flatMap(value => [
+      sql`lower(${experiences.customFields}::text)::jsonb @> ${JSON.stringify({ [key]: [value] })}::jsonb`,
+      sql`lower(${experiences.customFields}::text)::jsonb @> ${JSON.stringify({ [key]: value })}::jsonb`,
+    ]))!;
+
+    const field = sql`${experiences.customFields} -> ${key}::text`;
+    const exact = sql`case jsonb_typeof(${field})
+      when 'array' then exists (
+        select 1 from jsonb_array_elements(${field}) as element(value)
+        where jsonb_typeof(element.value) = 'string' and lower(element.value #>> '{}') in ${lowered}
+      )
+      when 'string' then (${field} #>> '{}') <> '' and lower(${field} #>> '{}') in ${lowered}
+      else false
+    end`;
+
+    conditions.push(and(prefilter, exact)!);
+  }
+
+  for (const [columnKey, range] of activeRangeFilters(params)) {
+    const field = sql`${experiences.customFields} -> ${columnKey}::text`;
+    const numeric = sql`(case when jsonb_typeof(${field}) = 'number' then (${field})::numeric end)`;
+    const bounds: SQL[] = [sql`${numeric} is not null`];
+    if (isBound(range.min)) bounds.push(sql`${numeric} >= ${range.min}`);
+    if (isBound(range.max)) bounds.push(sql`${numeric} <= ${range.max}`);
+    conditions.push(and(...bounds)!);
+  }
+
+  for (const [columnKey, expected] of activeBooleanFilters(params)) {
+    const field = sql`${experiences.customFields} -> ${columnKey}::text`;
+    conditions.push(expected
+      ? sql`${field} = 'true'::jsonb`
+      : sql`${field} is distinct from 'true'::jsonb`);
+  }
+
+  if (params.searchTerm) {
+    const pattern = `%${escapeLikePattern(params.searchTerm)}%`;
+
+    const exactFieldMatch = sql`exists (
+      select 1 from jsonb_each(${experiences.customFields}) as field(key, value)
+      where case jsonb_typeof(field.value)
+        when 'string' then (field.value #>> '{}') ilike ${pattern}
+        when 'array' then exists (
+          select 1 from jsonb_array_elements(field.value) as element(value)
+          where jsonb_typeof(element.value) = 'string' and (element.value #>> '{}') ilike ${pattern}
+        )
+        when 'object' then exists (
+          select 1 from jsonb_each(field.value) as part(key, value)
+          where jsonb_typeof(part.value) = 'string' and (part.value #>> '{}') ilike ${pattern}
+        )
+        when 'number' then (field.value #>> '{}')::numeric <> 0 and (field.value #>> '{}') ilike ${pattern}
+        when 'boolean' then (field.value)::boolean and 'true' ilike ${pattern}
+        else false
+      end
+    )`;
+
+    // The trigram index only helps when the term appears verbatim in the document text
+    const fieldMatch = JSON_ESCAPED_CHARS.test(params.searchTerm)
+      ? exactFieldMatch
+      : and(sql`${experiences.customFields}::text ilike ${pattern}`, exactFieldMatch)!;
+
+    const tagMatch = sql`exists (
+      select 1 from ${experienceTags}
+      join ${tags} on ${tags.id} = ${experienceTags.tagId}
+      where ${experienceTags.experienceId} = ${experiences.id}
+        and ${tags.name} ilike ${pattern}
+    )`;
+
+    conditions.push(or(fieldMatch, tagMatch)!);
+  }
+
+  return conditions;
+}
+
+// The keys an experience is ordered by: numeric values first (so number-like
+// columns sort numerically), then dates or lowercased customFields text
+function sortValues(exp: Experience, sortBy: string): [number | null, string | null] {
+  if (sortBy === 'startDate') return [null, exp.startDate];
+  if (sortBy === 'endDate') return [null, exp.endDate];
+
+  const value = ((exp.customFields || {}) as Record<string, any>)[sortBy];
+  if (value === undefined || value === null) return [null, null];
+  if (typeof value === 'number') return [value, String(value)];
+  return [null, (typeof value === 'string' ? value : JSON.stringify(value)).toLowerCase()];
+}
+
+// Missing values sort last in either direction
+function compareNullable<T extends number | string>(left: T | null, right: T | null, sortDir: 'asc' | 'desc'): number {
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const order = left < right ? -1 : 1;
+  return sortDir === 'asc' ? order : -order;
+}
+
+/*
+ * In-memory ordering matching buildSortOrder: missing values always last,
+ * ties broken by id so pages are stable.
+ */
+export function compareExperiences(a: Experience, b: Experience, options: Pick<ExperiencePageOptions, 'sortBy' | 'sortDir'>): number {
+  const [leftNumber, leftText] = sortValues(a, options.sortBy);
+  const [rightNumber, rightText] = sortValues(b, options.sortBy);
+
+  return compareNullable(leftNumber, rightNumber, options.sortDir)
+    || compareNullable(leftText, rightText, options.sortDir)
+    || a.id - b.id;
+}
+
+export function buildSortOrder(options: Pick<ExperiencePageOptions, 'sortBy' | 'sortDir'>): SQL[] {
+  const direction = sql.raw(options.sortDir === 'asc' ? 'asc' : 'desc');
+
+  if (options.sortBy === 'startDate' || options.sortBy === 'endDate') {
+    const column = options.sortBy === 'startDate' ? experiences.startDate : experiences.endDate;
+    return [sql`${column} ${direction} nulls last`, asc(experiences.id)];
+  }
+
+  const field = sql`${experiences.customFields} -> ${options.sortBy}::text`;
+  return [
+    sql`(case when jsonb_typeof(${field}) = 'number' then (${field})::numeric end) ${direction} nulls last`,
+    sql`lower(${experiences.customFields} ->> ${options.sortBy}::text) ${direction} nulls last`,
+    asc(experiences.id),
+  ];
+}
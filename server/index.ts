@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { runMigrations } from "./migrator";
+import { scheduleTrashPurge } from "./trash";
 
 const app = express();
+// Backups and spreadsheets can be large; everything else keeps the default body limit
+app.use(["/api/import", "/api/experiences/import"], express.json({ limit: "25mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -37,7 +41,14 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the database up to date before anything queries it
+  const applied = await runMigrations();
+  if (applied.length > 0) {
+    log(`applied migrations ${applied.join(", ")}`);
+  }
+
   const server = await registerRoutes(app);
+  scheduleTrashPurge();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
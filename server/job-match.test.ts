@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Column, Experience, Tag } from "@shared/schema";
+import { matchJobDescription, TAGS_SOURCE } from "./job-match";
+
+const column = (id: number, key: string, type: string, dropdownOptions: string[] | null = null): Column => ({
+  id,
+  userId: 1,
+  name: key,
+  key,
+  type,
+  dropdownOptions,
+  allowMultiple: false,
+  isVisible: true,
+  order: id,
+  archivedAt: null,
+  version: 1,
+});
+
+const tag = (id: number, name: string): Tag => ({ id, userId: 1, name });
+
+const experience = (id: number, startDate: string, customFields: Record<string, unknown>, tags: Tag[] = []): Experience => ({
+  id,
+  userId: 1,
+  startDate,
+  endDate: null,
+  customFields,
+  deletedAt: null,
+  version: 1,
+  tags,
+});
+
+const columns = [
+  column(1, "summary", "short-text"),
+  column(2, "stack", "dropdown", ["TypeScript", "Kubernetes", "GraphQL"]),
+  column(3, "teamSize", "number"),
+];
+const react = tag(1, "React");
+
+describe("matchJobDescription", () => {
+  const job = "We need TypeScript and React engineers. Kubernetes and GraphQL welcome. Must enjoy whiteboards.";
+
+  const experiences = [
+    experience(1, "2019-01-01", { summary: "Built a TypeScript API", stack: "TypeScript" }, [react]),
+    experience(2, "2021-01-01", { summary: "Moved services to Kubernetes" }),
+    experience(3, "2022-01-01", { summary: "Organised the office party", teamSize: "typescript" }),
+  ];
+
+  it("ranks the experiences matching the most keyword weight first", () => {
+    const result = matchJobDescription(job, experiences, columns, [react], 10);
+    expect(result.experiences.map(matched => matched.experience.id)).toEqual([1, 2]);
+    expect(result.total).toBe(2);
+    expect(result.experiences[0].score).toBeGreaterThan(result.experiences[1].score);
+  });
+
+  it("applies the limit after counting every match", () => {
+    const result = matchJobDescription(job, experiences, columns, [react], 1);
+    expect(result.experiences.map(matched => matched.experience.id)).toEqual([1]);
+    expect(result.total).toBe(2);
+  });
+
+  it("reports each matched term with the columns and tags it was found in", () => {
+    const [best] = matchJobDescription(job, experiences, columns, [react], 10).experiences;
+    expect(best.matches).toEqual(expect.arrayContaining([
+      { term: "typescript", label: "TypeScript", sources: ["summary", "stack"] },
+      { term: "react", label: "React", sources: [TAGS_SOURCE] },
+    ]));
+    expect(best.matches).toHaveLength(2);
+  });
+
+  it("lists only the skills no experience mentions as uncovered", () => {
+    const result = matchJobDescription(job, experiences, columns, [react], 10);
+    expect(result.uncovered.map(keyword => keyword.label)).toEqual(["GraphQL"]);
+    // Ordinary words stay among the keywords, unmatched
+    expect(result.keywords).toContainEqual(expect.objectContaining({ term: "whiteboard", isSkill: false, experienceCount: 0 }));
+  });
+
+  it("breaks a tie in favour of the more recent experience", () => {
+    const tied = [
+      experience(1, "2019-01-01", { summary: "Wrote Terraform modules" }),
+      experience(2, "2022-01-01", { summary: "Ran Ansible playbooks" }),
+    ];
+    const result = matchJobDescription("Terraform and Ansible", tied, [column(1, "summary", "short-text")], [], 10);
+    expect(result.experiences.map(matched => matched.experience.id)).toEqual([2, 1]);
+  });
+});
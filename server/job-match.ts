@@ -0,0 +1,164 @@
+import type {
+  Column, Experience, JobKeyword, JobMatchExperience, JobMatchResult, JobMatchTerm, Tag
+} from "@shared/schema";
+import { formatStory, isStoryValue } from "@shared/story";
+import { termsOf, tokenizeTerms } from "@shared/terms";
+
+// How many of the job description's terms are matched on
+export const JOB_KEYWORD_LIMIT = 30;
+
+// Column types whose values are words; numbers, dates, links and ratings are skipped
+const TEXT_COLUMN_TYPES = new Set(["short-text", "long-text", "dropdown", "story"]);
+
+// Where tag names are reported as matched, alongside column keys
+export const TAGS_SOURCE = "tags";
+
+interface ExperienceDocument {
+  experience: Experience;
+  // Terms by the column key (or TAGS_SOURCE) they occur in
+  sources: Map<string, Set<string>>;
+  terms: Set<string>;
+}
+
+const textOf = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(String).join("\n");
+  if (isStoryValue(value)) return formatStory(value);
+  return String(value);
+};
+
+const documentOf = (experience: Experience, columns: Column[]): ExperienceDocument => {
+  const fields = experience.customFields as Record<string, any>;
+  const sources = new Map<string, Set<string>>();
+
+  columns
+    .filter(column => TEXT_COLUMN_TYPES.has(column.type))
+    .forEach(column => {
+      const terms = termsOf(textOf(fields[column.key]));
+      if (terms.length > 0) sources.set(column.key, new Set(terms));
+    });
+
+  // One tag per line, so tag names don't run together into phrases
+  const tagTerms = termsOf((experience.tags ?? []).map(tag => tag.name).join("\n"));
+  if (tagTerms.length > 0) sources.set(TAGS_SOURCE, new Set(tagTerms));
+
+  const terms = new Set(Array.from(sources.values()).flatMap(set => Array.from(set)));
+  return { experience, sources, terms };
+};
+
+/*
+ * The job description's keywords: its words and phrases weighted by TF-IDF,
+ * with the job text and each experience as the documents, so words every
+ * experience uses weigh less than ones that single some out. A phrase is only
+ * kept when it repeats in the job text, names a skill or appears in an
+ * experience; otherwise any two neighbouring words would be one. A word that
+ * never occurs outside a kept phrase is dropped in favour of the phrase.
+ */
+const jobKeywords = (jobDescription: string, documents: ExperienceDocument[], skills: Set<string>): JobKeyword[] => {
+  const tokens = tokenizeTerms(jobDescription);
+  const counts = new Map<string, number>();
+  const labels = new Map<string, string>();
+  tokens.forEach((token, i) => {
+    const found: [string, number][] = [[token.term, token.start]];
+    if (token.joinsPrevious) found.push([`${tokens[i - 1].term} ${token.term}`, tokens[i - 1].start]);
+    found.forEach(([term, start]) => {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+      if (!labels.has(term)) labels.set(term, jobDescription.slice(start, token.end));
+    });
+  });
+
+  const documentFrequency = (term: string) => documents.filter(document => document.terms.has(term)).length;
+
+  const phrases = Array.from(counts.keys()).filter(term => term.includes(" ") &&
+    ((counts.get(term) ?? 0) > 1 || skills.has(term) || documentFrequency(term) > 0));
+  const covered = new Set<string>();
+  phrases.forEach(phrase => phrase.split(" ").forEach(word => {
+    if ((counts.get(word) ?? 0) <= (counts.get(phrase) ?? 0)) covered.add(word);
+  }));
+  const terms = [
+    ...phrases,
+    ...Array.from(counts.keys()).filter(term => !term.includes(" ") && !covered.has(term)),
+  ];
+
+  // Smoothed as in scikit-learn, so a term in every document still weighs something
+  const documentCount = documents.length + 1;
+  return terms
+    .map(term => {
+      const experienceCount = documentFrequency(term);
+      const idf = Math.log((1 + documentCount) / (1 + experienceCount + 1)) + 1;
+      const tf = 1 + Math.log(counts.get(term) ?? 1);
+      return {
+        term,
+        label: labels.get(term) ?? term,
+        weight: Math.round(tf * idf * 1000) / 1000,
+        isSkill: skills.has(term),
+        experienceCount,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, JOB_KEYWORD_LIMIT);
+};
+
+// The user's own names for skills, dropdown options and tag names, as terms.
+// Names longer than a phrase can never match and are left out.
+const skillTermsOf = (columns: Column[], tags: Tag[]): Set<string> => {
+  const names = [
+    ...columns.filter(column => column.type === "dropdown").flatMap(column => column.dropdownOptions ?? []),
+    ...tags.map(tag => tag.name),
+  ];
+  return new Set(names
+    .map(name => tokenizeTerms(name).map(token => token.term))
+    .filter(words => words.length === 1 || words.length === 2)
+    .map(words => words.join(" ")));
+};
+
+/*
+ * Rank experiences by how much of the job description they cover: the summed
+ * weight of the keywords found in their text fields, dropdown values and tags,
+ * as a share of all keywords' weight. Ties go to the experience matching more
+ * skills, then to the more recent one.
+ */
+export function matchJobDescription(
+  jobDescription: string,
+  experiences: Experience[],
+  columns: Column[],
+  tags: Tag[],
+  limit: number
+): JobMatchResult {
+  const documents = experiences.map(experience => documentOf(experience, columns));
+  const keywords = jobKeywords(jobDescription, documents, skillTermsOf(columns, tags));
+  const totalWeight = keywords.reduce((sum, keyword) => sum + keyword.weight, 0);
+
+  const ranked = documents
+    .map(document => {
+      const matched = keywords.filter(keyword => document.terms.has(keyword.term));
+      const weight = matched.reduce((sum, keyword) => sum + keyword.weight, 0);
+      const result: JobMatchExperience = {
+        experience: document.experience,
+        score: totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0,
+        matches: matched.map((keyword): JobMatchTerm => ({
+          term: keyword.term,
+          label: keyword.label,
+          sources: Array.from(document.sources.entries())
+            .filter(([, terms]) => terms.has(keyword.term))
+            .map(([source]) => source),
+        })),
+      };
+      return { result, weight, skillCount: matched.filter(keyword => keyword.isSkill).length };
+    })
+    .filter(entry => entry.result.matches.length > 0)
+    .sort((a, b) =>
+      b.weight - a.weight ||
+      b.skillCount - a.skillCount ||
+      String(b.result.experience.startDate).localeCompare(String(a.result.experience.startDate))
+    );
+
+  return {
+    keywords,
+    experiences: ranked.slice(0, limit).map(entry => entry.result),
+    total: ranked.length,
+    // Only skills: an unmatched ordinary word says nothing about the experience lacking.
+    // The rest still show in the keywords, with an experienceCount of 0.
+    uncovered: keywords.filter(keyword => keyword.isSkill && keyword.experienceCount === 0),
+  };
+}
@@ -0,0 +1,246 @@
+import {
+  jsonResumeSections, reservedColumnKeys,
+  type Column, type Experience, type ExperienceImportMapping, type JsonResume, type JsonResumeExportMapping,
+  type JsonResumeField, type JsonResumeSection
+} from "@shared/schema";
+import { formatStory, isStoryValue } from "@shared/story";
+import { splitMultiValue, suggestImportMappings, type Spreadsheet } from "./experience-import";
+import { bulletsOf } from "./resume-render";
+
+/*
+ * JSON Resume (jsonresume.org) import and export. An import lays the entries of
+ * the work, volunteer and projects sections out as spreadsheet rows under fixed
+ * headers, so they go through the same mappings, checks and dry run as a CSV
+ * file. An export fills the same fields from the columns the user picks.
+ */
+
+export const JSON_RESUME_HEADERS = [
+  "Section", "Organization", "Project", "Position", "Location", "URL",
+  "Summary", "Highlights", "Start Date", "End Date", "Skills",
+];
+
+// Columns the headers go to by default when no column has the header's own name
+const HEADER_ALIASES: Record<string, string[]> = {
+  Organization: ["client", "company", "employer"],
+  Summary: ["notes", "description"],
+};
+
+// Word characters on either side mean the text only contains the skill as part of
+// another word; checked by hand because \b doesn't work next to "+" or "#" ("C++", "C#")
+function mentions(text: string, skill: string): boolean {
+  const lower = text.toLowerCase();
+  const target = skill.toLowerCase();
+  for (let index = lower.indexOf(target); index >= 0; index = lower.indexOf(target, index + 1)) {
+    const before = lower[index - 1] ?? " ";
+    const after = lower[index + target.length] ?? " ";
+    if (!/\w/.test(before) && !/\w/.test(after)) return true;
+  }
+  return false;
+}
+
+// Skills without blanks or case variants of one another, first spelling kept
+const distinctSkills = (skills: string[]) => {
+  const distinct: string[] = [];
+  for (const skill of skills.map(skill => skill.trim()).filter(Boolean)) {
+    if (!distinct.some(other => other.toLowerCase() === skill.toLowerCase())) distinct.push(skill);
+  }
+  return distinct;
+};
+
+/*
+ * One row per entry: work first, then volunteer, then projects. An entry's
+ * skills are its project keywords plus every name and keyword from the skills
+ * section that its text mentions, since JSON Resume doesn't tie those to entries.
+ */
+export function readJsonResume(resume: JsonResume): Spreadsheet {
+  const skillNames = (resume.skills ?? []).flatMap(skill => [skill.name ?? "", ...(skill.keywords ?? [])]).filter(Boolean);
+  const mentionedSkills = (...texts: (string | undefined)[]) => {
+    const text = texts.filter(Boolean).join("\n");
+    return skillNames.filter(skill => mentions(text, skill));
+  };
+
+  const row = (section: JsonResumeSection, fields: {
+    organization?: string; project?: string; position?: string; location?: string; url?: string;
+    summary?: string; highlights?: string[]; startDate?: string; endDate?: string; skills: string[];
+  }) => [
+    section,
+    fields.organization ?? "",
+    fields.project ?? "",
+    fields.position ?? "",
+    fields.location ?? "",
+    fields.url ?? "",
+    fields.summary ?? "",
+    (fields.highlights ?? []).join("\n"),
+    fields.startDate ?? "",
+    fields.endDate ?? "",
+    distinctSkills(fields.skills).join("; "),
+  ];
+
+  const rows = [
+    ...(resume.work ?? []).map(entry => row("work", {
+      organization: entry.name,
+      position: entry.position,
+      location: entry.location,
+      url: entry.url,
+      summary: entry.summary,
+      highlights: entry.highlights,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      skills: mentionedSkills(entry.position, entry.summary, ...(entry.highlights ?? [])),
+    })),
+    ...(resume.volunteer ?? []).map(entry => row("volunteer", {
+      organization: entry.organization,
+      position: entry.position,
+      url: entry.url,
+      summary: entry.summary,
+      highlights: entry.highlights,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      skills: mentionedSkills(entry.position, entry.summary, ...(entry.highlights ?? [])),
+    })),
+    ...(resume.projects ?? []).map(entry => row("projects", {
+      organization: entry.entity,
+      project: entry.name,
+      position: (entry.roles ?? []).join(", "),
+      url: entry.url,
+      summary: entry.description,
+      highlights: entry.highlights,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      skills: [
+        ...(entry.keywords ?? []),
+        ...mentionedSkills(entry.name, entry.description, ...(entry.roles ?? []), ...(entry.highlights ?? [])),
+      ],
+    })),
+  ];
+
+  return { headers: JSON_RESUME_HEADERS, rows, firstRow: 1 };
+}
+
+// Columns named like the field first, then the usual names for it; skills
+// become tags when there is no skills column
+export function suggestJsonResumeMappings(columns: Column[]): ExperienceImportMapping[] {
+  const suggested = suggestImportMappings(JSON_RESUME_HEADERS, columns);
+  const claimed = new Set(suggested.flatMap(mapping => mapping.target === "column" ? [mapping.key] : []));
+
+  return suggested.map((mapping, index): ExperienceImportMapping => {
+    const header = JSON_RESUME_HEADERS[index];
+    if (mapping.target === "column") {
+      // Skills land in a dropdown column whatever its options are so far
+      return header === "Skills" ? { ...mapping, addOptions: true } : mapping;
+    }
+    if (mapping.target !== "ignore") return mapping;
+    if (header === "Skills") return { target: "tags" };
+
+    const column = columns.find(column =>
+      !reservedColumnKeys.includes(column.key) && !column.archivedAt && !claimed.has(column.key) &&
+      (HEADER_ALIASES[header] ?? []).includes(column.key.toLowerCase())
+    );
+    if (!column) return mapping;
+    claimed.add(column.key);
+    return { target: "column", key: column.key };
+  });
+}
+
+const fieldOf = (experience: Experience, key: string | null): unknown =>
+  key ? (experience.customFields as Record<string, any>)[key] : undefined;
+
+const textOf = (value: unknown): string | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (isStoryValue(value)) return formatStory(value) || undefined;
+  return Array.isArray(value) ? value.map(String).join(", ") : String(value).trim() || undefined;
+};
+
+const listOf = <T>(values: T[]) => values.length > 0 ? values : undefined;
+
+/*
+ * Build a JSON Resume from experiences, each section most recent first. The
+ * skills section lists every skill across the entries, most used first; only
+ * project entries carry their own skills, as keywords.
+ */
+export function buildJsonResume(experiences: Experience[], options: JsonResumeExportMapping): JsonResume {
+  const { fields } = options;
+  const text = (experience: Experience, field: JsonResumeField) => textOf(fieldOf(experience, fields[field]));
+
+  const sectionOf = (experience: Experience): JsonResumeSection => {
+    const value = textOf(fieldOf(experience, options.sectionColumn))?.toLowerCase();
+    return jsonResumeSections.find(section => section === value) ?? options.section;
+  };
+
+  const skillsOf = (experience: Experience) => {
+    const value = fieldOf(experience, fields.skills);
+    const fromField = Array.isArray(value) ? value.map(String) : splitMultiValue(textOf(value) ?? "");
+    const fromTags = options.includeTags ? (experience.tags ?? []).map(tag => tag.name) : [];
+    return distinctSkills([...fromField, ...fromTags]);
+  };
+
+  const ordered = [...experiences].sort((a, b) =>
+    (b.endDate ?? "9999-12-31").localeCompare(a.endDate ?? "9999-12-31") || b.startDate.localeCompare(a.startDate)
+  );
+
+  const resume: Required<Pick<JsonResume, "work" | "volunteer" | "projects" | "skills">> = {
+    work: [], volunteer: [], projects: [], skills: [],
+  };
+  const skillCounts = new Map<string, { name: string; count: number }>();
+
+  ordered.forEach(experience => {
+    const organization = text(experience, "organization");
+    const project = text(experience, "project");
+    const dates = { startDate: experience.startDate, endDate: experience.endDate ?? undefined };
+    const highlights = listOf(bulletsOf(fieldOf(experience, fields.highlights)));
+    const skills = skillsOf(experience);
+
+    skills.forEach(skill => {
+      const counted = skillCounts.get(skill.toLowerCase());
+      skillCounts.set(skill.toLowerCase(), { name: counted?.name ?? skill, count: (counted?.count ?? 0) + 1 });
+    });
+
+    switch (sectionOf(experience)) {
+      case "work":
+        resume.work.push({
+          name: organization ?? project,
+          position: text(experience, "position"),
+          location: text(experience, "location"),
+          url: text(experience, "url"),
+          summary: text(experience, "summary"),
+          highlights,
+          ...dates,
+        });
+        break;
+      case "volunteer":
+        resume.volunteer.push({
+          organization: organization ?? project,
+          position: text(experience, "position"),
+          url: text(experience, "url"),
+          summary: text(experience, "summary"),
+          highlights,
+          ...dates,
+        });
+        break;
+      case "projects":
+        resume.projects.push({
+          name: project ?? organization,
+          entity: project ? organization : undefined,
+          description: text(experience, "summary"),
+          roles: listOf(splitMultiValue(text(experience, "position") ?? "")),
+          keywords: listOf(skills),
+          url: text(experience, "url"),
+          highlights,
+          ...dates,
+        });
+        break;
+    }
+  });
+
+  resume.skills = Array.from(skillCounts.values())
+    .sort((a, b) => b.count - a.count)
+    .map(skill => ({ name: skill.name }));
+
+  // Sections with nothing in them are left out, as JSON Resume files usually do
+  return {
+    work: listOf(resume.work),
+    volunteer: listOf(resume.volunteer),
+    projects: listOf(resume.projects),
+    skills: listOf(resume.skills),
+  };
+}
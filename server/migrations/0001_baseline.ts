@@ -0,0 +1,60 @@
+import type { Migration } from "./index";
+
+// Tables as they stood before versioned migrations existed. Databases created
+// by the old hand-written migrate script lacked user_id on columns and
+// experiences and had a global UNIQUE on columns.key, so those are patched up
+// here too. The old app only ever served user 1, so any ownerless rows are
+// handed to the first user (or dropped when there are no users yet).
+export const baseline: Migration = {
+  version: 1,
+  name: "baseline",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS columns (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      key TEXT NOT NULL,
+      type TEXT NOT NULL,
+      dropdown_options TEXT[],
+      allow_multiple BOOLEAN DEFAULT FALSE,
+      is_visible BOOLEAN DEFAULT TRUE,
+      "order" INTEGER NOT NULL
+    )`,
+    `ALTER TABLE columns ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE`,
+    `ALTER TABLE columns DROP CONSTRAINT IF EXISTS columns_key_key`,
+    `UPDATE columns SET user_id = (SELECT MIN(id) FROM users) WHERE user_id IS NULL`,
+    `DELETE FROM columns WHERE user_id IS NULL`,
+    `ALTER TABLE columns ALTER COLUMN user_id SET NOT NULL`,
+
+    `CREATE TABLE IF NOT EXISTS experiences (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      start_date DATE NOT NULL,
+      end_date DATE,
+      custom_fields JSONB NOT NULL
+    )`,
+    `ALTER TABLE experiences ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE`,
+    `UPDATE experiences SET user_id = (SELECT MIN(id) FROM users) WHERE user_id IS NULL`,
+    `DELETE FROM experiences WHERE user_id IS NULL`,
+    `ALTER TABLE experiences ALTER COLUMN user_id SET NOT NULL`,
+
+    `CREATE TABLE IF NOT EXISTS tags (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS experience_tags (
+      id SERIAL PRIMARY KEY,
+      experience_id INTEGER NOT NULL REFERENCES experiences(id) ON DELETE CASCADE,
+      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE
+    )`,
+    `ALTER TABLE experience_tags DROP CONSTRAINT IF EXISTS experience_tags_experience_id_tag_id_key`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS experience_tag_unique_idx ON experience_tags (experience_id, tag_id)`,
+  ],
+};
@@ -0,0 +1,31 @@
+import type { Migration } from "./index";
+
+// Tags used to be global with a unique name. Give every user who referenced a
+// shared tag their own copy, repoint their experience_tags at it and drop the
+// leftover ownerless rows.
+export const perUserTags: Migration = {
+  version: 2,
+  name: "per_user_tags",
+  statements: [
+    `ALTER TABLE tags ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE`,
+    `ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_key`,
+    `ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_unique`,
+    `INSERT INTO tags (user_id, name)
+      SELECT DISTINCT e.user_id, t.name
+      FROM tags t
+      JOIN experience_tags et ON et.tag_id = t.id
+      JOIN experiences e ON e.id = et.experience_id
+      WHERE t.user_id IS NULL`,
+    `UPDATE experience_tags et
+      SET tag_id = owned.id
+      FROM tags shared, experiences e, tags owned
+      WHERE et.tag_id = shared.id
+        AND shared.user_id IS NULL
+        AND e.id = et.experience_id
+        AND owned.user_id = e.user_id
+        AND owned.name = shared.name`,
+    `DELETE FROM tags WHERE user_id IS NULL`,
+    `ALTER TABLE tags ALTER COLUMN user_id SET NOT NULL`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_unique_idx ON tags (user_id, name)`,
+  ],
+};
@@ -0,0 +1,14 @@
+import type { Migration } from "./index";
+
+// Indexes backing the SQL implementation of searchExperiences
+export const searchIndexes: Migration = {
+  version: 3,
+  name: "search_indexes",
+  statements: [
+    `CREATE EXTENSION IF NOT EXISTS pg_trgm`,
+    `CREATE INDEX IF NOT EXISTS experiences_user_start_date_idx ON experiences (user_id, start_date)`,
+    `CREATE INDEX IF NOT EXISTS experiences_custom_fields_lower_idx ON experiences USING GIN ((lower(custom_fields::text)::jsonb) jsonb_path_ops)`,
+    `CREATE INDEX IF NOT EXISTS experiences_custom_fields_trgm_idx ON experiences USING GIN ((custom_fields::text) gin_trgm_ops)`,
+    `CREATE INDEX IF NOT EXISTS experience_tags_tag_id_idx ON experience_tags (tag_id)`,
+  ],
+};
@@ -0,0 +1,10 @@
+import type { Migration } from "./index";
+
+// Deleting a column can archive it instead, keeping its stored values restorable
+export const columnArchive: Migration = {
+  version: 4,
+  name: "column_archive",
+  statements: [
+    `ALTER TABLE columns ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP`,
+  ],
+};
@@ -0,0 +1,11 @@
+import type { Migration } from "./index";
+
+// Deleted experiences move to the trash first and are purged after the retention period
+export const experienceTrash: Migration = {
+  version: 5,
+  name: "experience_trash",
+  statements: [
+    `ALTER TABLE experiences ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    `CREATE INDEX IF NOT EXISTS experiences_deleted_at_idx ON experiences (deleted_at) WHERE deleted_at IS NOT NULL`,
+  ],
+};
@@ -0,0 +1,34 @@
+import type { Migration } from "./index";
+
+// Revision history for experiences. Existing experiences get a "baseline"
+// revision so their current state can be diffed against and restored.
+export const experienceRevisions: Migration = {
+  version: 6,
+  name: "experience_revisions",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS experience_revisions (
+      id SERIAL PRIMARY KEY,
+      experience_id INTEGER NOT NULL REFERENCES experiences(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      revision INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      snapshot JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS experience_revisions_experience_revision_idx ON experience_revisions (experience_id, revision)`,
+    `INSERT INTO experience_revisions (experience_id, user_id, revision, action, snapshot)
+      SELECT e.id, e.user_id, 1, 'baseline', jsonb_build_object(
+        'startDate', to_char(e.start_date, 'YYYY-MM-DD'),
+        'endDate', to_char(e.end_date, 'YYYY-MM-DD'),
+        'customFields', e.custom_fields,
+        'tags', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) ORDER BY t.id)
+          FROM experience_tags et
+          JOIN tags t ON t.id = et.tag_id
+          WHERE et.experience_id = e.id
+        ), '[]'::jsonb)
+      )
+      FROM experiences e
+      WHERE NOT EXISTS (SELECT 1 FROM experience_revisions r WHERE r.experience_id = e.id)`,
+  ],
+};
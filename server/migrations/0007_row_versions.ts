@@ -0,0 +1,11 @@
+import type { Migration } from "./index";
+
+// Version counters for optimistic concurrency on experience and column edits
+export const rowVersions: Migration = {
+  version: 7,
+  name: "row_versions",
+  statements: [
+    `ALTER TABLE experiences ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE columns ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+  ],
+};
@@ -0,0 +1,23 @@
+import type { Migration } from "./index";
+
+// Saved resume variants for the resume builder
+export const resumes: Migration = {
+  version: 8,
+  name: "resumes",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS resumes (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      target_role TEXT NOT NULL,
+      template TEXT NOT NULL,
+      heading TEXT,
+      summary TEXT,
+      selection JSONB NOT NULL,
+      sections JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS resumes_user_id_idx ON resumes (user_id)`,
+  ],
+};
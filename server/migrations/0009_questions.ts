@@ -0,0 +1,26 @@
+import type { Migration } from "./index";
+
+// Interview question bank, with experiences linked to questions as answers
+export const questions: Migration = {
+  version: 9,
+  name: "questions",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS questions (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      text TEXT NOT NULL,
+      category TEXT NOT NULL,
+      competency TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS questions_user_id_idx ON questions (user_id)`,
+    `CREATE TABLE IF NOT EXISTS question_experiences (
+      id SERIAL PRIMARY KEY,
+      question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+      experience_id INTEGER NOT NULL REFERENCES experiences(id) ON DELETE CASCADE
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS question_experience_unique_idx ON question_experiences (question_id, experience_id)`,
+    `CREATE INDEX IF NOT EXISTS question_experiences_experience_id_idx ON question_experiences (experience_id)`,
+  ],
+};
@@ -0,0 +1,31 @@
+import type { Migration } from "./index";
+
+// Spaced-repetition practice: one schedule per rehearsed experience plus a log of attempts
+export const practice: Migration = {
+  version: 10,
+  name: "practice",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS practice_schedules (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      experience_id INTEGER NOT NULL REFERENCES experiences(id) ON DELETE CASCADE,
+      repetitions INTEGER NOT NULL,
+      interval_days INTEGER NOT NULL,
+      ease_factor REAL NOT NULL,
+      due_date DATE NOT NULL,
+      review_count INTEGER NOT NULL,
+      last_reviewed_at TIMESTAMP NOT NULL
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS practice_schedules_experience_idx ON practice_schedules (experience_id)`,
+    `CREATE INDEX IF NOT EXISTS practice_schedules_user_id_idx ON practice_schedules (user_id)`,
+    `CREATE TABLE IF NOT EXISTS practice_reviews (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      experience_id INTEGER NOT NULL REFERENCES experiences(id) ON DELETE CASCADE,
+      question_id INTEGER REFERENCES questions(id) ON DELETE SET NULL,
+      rating INTEGER NOT NULL,
+      reviewed_at TIMESTAMP NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS practice_reviews_user_reviewed_at_idx ON practice_reviews (user_id, reviewed_at)`,
+  ],
+};
@@ -0,0 +1,17 @@
+import type { Migration } from "./index";
+
+// The baseline dropped the global UNIQUE on columns.key without adding the
+// per-user one, so a user could end up with two columns under one key. Both
+// describe the same customFields values: keep the oldest and drop the rest.
+export const perUserColumnKeys: Migration = {
+  version: 11,
+  name: "per_user_column_keys",
+  statements: [
+    `DELETE FROM columns c
+      USING columns kept
+      WHERE kept.user_id = c.user_id
+        AND kept.key = c.key
+        AND kept.id < c.id`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS columns_user_key_unique_idx ON columns (user_id, key)`,
+  ],
+};
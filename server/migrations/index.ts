@@ -0,0 +1,35 @@
+import { baseline } from "./0001_baseline";
+import { perUserTags } from "./0002_per_user_tags";
+import { searchIndexes } from "./0003_search_indexes";
+import { columnArchive } from "./0004_column_archive";
+import { experienceTrash } from "./0005_experience_trash";
+import { experienceRevisions } from "./0006_experience_revisions";
+import { rowVersions } from "./0007_row_versions";
+import { resumes } from "./0008_resumes";
+import { questions } from "./0009_questions";
+import { practice } from "./0010_practice";
+import { perUserColumnKeys } from "./0011_per_user_column_keys";
+
+// A forward-only schema change. Statements run in order inside a single
+// transaction; once a version has been applied it must never be edited,
+// add a new migration instead.
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+// Every migration, in the order it must be applied
+export const migrations: Migration[] = [
+  baseline,
+  perUserTags,
+  searchIndexes,
+  columnArchive,
+  experienceTrash,
+  experienceRevisions,
+  rowVersions,
+  resumes,
+  questions,
+  practice,
+  perUserColumnKeys,
+];
@@ -0,0 +1,173 @@
+import { is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { pool } from "./db";
+import { migrations } from "./migrations";
+import { log } from "./vite";
+
+const MIGRATIONS_TABLE = "schema_migrations";
+
+// A row of MIGRATIONS_TABLE
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+}
+
+// What checkSchemaDrift reads back from the Postgres catalogs
+interface CatalogColumnRow {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  not_null: boolean;
+}
+
+interface CatalogIndexRow {
+  indexname: string;
+}
+
+// Arbitrary key for pg_advisory_lock so concurrent boots don't race each other
+const MIGRATION_LOCK_ID = 727001;
+
+// Apply every migration that has not been recorded yet, oldest first.
+// Returns the versions that were applied by this call.
+export async function runMigrations(): Promise<number[]> {
+  const client = await pool.connect();
+  const applied: number[] = [];
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    const result = await client.query<AppliedMigrationRow>(`SELECT version, name FROM ${MIGRATIONS_TABLE} ORDER BY version`);
+    const recorded = new Map(result.rows.map(row => [row.version, row.name]));
+
+    // Applied migrations are immutable; a renamed or missing one means the code and database disagree
+    Array.from(recorded.entries()).forEach(([version, name]) => {
+      const migration = migrations.find(m => m.version === version);
+      if (!migration || migration.name !== name) {
+        throw new Error(`Applied migration ${version} (${name}) does not match the migrations in this build`);
+      }
+    });
+
+    const pending = migrations
+      .filter(m => !recorded.has(m.version))
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      log(`applying migration ${migration.version}_${migration.name}`, "migrate");
+      await client.query("BEGIN");
+      try {
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(`Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+      }
+      applied.push(migration.version);
+    }
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+
+  return applied;
+}
+
+// Drizzle reports the type it would emit in DDL; Postgres reports the stored type
+const normalizeSqlType = (type: string): string => {
+  const aliases: Record<string, string> = {
+    serial: "integer",
+    bigserial: "bigint",
+    smallserial: "smallint",
+    timestamp: "timestamp without time zone",
+    varchar: "character varying",
+  };
+  const isArray = type.endsWith("[]");
+  const base = isArray ? type.slice(0, -2) : type;
+  return (aliases[base] || base) + (isArray ? "[]" : "");
+};
+
+// Compare the tables declared in shared/schema.ts with what the applied
+// migrations actually produced. Returns one message per difference; an empty
+// list means the two agree.
+export async function checkSchemaDrift(): Promise<string[]> {
+  const problems: string[] = [];
+
+  const appliedResult = await pool.query<Pick<AppliedMigrationRow, "version">>(
+    `SELECT version FROM ${MIGRATIONS_TABLE}`
+  ).catch(() => ({ rows: [] as Pick<AppliedMigrationRow, "version">[] }));
+  const appliedVersions = new Set(appliedResult.rows.map(row => row.version));
+  migrations
+    .filter(m => !appliedVersions.has(m.version))
+    .forEach(m => problems.push(`Migration ${m.version}_${m.name} has not been applied`));
+
+  const columnsResult = await pool.query<CatalogColumnRow>(`
+    SELECT c.relname AS table_name,
+           a.attname AS column_name,
+           format_type(a.atttypid, a.atttypmod) AS data_type,
+           a.attnotnull AS not_null
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r' AND a.attnum > 0 AND NOT a.attisdropped
+  `);
+  const indexesResult = await pool.query<CatalogIndexRow>(`SELECT indexname FROM pg_indexes WHERE schemaname = 'public'`);
+  const indexNames = new Set(indexesResult.rows.map(row => row.indexname));
+
+  const tables = Object.values(schema).filter(value => is(value, PgTable)) as PgTable[];
+
+  for (const table of tables) {
+    const config = getTableConfig(table);
+    const dbColumns = columnsResult.rows.filter(row => row.table_name === config.name);
+
+    if (dbColumns.length === 0) {
+      problems.push(`Table "${config.name}" is missing`);
+      continue;
+    }
+
+    for (const column of config.columns) {
+      const dbColumn = dbColumns.find(row => row.column_name === column.name);
+      if (!dbColumn) {
+        problems.push(`Column "${config.name}.${column.name}" is missing`);
+        continue;
+      }
+
+      const expectedType = normalizeSqlType(column.getSQLType());
+      if (dbColumn.data_type !== expectedType) {
+        problems.push(`Column "${config.name}.${column.name}" is ${dbColumn.data_type}, schema expects ${expectedType}`);
+      }
+
+      // Primary keys are always NOT NULL in Postgres regardless of how drizzle flags them
+      const expectedNotNull = column.notNull || column.primary;
+      if (dbColumn.not_null !== expectedNotNull) {
+        problems.push(`Column "${config.name}.${column.name}" is ${dbColumn.not_null ? "NOT NULL" : "nullable"}, schema expects ${expectedNotNull ? "NOT NULL" : "nullable"}`);
+      }
+    }
+
+    for (const dbColumn of dbColumns) {
+      if (!config.columns.some(column => column.name === dbColumn.column_name)) {
+        problems.push(`Column "${config.name}.${dbColumn.column_name}" exists in the database but not in the schema`);
+      }
+    }
+
+    for (const index of config.indexes) {
+      if (index.config.name && !indexNames.has(index.config.name)) {
+        problems.push(`Index "${index.config.name}" on "${config.name}" is missing`);
+      }
+    }
+  }
+
+  return problems;
+}
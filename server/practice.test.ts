@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { Experience, PracticeSchedule, Question } from "@shared/schema";
+import { buildPracticeSession, practiceStreak, scheduleReview } from "./practice";
+
+// Late in the UTC day, so a clock that read local time would land on the wrong day
+const now = new Date("2024-03-10T23:30:00Z");
+
+const experience = (id: number): Experience => ({
+  id,
+  userId: 1,
+  startDate: "2020-01-01",
+  endDate: null,
+  customFields: {},
+  deletedAt: null,
+  version: 1,
+  tags: [],
+});
+
+const question = (id: number): Question => ({
+  id,
+  userId: 1,
+  text: `Question ${id}`,
+  category: "behavioral",
+  competency: "Leadership",
+  createdAt: now,
+  updatedAt: now,
+  experienceIds: [],
+});
+
+const schedule = (experienceId: number, dueDate: string, reviewCount = 1): PracticeSchedule => ({
+  id: experienceId,
+  userId: 1,
+  experienceId,
+  repetitions: 1,
+  intervalDays: 1,
+  easeFactor: 2.5,
+  dueDate,
+  reviewCount,
+  lastReviewedAt: now,
+});
+
+describe("scheduleReview", () => {
+  it("waits 1 day, then 6, then the interval times the ease factor", () => {
+    const first = scheduleReview(undefined, 4, now);
+    expect(first).toEqual({ repetitions: 1, intervalDays: 1, easeFactor: 2.5, dueDate: "2024-03-11" });
+
+    const second = scheduleReview(first, 4, now);
+    expect(second).toEqual({ repetitions: 2, intervalDays: 6, easeFactor: 2.5, dueDate: "2024-03-16" });
+
+    const third = scheduleReview(second, 4, now);
+    expect(third).toEqual({ repetitions: 3, intervalDays: 15, easeFactor: 2.5, dueDate: "2024-03-25" });
+  });
+
+  it("multiplies by the ease factor from before the rating", () => {
+    const next = scheduleReview({ repetitions: 2, intervalDays: 6, easeFactor: 2.5, dueDate: "2024-03-10" }, 5, now);
+    expect(next).toMatchObject({ intervalDays: 15, easeFactor: 2.6 });
+  });
+
+  it("starts a failed recall over with a one day interval", () => {
+    const next = scheduleReview({ repetitions: 4, intervalDays: 40, easeFactor: 2.5, dueDate: "2024-03-10" }, 2, now);
+    expect(next).toEqual({ repetitions: 0, intervalDays: 1, easeFactor: 2.18, dueDate: "2024-03-11" });
+  });
+
+  it("keeps the ease factor at 1.3 or more", () => {
+    const next = scheduleReview({ repetitions: 0, intervalDays: 1, easeFactor: 1.4, dueDate: "2024-03-10" }, 0, now);
+    expect(next.easeFactor).toBe(1.3);
+  });
+
+  it("rounds the ease factor to two decimals", () => {
+    // 1.87 + 0.1 - 0.24 is 1.7300000000000002 in floating point
+    const next = scheduleReview({ repetitions: 3, intervalDays: 10, easeFactor: 1.87, dueDate: "2024-03-10" }, 3, now);
+    expect(next.easeFactor).toBe(1.73);
+  });
+});
+
+describe("practiceStreak", () => {
+  it("counts consecutive days ending today", () => {
+    expect(practiceStreak(["2024-03-08", "2024-03-09", "2024-03-10", "2024-03-06"], now)).toBe(3);
+  });
+
+  it("survives until the end of the day after the last attempt", () => {
+    const days = ["2024-03-08", "2024-03-09"];
+    expect(practiceStreak(days, new Date("2024-03-10T23:59:59.999Z"))).toBe(2);
+    expect(practiceStreak(days, new Date("2024-03-11T00:00:00Z"))).toBe(0);
+  });
+});
+
+describe("buildPracticeSession", () => {
+  it("lists scheduled items by due date, then unscheduled ones by id", () => {
+    const candidates = [5, 1, 4, 3, 2].map(id => ({ experience: experience(id), questions: [] }));
+    const session = buildPracticeSession(candidates, [
+      schedule(3, "2024-03-08"),
+      schedule(1, "2024-03-10"),
+      schedule(2, "2024-03-20"),
+    ], ["2024-03-09"], now);
+
+    expect(session.items.map(item => item.experience.id)).toEqual([3, 1, 4, 5]);
+    expect(session).toMatchObject({ dueCount: 4, nextDueDate: "2024-03-20", streak: 1, reviewedToday: false });
+  });
+
+  it("asks an item's questions in turn", () => {
+    const questions = [question(10), question(11)];
+    const questionFor = (reviewCount: number | undefined) => {
+      const schedules = reviewCount === undefined ? [] : [schedule(1, "2024-03-10", reviewCount)];
+      return buildPracticeSession([{ experience: experience(1), questions }], schedules, [], now).items[0].question?.id;
+    };
+
+    expect([undefined, 1, 2, 3].map(questionFor)).toEqual([10, 11, 10, 11]);
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  Column, Experience, PracticeItem, PracticeSchedule, PracticeScheduleState, PracticeSession, Question
+} from "@shared/schema";
+import { filledStorySections } from "@shared/story";
+
+/*
+ * Spaced-repetition practice, scheduled with SM-2. Everything here is a pure
+ * function of its inputs and "now", so the schedule can be checked against a
+ * fixed clock; the routes read the time from an injected Clock.
+ */
+
+// Where the routes get the current time from
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// SM-2 constants: new items start at this ease, which never drops below the minimum
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// Ratings from this one up count as recalled
+const PASSING_RATING = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Practice days are UTC calendar days, written YYYY-MM-DD like date columns
+export const dayKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (day: string, days: number): string =>
+  dayKey(new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS));
+
+/*
+ * The schedule after one attempt rated 0-5. A failed recall starts the item
+ * over with a one day interval; a passed one waits 1 day, then 6, then the
+ * previous interval times the ease factor. The ease factor moves with every
+ * rating: up for 5, unchanged for 4, down for anything less.
+ */
+export function scheduleReview(previous: PracticeScheduleState | undefined, rating: number, now: Date): PracticeScheduleState {
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE_FACTOR;
+
+  const missed = 5 - rating;
+  const nextEaseFactor = Math.max(MIN_EASE_FACTOR, easeFactor + 0.1 - missed * (0.08 + missed * 0.02));
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+  if (rating < PASSING_RATING) {
+    nextRepetitions = 0;
+    nextInterval = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    nextInterval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * easeFactor);
+  }
+
+  return {
+    repetitions: nextRepetitions,
+    intervalDays: nextInterval,
+    // Rounded so the value survives the REAL column unchanged
+    easeFactor: Math.round(nextEaseFactor * 100) / 100,
+    dueDate: addDays(dayKey(now), nextInterval),
+  };
+}
+
+// Days in a row with at least one attempt. A streak stays alive until the end
+// of the day after its last attempt, so it counts back from yesterday when
+// nothing has been practiced today yet.
+export function practiceStreak(reviewDays: string[], now: Date): number {
+  const days = new Set(reviewDays);
+  const today = dayKey(now);
+  let day = days.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+// An experience can be practiced once it has a story with something written in
+// it or answers at least one question
+export function practiceCandidates(
+  experiences: Experience[],
+  columns: Column[],
+  questions: Question[]
+): { experience: Experience; questions: Question[] }[] {
+  const storyKeys = columns.filter(column => column.type === 'story').map(column => column.key);
+
+  return experiences.flatMap(experience => {
+    const fields = experience.customFields as Record<string, any>;
+    const linked = questions
+      .filter(question => question.experienceIds.includes(experience.id))
+      .sort((a, b) => a.id - b.id);
+    const hasStory = storyKeys.some(key => filledStorySections(fields[key]).length > 0);
+    return hasStory || linked.length > 0 ? [{ experience, questions: linked }] : [];
+  });
+}
+
+/*
+ * What is due today: scheduled items whose due date has come, oldest first,
+ * then items never practiced, by experience id. An item with questions is
+ * asked as each of its questions in turn.
+ */
+export function buildPracticeSession(
+  candidates: { experience: Experience; questions: Question[] }[],
+  schedules: PracticeSchedule[],
+  reviewDays: string[],
+  now: Date
+): PracticeSession {
+  const today = dayKey(now);
+  const scheduleByExperience = new Map(schedules.map(schedule => [schedule.experienceId, schedule]));
+
+  const items: PracticeItem[] = candidates.map(({ experience, questions }) => {
+    const schedule = scheduleByExperience.get(experience.id) ?? null;
+    const question = questions.length > 0 ? questions[(schedule?.reviewCount ?? 0) % questions.length] : null;
+    return {
+      experience,
+      question: question ? { id: question.id, text: question.text } : null,
+      schedule,
+    };
+  });
+
+  const due = items
+    .filter(item => !item.schedule || item.schedule.dueDate <= today)
+    .sort((a, b) => {
+      if (a.schedule && b.schedule) {
+        return a.schedule.dueDate.localeCompare(b.schedule.dueDate) || a.experience.id - b.experience.id;
+      }
+      if (a.schedule) return -1;
+      if (b.schedule) return 1;
+      return a.experience.id - b.experience.id;
+    });
+
+  const upcoming = items
+    .flatMap(item => item.schedule && item.schedule.dueDate > today ? [item.schedule.dueDate] : [])
+    .sort();
+
+  return {
+    items: due,
+    dueCount: due.length,
+    streak: practiceStreak(reviewDays, now),
+    reviewedToday: reviewDays.includes(today),
+    nextDueDate: upcoming[0] ?? null,
+  };
+}
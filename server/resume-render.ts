@@ -0,0 +1,231 @@
+import { format } from "date-fns";
+import type { Experience, ResumeFormData, ResumeSections, ResumeTemplate } from "@shared/schema";
+import { formatStory, isStoryValue } from "@shared/story";
+
+// One experience as it appears on the resume
+export interface ResumeEntry {
+  title: string;
+  company: string;
+  period: string;
+  bullets: string[];
+}
+
+// Everything a resume shows, independent of the output format
+export interface ResumeDocument {
+  // Name first, then contact lines
+  heading: string[];
+  targetRole: string;
+  summary: string;
+  entries: ResumeEntry[];
+  skills: string[];
+}
+
+// Parse YYYY-MM-DD as a local date, so formatting doesn't shift it by the server's offset
+const localDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatPeriod = (experience: Experience) => {
+  const start = format(localDate(experience.startDate), "MMM yyyy");
+  const end = experience.endDate ? format(localDate(experience.endDate), "MMM yyyy") : "Present";
+  return `${start} – ${end}`;
+};
+
+const fieldOf = (experience: Experience, key: string | null): unknown =>
+  key ? (experience.customFields as Record<string, any>)[key] : undefined;
+
+const textOf = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  if (isStoryValue(value)) return formatStory(value);
+  return String(value).trim();
+};
+
+// One bullet per line of a text field, or per item of a multi-value field.
+// Leading list markers typed into the text ("-", "*", "•") are dropped.
+export const bulletsOf = (value: unknown): string[] => {
+  const lines = Array.isArray(value) ? value.map(String) : textOf(value).split(/\r?\n/);
+  return lines.map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim()).filter(Boolean);
+};
+
+// Skills of one experience: a multi-value field's items or a comma separated text field, plus tags
+const skillsOf = (experience: Experience, sections: ResumeSections): string[] => {
+  const value = fieldOf(experience, sections.skills);
+  const fromField = Array.isArray(value) ? value.map(String) : textOf(value).split(",");
+  const fromTags = sections.includeTags ? (experience.tags ?? []).map(tag => tag.name) : [];
+  return [...fromField, ...fromTags].map(skill => skill.trim()).filter(Boolean);
+};
+
+/*
+ * Lay out the resume for the selected experiences, ongoing and most recent
+ * first. Skills are gathered across every entry, most frequent first, with
+ * case variants of the same skill counted together under its first spelling.
+ */
+export function buildResumeDocument(resume: ResumeFormData, experiences: Experience[]): ResumeDocument {
+  const { sections } = resume;
+  const ordered = [...experiences].sort((a, b) =>
+    (b.endDate ?? "9999-12-31").localeCompare(a.endDate ?? "9999-12-31") || b.startDate.localeCompare(a.startDate)
+  );
+
+  const skillCounts = new Map<string, { name: string; count: number }>();
+  ordered.forEach(experience => {
+    const seen = new Set<string>();
+    skillsOf(experience, sections).forEach(skill => {
+      const lower = skill.toLowerCase();
+      if (seen.has(lower)) return;
+      seen.add(lower);
+      const counted = skillCounts.get(lower);
+      skillCounts.set(lower, { name: counted?.name ?? skill, count: (counted?.count ?? 0) + 1 });
+    });
+  });
+
+  return {
+    heading: (resume.heading ?? "").split(/\r?\n/).map(line => line.trim()).filter(Boolean),
+    targetRole: resume.targetRole,
+    summary: (resume.summary ?? "").trim(),
+    entries: ordered.map(experience => ({
+      title: textOf(fieldOf(experience, sections.title)),
+      company: textOf(fieldOf(experience, sections.company)),
+      period: formatPeriod(experience),
+      bullets: bulletsOf(fieldOf(experience, sections.bullets)),
+    })),
+    skills: Array.from(skillCounts.values())
+      .sort((a, b) => b.count - a.count)
+      .map(skill => skill.name),
+  };
+}
+
+// Backslash-escape characters Markdown would otherwise read as formatting
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/([\\`*_[\]<>|])/g, "\\$1")
+    .replace(/^(\s*)([#+-]|\d+\.)(\s)/, "$1\\$2$3");
+
+const entryHeading = (entry: ResumeEntry) =>
+  [entry.title, entry.company].filter(Boolean).join(" — ") || entry.period;
+
+export function renderResumeMarkdown(doc: ResumeDocument): string {
+  const lines: string[] = [];
+  const [name, ...contact] = doc.heading;
+
+  lines.push(`# ${escapeMarkdown(name ?? doc.targetRole)}`, "");
+  if (contact.length > 0) lines.push(contact.map(escapeMarkdown).join(" · "), "");
+  if (name) lines.push(`**${escapeMarkdown(doc.targetRole)}**`, "");
+  if (doc.summary) lines.push(...doc.summary.split(/\r?\n/).map(escapeMarkdown), "");
+
+  if (doc.entries.length > 0) {
+    lines.push("## Experience", "");
+    doc.entries.forEach(entry => {
+      lines.push(`### ${escapeMarkdown(entryHeading(entry))}`, "", `_${entry.period}_`, "");
+      if (entry.bullets.length > 0) {
+        lines.push(...entry.bullets.map(bullet => `- ${escapeMarkdown(bullet)}`), "");
+      }
+    });
+  }
+
+  if (doc.skills.length > 0) {
+    lines.push("## Skills", "", doc.skills.map(escapeMarkdown).join(" · "), "");
+  }
+
+  return lines.join("\n");
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #111827; background: #fff; }
+  .resume { max-width: 800px; margin: 0 auto; padding: 40px; }
+  h1, h2, h3, p, ul { margin: 0; }
+  .contact { color: #4b5563; }
+  .entry { break-inside: avoid; }
+  .period { color: #6b7280; }
+  @page { margin: 16mm; }
+  @media print { .resume { padding: 0; max-width: none; } }
+`;
+
+const TEMPLATE_STYLES: Record<ResumeTemplate, string> = {
+  classic: `
+    body { font-family: Georgia, "Times New Roman", serif; font-size: 11pt; line-height: 1.45; }
+    header { text-align: center; margin-bottom: 20px; }
+    h1 { font-size: 24pt; font-weight: normal; letter-spacing: 0.04em; }
+    .role { font-style: italic; margin-top: 4px; }
+    h2 { font-size: 12pt; text-transform: uppercase; letter-spacing: 0.1em; border-bottom: 1px solid #111827; padding-bottom: 2px; margin: 20px 0 10px; }
+    h3 { font-size: 11pt; }
+    .entry { margin-bottom: 12px; }
+    .period { font-style: italic; }
+    ul { padding-left: 20px; margin-top: 4px; }
+  `,
+  modern: `
+    body { font-family: system-ui, -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 10.5pt; line-height: 1.5; }
+    header { border-left: 4px solid #2563eb; padding-left: 16px; margin-bottom: 24px; }
+    h1 { font-size: 26pt; font-weight: 700; }
+    .role { color: #2563eb; font-weight: 600; margin-top: 2px; }
+    h2 { font-size: 11pt; color: #2563eb; text-transform: uppercase; letter-spacing: 0.08em; margin: 24px 0 10px; }
+    h3 { font-size: 11pt; font-weight: 600; }
+    .entry { margin-bottom: 14px; padding-left: 12px; border-left: 2px solid #e5e7eb; }
+    ul { padding-left: 18px; margin-top: 4px; }
+    .skills { display: flex; flex-wrap: wrap; gap: 6px; padding: 0; list-style: none; }
+    .skills li { background: #eff6ff; color: #1e40af; border-radius: 4px; padding: 2px 8px; }
+  `,
+  compact: `
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 9.5pt; line-height: 1.35; }
+    header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 1px solid #d1d5db; padding-bottom: 6px; margin-bottom: 10px; }
+    h1 { font-size: 16pt; }
+    .role { font-weight: 600; }
+    h2 { font-size: 10pt; text-transform: uppercase; margin: 12px 0 6px; }
+    h3 { font-size: 10pt; display: inline; }
+    .entry { margin-bottom: 6px; }
+    .period { float: right; }
+    ul { padding-left: 16px; margin-top: 2px; }
+  `,
+};
+
+// A standalone HTML page; the template only changes the styles, and the print
+// styles make it the print layout as well
+export function renderResumeHtml(doc: ResumeDocument, template: ResumeTemplate): string {
+  const [name, ...contact] = doc.heading;
+  const title = [name, doc.targetRole].filter(Boolean).join(" – ");
+
+  const entries = doc.entries.map(entry => `
+      <div class="entry">
+        <h3>${escapeHtml(entryHeading(entry))}</h3>
+        <span class="period">${escapeHtml(entry.period)}</span>
+        ${entry.bullets.length > 0 ? `<ul>${entry.bullets.map(bullet => `<li>${escapeHtml(bullet)}</li>`).join("")}</ul>` : ""}
+      </div>`).join("");
+
+  const skills = template === "modern"
+    ? `<ul class="skills">${doc.skills.map(skill => `<li>${escapeHtml(skill)}</li>`).join("")}</ul>`
+    : `<p>${doc.skills.map(escapeHtml).join(" · ")}</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${BASE_STYLES}${TEMPLATE_STYLES[template]}</style>
+</head>
+<body>
+  <main class="resume">
+    <header>
+      <div>
+        <h1>${escapeHtml(name ?? doc.targetRole)}</h1>
+        ${name ? `<p class="role">${escapeHtml(doc.targetRole)}</p>` : ""}
+      </div>
+      ${contact.length > 0 ? `<p class="contact">${contact.map(escapeHtml).join(" · ")}</p>` : ""}
+    </header>
+    ${doc.summary ? `<section><p>${doc.summary.split(/\r?\n/).map(escapeHtml).join("<br>")}</p></section>` : ""}
+    ${doc.entries.length > 0 ? `<section><h2>Experience</h2>${entries}</section>` : ""}
+    ${doc.skills.length > 0 ? `<section><h2>Skills</h2>${skills}</section>` : ""}
+  </main>
+</body>
+</html>
+`;
+}
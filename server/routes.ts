@@ -3,13 +3,38 @@ import { createServer, type Server } from "http";
 import passport from 'passport';
 import bcrypt from 'bcryptjs';
 import { requireAuth, sessionMiddleware } from './auth';
-import { pool } from "./db";
-import { storage } from "./storage";
-import { experienceSchema, columnFormSchema, insertTagSchema } from "@shared/schema";
-import { ZodError } from "zod";
+import { DuplicateColumnKeyError, duplicateColumnKey, storage, VersionConflictError } from "./storage";
+import { trashRetentionDays } from "./trash";
+import { diffSnapshots } from "./experience-revisions";
+import {
+  EXPORT_BATCH_SIZE, exportColumns, exportContentTypes, exportFileName, streamExperienceExport
+} from "./experience-export";
+import type { ExperienceSearchParams } from "./experience-search";
+import {
+  IMPORT_SAMPLE_SIZE, checkImportMappings, experienceImportResult, planExperienceImport, readSpreadsheet, suggestImportMappings,
+  type Spreadsheet
+} from "./experience-import";
+import { buildJsonResume, readJsonResume, suggestJsonResumeMappings } from "./json-resume";
+import { buildResumeDocument, renderResumeHtml, renderResumeMarkdown } from "./resume-render";
+import { matchJobDescription } from "./job-match";
+import { buildSkillTimeline } from "./skill-timeline";
+import { customFieldsSchemaOf, experienceSchemaFor } from "./custom-field-values";
+import { buildPracticeSession, practiceCandidates, scheduleReview, systemClock, type Clock } from "./practice";
+import {
+  experiencePageSchema, columnFormSchema, insertColumnSchema, insertTagSchema, reservedColumnKeys,
+  dropdownOptionChangesSchema, columnDeleteModes, versionTokenSchema,
+  experienceFiltersSchema, accountArchiveSchema, archiveImportModes, ARCHIVE_FORMAT_VERSION,
+  experienceImportPreviewSchema, experienceImportSchema, experienceExportSchema, resumeFormSchema, questionFormSchema,
+  practiceReviewSchema, jobMatchSchema, skillTimelineQuerySchema,
+  jsonResumeSchema, jsonResumeExportSchema,
+  type Column, type Experience, type ExperienceImportPreview, type ExperienceImportPreviewRequest,
+  type PracticeSummary, type ResumePreview, type VersionConflict
+} from "@shared/schema";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// clock is where practice scheduling and the skill timeline read the current time from
+export async function registerRoutes(app: Express, clock: Clock = systemClock): Promise<Server> {
   const httpServer = createServer(app);
 
   // Auth middleware
@@ -27,8 +52,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check if user already exists
-      const existingUser = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
-      if (existingUser.rows.length > 0) {
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
         return res.status(400).json({ message: 'Username already exists' });
       }
 
@@ -36,16 +61,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const salt = await bcrypt.genSalt(10);
       const hashedPassword = await bcrypt.hash(password, salt);
 
-      const result = await pool.query(
-        'INSERT INTO users (username, password) VALUES ($1, $2) RETURNING id, username',
-        [username, hashedPassword]
-      );
+      // Creates the user and their default columns in one transaction
+      const user = await storage.createUser({ username, password: hashedPassword });
+      const sessionUser = { id: user.id, username: user.username };
 
-      req.login(result.rows[0], (err) => {
+      req.login(sessionUser, (err) => {
         if (err) {
           return res.status(500).json({ message: 'Error logging in after registration' });
         }
-        res.status(200).json(result.rows[0]);
+        res.status(200).json(sessionUser);
       });
     } catch (err) {
       console.error('Registration error:', err);
@@ -67,15 +91,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(req.user || null);
   });
 
-  // Error handler for Zod validation errors
+  // Error handler for Zod validation errors, version conflicts and duplicate column keys
   const handleValidationError = (err: unknown, res: Response) => {
     if (err instanceof ZodError) {
       const validationError = fromZodError(err);
       return res.status(400).json({ message: validationError.message });
     }
+    // Stale version token: hand back the current copy so the client can merge
+    if (err instanceof VersionConflictError) {
+      const conflict: VersionConflict<unknown> = { message: err.message, current: err.current };
+      return res.status(409).json(conflict);
+    }
+    // Lost a race with another request creating or renaming a column to the same key
+    if (err instanceof DuplicateColumnKeyError) {
+      return res.status(409).json({ message: err.message });
+    }
     return res.status(500).json({ message: 'Internal server error' });
   };
 
+  // Why a column can't be given newKey, or undefined when the change is allowed
+  const checkColumnKeyChange = async (column: Column, newKey: string, userId: number) => {
+    if (newKey === column.key) return undefined;
+    if (reservedColumnKeys.includes(column.key)) {
+      return { status: 400, message: `The key of the "${column.name}" column cannot be changed` };
+    }
+    if (reservedColumnKeys.includes(newKey)) {
+      return { status: 400, message: `"${newKey}" is a reserved column key` };
+    }
+    if (await storage.getColumnByKey(newKey, userId)) {
+      return { status: 409, message: `A column with the key "${newKey}" already exists` };
+    }
+    return undefined;
+  };
+
   // Column routes
   app.get("/api/columns", requireAuth, async (req: Request, res: Response) => {
     try {
@@ -91,8 +139,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/columns", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const columnData = columnFormSchema.parse({...req.body, userId});
-      const column = await storage.createColumn(columnData);
+      const columnData = columnFormSchema.parse(req.body);
+
+      const existing = await storage.getColumnByKey(columnData.key, userId);
+      if (existing) {
+        return res.status(409).json({
+          message: existing.archivedAt
+            ? `An archived column already uses the key "${columnData.key}"; restore it instead`
+            : `A column with the key "${columnData.key}" already exists`
+        });
+      }
+
+      const column = await storage.createColumn({ ...columnData, userId });
       res.status(201).json(column);
     } catch (err) {
       console.error("Error creating column:", err);
@@ -102,9 +160,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/columns/:id", requireAuth, async (req: Request, res: Response) => {
     try {
+      const userId = (req.user as any).id;
       const id = parseInt(req.params.id);
       const columnData = columnFormSchema.partial().parse(req.body);
-      const column = await storage.updateColumn(id, columnData);
+      const optionChanges = req.body.optionChanges
+        ? dropdownOptionChangesSchema.parse(req.body.optionChanges)
+        : undefined;
+      const { version } = versionTokenSchema.parse(req.body);
+
+      const existing = await storage.getColumn(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Column not found" });
+      }
+
+      if (columnData.key !== undefined) {
+        const keyError = await checkColumnKeyChange(existing, columnData.key, userId);
+        if (keyError) {
+          return res.status(keyError.status).json({ message: keyError.message });
+        }
+      }
+
+      if (optionChanges) {
+        const nextOptions = columnData.dropdownOptions ?? existing.dropdownOptions ?? [];
+        const unknownTarget = Object.values(optionChanges.renames).find(option => !nextOptions.includes(option));
+        if (unknownTarget !== undefined) {
+          return res.status(400).json({ message: `"${unknownTarget}" is not one of the column's options` });
+        }
+      }
+
+      const column = await storage.updateColumn(id, userId, columnData, optionChanges, version);
 
       if (!column) {
         return res.status(404).json({ message: "Column not found" });
@@ -117,36 +201,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // How many experiences a key change would touch, shown before the change is saved
+  app.get("/api/columns/:id/rename-preview", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const newKey = z.string().min(1, { message: "Key is required" }).parse(req.query.key);
+
+      const column = await storage.getColumn(id, userId);
+      if (!column) {
+        return res.status(404).json({ message: "Column not found" });
+      }
+
+      const keyError = await checkColumnKeyChange(column, newKey, userId);
+      if (keyError) {
+        return res.status(keyError.status).json({ message: keyError.message });
+      }
+
+      const preview = await storage.previewColumnKeyRename(id, userId, newKey);
+      res.json(preview);
+    } catch (err) {
+      console.error("Error previewing column key change:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
   app.post("/api/columns/import", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const columns = req.body;
-      if (!Array.isArray(columns)) {
+      if (!Array.isArray(req.body)) {
         return res.status(400).json({ message: "Invalid column configuration" });
       }
 
-      // Delete existing columns
-      const existingColumns = await storage.getColumns(userId);
-      for (const column of existingColumns) {
-        await storage.deleteColumn(column.id);
+      // Validate everything before touching the current columns. Exported configs
+      // carry row ids, owners and archive state, which are stripped here.
+      const columns = insertColumnSchema.omit({ userId: true }).array().parse(req.body);
+      const duplicate = duplicateColumnKey(columns);
+      if (duplicate !== undefined) {
+        return res.status(400).json({ message: `More than one column uses the key "${duplicate}"` });
       }
 
-      // Import new columns
-      for (const column of columns) {
-        await storage.createColumn({...column, userId});
-      }
+      // Replace existing columns, archived ones included; stored values stay so
+      // imported columns with the same keys pick them up again
+      await storage.replaceColumns(userId, columns);
 
       res.status(200).json({ message: "Column configuration imported successfully" });
     } catch (err) {
       console.error("Error importing columns:", err);
-      res.status(500).json({ message: "Failed to import column configuration" });
+      return handleValidationError(err, res);
     }
   });
 
+  app.post("/api/columns/reset", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const columns = await storage.resetColumnsToDefaults(userId);
+      res.json(columns);
+    } catch (err) {
+      console.error("Error resetting columns:", err);
+      res.status(500).json({ message: "Failed to reset columns" });
+    }
+  });
+
+  // Archive (default) keeps the column's values and can be undone; purge removes them for good
   app.delete("/api/columns/:id", requireAuth, async (req: Request, res: Response) => {
     try {
+      const userId = (req.user as any).id;
       const id = parseInt(req.params.id);
-      const success = await storage.deleteColumn(id);
+      const mode = z.enum(columnDeleteModes).default("archive").parse(req.query.mode);
+
+      const success = mode === "purge"
+        ? await storage.deleteColumn(id, userId)
+        : !!await storage.archiveColumn(id, userId);
 
       if (!success) {
         return res.status(404).json({ message: "Column not found" });
@@ -155,7 +281,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(204).end();
     } catch (err) {
       console.error("Error deleting column:", err);
-      res.status(500).json({ message: "Failed to delete column" });
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.get("/api/columns/archived", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const columns = await storage.getArchivedColumns(userId);
+      res.json(columns);
+    } catch (err) {
+      console.error("Error fetching archived columns:", err);
+      res.status(500).json({ message: "Failed to fetch archived columns" });
+    }
+  });
+
+  app.post("/api/columns/:id/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const column = await storage.restoreColumn(id, userId);
+
+      if (!column) {
+        return res.status(404).json({ message: "Column not found" });
+      }
+
+      res.json(column);
+    } catch (err) {
+      console.error("Error restoring column:", err);
+      res.status(500).json({ message: "Failed to restore column" });
+    }
+  });
+
+  // customFields keys left behind by deleted columns, so they can be purged or re-adopted
+  app.get("/api/columns/orphaned-keys", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const keys = await storage.getOrphanedFieldKeys(userId);
+      res.json(keys);
+    } catch (err) {
+      console.error("Error fetching orphaned keys:", err);
+      res.status(500).json({ message: "Failed to fetch orphaned keys" });
+    }
+  });
+
+  app.delete("/api/columns/orphaned-keys/:key", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const key = req.params.key;
+
+      // A key still claimed by a column is live data, not an orphan
+      if (await storage.getColumnByKey(key, userId)) {
+        return res.status(409).json({ message: `The key "${key}" belongs to a column` });
+      }
+
+      const experienceCount = await storage.purgeFieldKey(userId, key);
+      res.json({ key, experienceCount });
+    } catch (err) {
+      console.error("Error purging orphaned key:", err);
+      res.status(500).json({ message: "Failed to purge orphaned key" });
     }
   });
 
@@ -163,33 +347,247 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/experiences", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const experiences = await storage.getExperiences(userId);
-      res.json(experiences);
+      const pageOptions = experiencePageSchema.parse(req.query);
+      const page = await storage.queryExperiences({ userId }, pageOptions);
+      res.json(page);
     } catch (err) {
       console.error("Error fetching experiences:", err);
-      res.status(500).json({ message: "Failed to fetch experiences" });
+      return handleValidationError(err, res);
     }
   });
 
+  // The filters of a search or export request body (see ExperienceFilters)
+  // Throws a ZodError (a 400 through handleValidationError) when the filters are malformed
+  const searchParamsOf = (body: unknown, userId: number): ExperienceSearchParams => {
+    const { startDate, endDate, ...filters } = experienceFiltersSchema.parse(body);
+    return {
+      ...filters,
+      userId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    };
+  };
+
   // Dedicated search endpoint that accepts a POST request for more complex filtering
   app.post("/api/experiences/search", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const { startDate, endDate, tagIds, searchTerm, dropdownFilters } = req.body;
+      const pageOptions = experiencePageSchema.parse(req.body);
+      const page = await storage.queryExperiences(searchParamsOf(req.body, userId), pageOptions);
+      res.json(page);
+    } catch (err) {
+      console.error("Error searching experiences:", err);
+      return handleValidationError(err, res);
+    }
+  });
 
-      const experiences = await storage.searchExperiences({
-        userId,
-        startDate: startDate ? new Date(startDate) : undefined,
-        endDate: endDate ? new Date(endDate) : undefined,
-        tagIds,
-        searchTerm,
-        dropdownFilters
-      });
+  // Streams every experience matching the search filters as CSV or XLSX
+  app.post("/api/experiences/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const options = experienceExportSchema.parse(req.body);
+      const params = searchParamsOf(req.body, userId);
+
+      const active = await storage.getColumns(userId);
+      const keys = options.columns ?? active.filter(column => column.isVisible).map(column => column.key);
+      const unknownKey = keys.find(key => !active.some(column => column.key === key));
+      if (unknownKey !== undefined) {
+        return res.status(400).json({ message: `There is no column with the key "${unknownKey}"` });
+      }
+      const columns = exportColumns(keys.map(key => active.find(column => column.key === key)!), options.includeTags);
+
+      const batches = async function* () {
+        for (let page = 1; ; page++) {
+          const { items, totalPages } = await storage.queryExperiences(params, {
+            page,
+            pageSize: EXPORT_BATCH_SIZE,
+            sortBy: options.sortBy,
+            sortDir: options.sortDir,
+          });
+          yield items;
+          if (page >= totalPages) return;
+        }
+      };
 
-      res.json(experiences);
+      const day = new Date().toISOString().split('T')[0];
+      res.setHeader('Content-Type', exportContentTypes[options.format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(options.format, day)}"`);
+      await streamExperienceExport(res, options.format, columns, options.isoDates, batches());
     } catch (err) {
-      console.error("Error searching experiences:", err);
-      res.status(500).json({ message: "Failed to search experiences" });
+      console.error("Error exporting experiences:", err);
+      // Once the file has started there is no way to report an error; cut it off
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Every experience matching the search filters as a JSON Resume, with fields filled from the mapped columns
+  app.post("/api/experiences/export/json-resume", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const mapping = jsonResumeExportSchema.parse(req.body);
+
+      const active = await storage.getColumns(userId);
+      const keys = [...Object.values(mapping.fields), mapping.sectionColumn];
+      const unknownKey = keys.find(key => key !== null && !active.some(column => column.key === key));
+      if (unknownKey) {
+        return res.status(400).json({ message: `There is no column with the key "${unknownKey}"` });
+      }
+
+      const experiences = await storage.searchExperiences(searchParamsOf(req.body, userId));
+      const day = new Date().toISOString().split('T')[0];
+      res.setHeader('Content-Disposition', `attachment; filename="resume-${day}.json"`);
+      res.json(buildJsonResume(experiences, mapping));
+    } catch (err) {
+      console.error("Error exporting JSON Resume:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // The rows of an import file: a spreadsheet as it is, or a JSON Resume's entries
+  // laid out as one. Undefined when a JSON Resume file isn't JSON at all.
+  const importSheetOf = ({ text, source, delimiter }: ExperienceImportPreviewRequest): Spreadsheet | undefined => {
+    if (source === "spreadsheet") return readSpreadsheet(text, delimiter);
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+    return readJsonResume(jsonResumeSchema.parse(json));
+  };
+
+  // Spreadsheet and JSON Resume import: the preview reads the headers, then the
+  // import runs as a dry run (the default) or for real with the same mappings
+  app.post("/api/experiences/import/preview", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const request = experienceImportPreviewSchema.parse(req.body);
+
+      const sheet = importSheetOf(request);
+      if (!sheet) {
+        return res.status(400).json({ message: "The file is not valid JSON" });
+      }
+      if (sheet.headers.length === 0) {
+        return res.status(400).json({ message: "The file has no header row" });
+      }
+
+      const columns = await storage.getColumns(userId);
+      const preview: ExperienceImportPreview = {
+        source: request.source,
+        delimiter: sheet.delimiter,
+        headers: sheet.headers,
+        sampleRows: sheet.rows.slice(0, IMPORT_SAMPLE_SIZE),
+        rowCount: sheet.rows.length,
+        suggestedMappings: request.source === "jsonResume"
+          ? suggestJsonResumeMappings(columns)
+          : suggestImportMappings(sheet.headers, columns),
+      };
+      res.json(preview);
+    } catch (err) {
+      console.error("Error previewing experience import:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.post("/api/experiences/import", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { mappings, dayFirst, dryRun, ...request } = experienceImportSchema.parse(req.body);
+
+      const sheet = importSheetOf(request);
+      if (!sheet) {
+        return res.status(400).json({ message: "The file is not valid JSON" });
+      }
+      const existingColumns = [...await storage.getColumns(userId), ...await storage.getArchivedColumns(userId)];
+      const mappingError = checkImportMappings(mappings, sheet.headers, existingColumns);
+      if (mappingError) {
+        return res.status(400).json({ message: mappingError });
+      }
+
+      const plan = planExperienceImport(sheet, mappings, existingColumns, dayFirst);
+      // Cells were converted for their columns already; hold the rows to the same rules as a save
+      const fieldsSchema = customFieldsSchemaOf([...existingColumns, ...plan.newColumns]);
+      plan.experiences.forEach(experience => fieldsSchema.parse(experience.customFields));
+      const created = { columns: 0, tags: 0, experiences: 0 };
+      // Nothing is written when no row passed, not even the new columns
+      if (!dryRun && plan.experiences.length > 0) {
+        const imported = await storage.importExperiences(
+          userId,
+          plan.newColumns,
+          plan.addedOptions,
+          plan.experiences.map(({ row, ...experience }) => experience)
+        );
+        created.columns = imported.columns.length;
+        created.tags = imported.tags.length;
+        created.experiences = imported.experiences.length;
+      }
+
+      res.json(experienceImportResult(plan, sheet.rows.length, dryRun, created));
+    } catch (err) {
+      console.error("Error importing experiences:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Trash routes; registered before /api/experiences/:id so "trash" isn't taken for an id
+  app.get("/api/experiences/trash", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const items = await storage.getDeletedExperiences(userId);
+      res.json({ items, retentionDays: trashRetentionDays });
+    } catch (err) {
+      console.error("Error fetching trash:", err);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  // Empty the trash
+  app.delete("/api/experiences/trash", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const purged = await storage.purgeDeletedExperiences(new Date(), userId);
+      res.json({ purged });
+    } catch (err) {
+      console.error("Error emptying trash:", err);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+
+  app.post("/api/experiences/:id/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const experience = await storage.restoreExperience(id, userId);
+
+      if (!experience) {
+        return res.status(404).json({ message: "Experience not found in trash" });
+      }
+
+      res.json(experience);
+    } catch (err) {
+      console.error("Error restoring experience:", err);
+      res.status(500).json({ message: "Failed to restore experience" });
+    }
+  });
+
+  app.delete("/api/experiences/:id/permanent", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const success = await storage.purgeExperience(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Experience not found in trash" });
+      }
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error permanently deleting experience:", err);
+      res.status(500).json({ message: "Failed to permanently delete experience" });
     }
   });
 
@@ -213,19 +611,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/experiences", requireAuth, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
-      const experienceData = experienceSchema.parse({...req.body, userId});
-      const experience = await storage.createExperience(experienceData);
-
-      // Add tags if provided
-      if (experienceData.tags && experienceData.tags.length > 0) {
-        for (const tagId of experienceData.tags) {
-          await storage.addTagToExperience(experience.id, tagId);
-        }
-      }
-
-      // Fetch the experience with tags
-      const completeExperience = await storage.getExperience(experience.id, userId);
-      res.status(201).json(completeExperience);
+      const experienceData = experienceSchemaFor(await storage.getColumns(userId)).parse(req.body);
+      // Tags the user doesn't own are dropped by storage
+      const experience = await storage.createExperienceWithTags({ ...experienceData, userId }, experienceData.tags ?? [], "create");
+      res.status(201).json(experience);
     } catch (err) {
       console.error("Error creating experience:", err);
       return handleValidationError(err, res);
@@ -236,46 +625,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = (req.user as any).id;
       const id = parseInt(req.params.id);
-      const experienceData = experienceSchema.partial().parse(req.body);
+      const experienceData = experienceSchemaFor(await storage.getColumns(userId)).partial().parse(req.body);
+      const { version } = versionTokenSchema.parse(req.body);
 
-      const experience = await storage.updateExperience(id, experienceData);
+      // Tags are replaced only when the request sends them
+      const { tags: tagIds, ...fieldChanges } = experienceData;
+      // A request that only sends tags is recorded as a tag change
+      const experience = await storage.updateExperienceWithTags(
+        id, userId, fieldChanges, tagIds, version, Object.keys(fieldChanges).length > 0 ? "update" : "tags"
+      );
 
       if (!experience) {
         return res.status(404).json({ message: "Experience not found" });
       }
 
-      // Update tags if provided
-      if (experienceData.tags) {
-        // Get current tags
-        const currentTags = await storage.getExperienceTags(id);
-        const currentTagIds = currentTags.map(tag => tag.id);
+      res.json(experience);
+    } catch (err) {
+      console.error("Error updating experience:", err);
+      return handleValidationError(err, res);
+    }
+  });
 
-        // Tags to add
-        const tagsToAdd = experienceData.tags.filter(tagId => !currentTagIds.includes(tagId));
-        for (const tagId of tagsToAdd) {
-          await storage.addTagToExperience(id, tagId);
-        }
+  // Revision history, newest first
+  app.get("/api/experiences/:id/revisions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
 
-        // Tags to remove
-        const tagsToRemove = currentTagIds.filter(tagId => !experienceData.tags!.includes(tagId));
-        for (const tagId of tagsToRemove) {
-          await storage.removeTagFromExperience(id, tagId);
-        }
+      if (!(await storage.getExperience(id, userId))) {
+        return res.status(404).json({ message: "Experience not found" });
       }
 
-      // Fetch the updated experience with tags
-      const updatedExperience = await storage.getExperience(id, userId);
-      res.json(updatedExperience);
+      const revisions = await storage.getExperienceRevisions(id, userId);
+      res.json(revisions);
     } catch (err) {
-      console.error("Error updating experience:", err);
+      console.error("Error fetching revisions:", err);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Field-level changes going from revision ?from= to revision ?to=
+  app.get("/api/experiences/:id/revisions/diff", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const { from, to } = z.object({
+        from: z.coerce.number().int().positive(),
+        to: z.coerce.number().int().positive(),
+      }).parse(req.query);
+
+      if (!(await storage.getExperience(id, userId))) {
+        return res.status(404).json({ message: "Experience not found" });
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getExperienceRevision(id, from, userId),
+        storage.getExperienceRevision(id, to, userId),
+      ]);
+
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json({ from, to, changes: diffSnapshots(fromRevision.snapshot, toRevision.snapshot) });
+    } catch (err) {
+      console.error("Error comparing revisions:", err);
       return handleValidationError(err, res);
     }
   });
 
+  // Puts the experience back the way it was at an earlier revision. Tags that
+  // have since been deleted are not recreated.
+  app.post("/api/experiences/:id/revisions/:revision/restore", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const revision = await storage.getExperienceRevision(id, parseInt(req.params.revision), userId);
+
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const { startDate, endDate, customFields, tags } = revision.snapshot;
+      const experience = await storage.updateExperienceWithTags(
+        id, userId, { startDate, endDate, customFields }, tags.map(tag => tag.id), undefined, "restore"
+      );
+
+      if (!experience) {
+        return res.status(404).json({ message: "Experience not found" });
+      }
+
+      res.json(experience);
+    } catch (err) {
+      console.error("Error restoring revision:", err);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Moves the experience to the trash; see the trash routes above
   app.delete("/api/experiences/:id", requireAuth, async (req: Request, res: Response) => {
     try {
+      const userId = (req.user as any).id;
       const id = parseInt(req.params.id);
-      const success = await storage.deleteExperience(id);
+      const success = await storage.deleteExperience(id, userId);
 
       if (!success) {
         return res.status(404).json({ message: "Experience not found" });
@@ -291,7 +743,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Tag routes
   app.get("/api/tags", requireAuth, async (req: Request, res: Response) => {
     try {
-      const tags = await storage.getTags();
+      const userId = (req.user as any).id;
+      const tags = await storage.getTags(userId);
       res.json(tags);
     } catch (err) {
       console.error("Error fetching tags:", err);
@@ -301,7 +754,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/tags", requireAuth, async (req: Request, res: Response) => {
     try {
-      const tagData = insertTagSchema.parse(req.body);
+      const userId = (req.user as any).id;
+      const tagData = insertTagSchema.parse({ ...req.body, userId });
       const tag = await storage.createTag(tagData);
       res.status(201).json(tag);
     } catch (err) {
@@ -312,8 +766,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/tags/:id", requireAuth, async (req: Request, res: Response) => {
     try {
+      const userId = (req.user as any).id;
       const id = parseInt(req.params.id);
-      const success = await storage.deleteTag(id);
+      const success = await storage.deleteTag(id, userId);
 
       if (!success) {
         return res.status(404).json({ message: "Tag not found" });
@@ -326,5 +781,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Question routes
+  app.get("/api/questions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const questions = await storage.getQuestions(userId);
+      res.json(questions);
+    } catch (err) {
+      console.error("Error fetching questions:", err);
+      res.status(500).json({ message: "Failed to fetch questions" });
+    }
+  });
+
+  app.post("/api/questions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const questionData = questionFormSchema.parse(req.body);
+      const question = await storage.createQuestion({ ...questionData, userId });
+      res.status(201).json(question);
+    } catch (err) {
+      console.error("Error creating question:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.patch("/api/questions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const questionData = questionFormSchema.partial().parse(req.body);
+      const question = await storage.updateQuestion(id, userId, questionData);
+
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      res.json(question);
+    } catch (err) {
+      console.error("Error updating question:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.delete("/api/questions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteQuestion(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error deleting question:", err);
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  // Practice routes
+  const loadPracticeSession = async (userId: number) => {
+    const [experiences, columns, questions, schedules, reviewDays] = await Promise.all([
+      storage.getExperiences(userId),
+      storage.getColumns(userId),
+      storage.getQuestions(userId),
+      storage.getPracticeSchedules(userId),
+      storage.getPracticeReviewDays(userId),
+    ]);
+    return buildPracticeSession(practiceCandidates(experiences, columns, questions), schedules, reviewDays, clock());
+  };
+
+  app.get("/api/practice", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      res.json(await loadPracticeSession(userId));
+    } catch (err) {
+      console.error("Error fetching practice session:", err);
+      res.status(500).json({ message: "Failed to fetch practice session" });
+    }
+  });
+
+  app.get("/api/practice/summary", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { dueCount, streak, reviewedToday } = await loadPracticeSession(userId);
+      const summary: PracticeSummary = { dueCount, streak, reviewedToday };
+      res.json(summary);
+    } catch (err) {
+      console.error("Error fetching practice summary:", err);
+      res.status(500).json({ message: "Failed to fetch practice summary" });
+    }
+  });
+
+  app.post("/api/practice/:experienceId/review", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const experienceId = parseInt(req.params.experienceId);
+      const { rating, questionId } = practiceReviewSchema.parse(req.body);
+
+      if (questionId != null && !await storage.getQuestion(questionId, userId)) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const now = clock();
+      const schedule = await storage.recordPracticeReview(
+        { userId, experienceId, questionId: questionId ?? null, rating, reviewedAt: now },
+        current => scheduleReview(current, rating, now)
+      );
+
+      if (!schedule) {
+        return res.status(404).json({ message: "Experience not found" });
+      }
+
+      res.json(schedule);
+    } catch (err) {
+      console.error("Error recording practice review:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Job match routes
+  app.post("/api/job-match", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { jobDescription, limit } = jobMatchSchema.parse(req.body);
+      const [experiences, columns, tags] = await Promise.all([
+        storage.getExperiences(userId),
+        storage.getColumns(userId),
+        storage.getTags(userId),
+      ]);
+      res.json(matchJobDescription(jobDescription, experiences, columns, tags, limit));
+    } catch (err) {
+      console.error("Error matching job description:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Analytics routes
+  app.get("/api/analytics/skills", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { source } = skillTimelineQuerySchema.parse(req.query);
+      const [experiences, columns] = await Promise.all([
+        storage.getExperiences(userId),
+        storage.getColumns(userId),
+      ]);
+      res.json(buildSkillTimeline(experiences, columns, clock(), source));
+    } catch (err) {
+      console.error("Error building skill timeline:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Resume routes
+  app.get("/api/resumes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const resumes = await storage.getResumes(userId);
+      res.json(resumes);
+    } catch (err) {
+      console.error("Error fetching resumes:", err);
+      res.status(500).json({ message: "Failed to fetch resumes" });
+    }
+  });
+
+  app.post("/api/resumes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const resumeData = resumeFormSchema.parse(req.body);
+      const resume = await storage.createResume({ ...resumeData, userId });
+      res.status(201).json(resume);
+    } catch (err) {
+      console.error("Error creating resume:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Renders a resume draft, saved or not, as Markdown and as the HTML page for its template
+  app.post("/api/resumes/preview", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const resumeData = resumeFormSchema.parse(req.body);
+      const { selection } = resumeData;
+
+      let experiences: Experience[];
+      if (selection.mode === "filter") {
+        experiences = await storage.searchExperiences(searchParamsOf(selection.filters, userId));
+      } else {
+        // Picked experiences that were deleted since are left out
+        const picked = new Set(selection.experienceIds);
+        experiences = (await storage.getExperiences(userId)).filter(experience => picked.has(experience.id));
+      }
+
+      const doc = buildResumeDocument(resumeData, experiences);
+      const preview: ResumePreview = {
+        experienceCount: experiences.length,
+        markdown: renderResumeMarkdown(doc),
+        html: renderResumeHtml(doc, resumeData.template),
+      };
+      res.json(preview);
+    } catch (err) {
+      console.error("Error previewing resume:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.patch("/api/resumes/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const resumeData = resumeFormSchema.partial().parse(req.body);
+      const resume = await storage.updateResume(id, userId, resumeData);
+
+      if (!resume) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+
+      res.json(resume);
+    } catch (err) {
+      console.error("Error updating resume:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
+  app.delete("/api/resumes/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteResume(id, userId);
+
+      if (!success) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error deleting resume:", err);
+      res.status(500).json({ message: "Failed to delete resume" });
+    }
+  });
+
+  // Backup routes
+  app.get("/api/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const archive = await storage.exportArchive(userId);
+      const day = archive.exportedAt.split('T')[0];
+      res.setHeader('Content-Disposition', `attachment; filename="worktrackerpro-backup-${day}.json"`);
+      res.json(archive);
+    } catch (err) {
+      console.error("Error exporting account:", err);
+      res.status(500).json({ message: "Failed to export account" });
+    }
+  });
+
+  // ?mode=merge (default) adds to the account; ?mode=replace wipes it first
+  app.post("/api/import", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const mode = z.enum(archiveImportModes).default("merge").parse(req.query.mode);
+
+      // Check the version first so a newer archive gets a clear message rather than field errors
+      const formatVersion = req.body?.formatVersion;
+      if (typeof formatVersion === 'number' && formatVersion > ARCHIVE_FORMAT_VERSION) {
+        return res.status(400).json({
+          message: `This backup uses format version ${formatVersion}; this server reads up to version ${ARCHIVE_FORMAT_VERSION}`
+        });
+      }
+
+      const archive = accountArchiveSchema.parse(req.body);
+      // Every value must suit the column the backup declares for it
+      z.object({ experiences: z.array(z.object({ customFields: customFieldsSchemaOf(archive.columns) })) }).parse(archive);
+      const result = await storage.importArchive(userId, archive, mode);
+      res.json(result);
+    } catch (err) {
+      console.error("Error importing account:", err);
+      return handleValidationError(err, res);
+    }
+  });
+
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Column, Experience } from "@shared/schema";
+import { buildSkillTimeline } from "./skill-timeline";
+
+const skillsColumn = { key: "skills", type: "dropdown", allowMultiple: true } as Column;
+
+let nextId = 1;
+const experience = (
+  startDate: string,
+  endDate: string | null,
+  skills: string[],
+  tags: string[] = []
+): Experience => ({
+  id: nextId++,
+  userId: 1,
+  startDate,
+  endDate,
+  customFields: { skills },
+  deletedAt: null,
+  version: 1,
+  tags: tags.map((name, i) => ({ id: i + 1, userId: 1, name })),
+});
+
+const now = new Date("2024-01-01T12:00:00Z");
+
+describe("buildSkillTimeline", () => {
+  it("counts months shared by overlapping experiences once", () => {
+    const { skills } = buildSkillTimeline([
+      experience("2020-01-01", "2020-12-31", ["TypeScript"]),
+      experience("2020-07-01", "2021-06-30", ["TypeScript"]),
+    ], [skillsColumn], now);
+
+    expect(skills).toHaveLength(1);
+    expect(skills[0]).toMatchObject({
+      skill: "TypeScript",
+      months: 18,
+      experienceCount: 2,
+      firstUsed: "2020-01-01",
+      lastUsed: "2021-06-30",
+    });
+    expect(skills[0].byYear).toEqual([{ year: 2020, months: 12 }, { year: 2021, months: 5.9 }]);
+  });
+
+  it("counts a skill named in a column and as a tag once per experience", () => {
+    const { skills } = buildSkillTimeline([
+      experience("2020-01-01", "2020-12-31", ["React"], ["react"]),
+      experience("2022-01-01", "2022-12-31", ["react"]),
+    ], [skillsColumn], now);
+
+    expect(skills).toHaveLength(1);
+    expect(skills[0]).toMatchObject({ skill: "React", experienceCount: 2, months: 24 });
+  });
+
+  it("runs experiences without an end date until now", () => {
+    const { skills, years } = buildSkillTimeline([
+      experience("2023-01-01", null, ["Go"]),
+    ], [skillsColumn], now);
+
+    expect(skills[0]).toMatchObject({ skill: "Go", months: 12, lastUsed: null });
+    expect(years).toEqual([2023, 2024]);
+  });
+
+  it("limits the skills to one source", () => {
+    const experiences = [experience("2020-01-01", "2020-12-31", ["SQL"], ["Docker"])];
+
+    expect(buildSkillTimeline(experiences, [skillsColumn], now, "tags").skills.map(usage => usage.skill))
+      .toEqual(["Docker"]);
+    expect(buildSkillTimeline(experiences, [skillsColumn], now, "skills").skills.map(usage => usage.skill))
+      .toEqual(["SQL"]);
+  });
+});
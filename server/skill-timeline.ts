@@ -0,0 +1,133 @@
+import type { Column, Experience, SkillTimeline, SkillUsage } from "@shared/schema";
+
+/*
+ * How long each skill has been used, from the date ranges of the experiences
+ * naming it in a multi-select dropdown or a tag. Ranges are merged per skill
+ * before they are measured, so two overlapping experiences count their shared
+ * months once. An experience without an end date runs until "now".
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days are turned into months at the average month length, so a year is 12 months
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Where tag names come from, alongside multi-select column keys
+export const TAGS_SOURCE = "tags";
+
+// A date column value (YYYY-MM-DD) as a day number; ranges are [start, end) in these
+const dayOf = (date: string): number => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+
+const dateOf = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+const yearStart = (year: number): number => Date.UTC(year, 0, 1) / DAY_MS;
+
+const monthsOf = (days: number): number => Math.round((days / DAYS_PER_MONTH) * 10) / 10;
+
+// Overlapping and touching ranges joined, in order
+const mergeRanges = (ranges: [number, number][]): [number, number][] => {
+  const merged: [number, number][] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+};
+
+// Days of merged ranges falling in each calendar year
+const daysByYear = (ranges: [number, number][]): Map<number, number> => {
+  const years = new Map<number, number>();
+  ranges.forEach(([start, end]) => {
+    let from = start;
+    while (from < end) {
+      const year = new Date(from * DAY_MS).getUTCFullYear();
+      const to = Math.min(end, yearStart(year + 1));
+      years.set(year, (years.get(year) ?? 0) + to - from);
+      from = to;
+    }
+  });
+  return years;
+};
+
+// The skill names of one experience from the chosen sources, by lowercase name,
+// so a skill named in a column and again as a tag counts once
+const skillsOf = (experience: Experience, columnKeys: string[], includeTags: boolean): Map<string, string> => {
+  const fields = experience.customFields as Record<string, any>;
+  const fromColumns = columnKeys.flatMap(key => Array.isArray(fields[key]) ? fields[key].map(String) : []);
+  const fromTags = includeTags ? (experience.tags ?? []).map(tag => tag.name) : [];
+  const skills = new Map<string, string>();
+  [...fromColumns, ...fromTags]
+    .map(skill => skill.trim())
+    .filter(Boolean)
+    .forEach(skill => {
+      if (!skills.has(skill.toLowerCase())) skills.set(skill.toLowerCase(), skill);
+    });
+  return skills;
+};
+
+/*
+ * The timeline of every skill, longest used first. source limits the skills to
+ * one multi-select column key or TAGS_SOURCE; by default all of them are used.
+ * Case variants of a skill are counted together under their first spelling.
+ */
+export function buildSkillTimeline(
+  experiences: Experience[],
+  columns: Column[],
+  now: Date,
+  source?: string
+): SkillTimeline {
+  const multiSelectKeys = columns
+    .filter(column => column.type === 'dropdown' && column.allowMultiple)
+    .map(column => column.key);
+  const columnKeys = source === undefined ? multiSelectKeys : multiSelectKeys.filter(key => key === source);
+  const includeTags = source === undefined || source === TAGS_SOURCE;
+  const today = dayOf(now.toISOString());
+
+  const bySkill = new Map<string, { skill: string; ranges: [number, number][]; ongoing: boolean; experienceCount: number }>();
+  [...experiences]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.id - b.id)
+    .forEach(experience => {
+      const start = dayOf(experience.startDate);
+      // The end date is the last day worked, so the range stops the day after it
+      const end = experience.endDate ? dayOf(experience.endDate) + 1 : Math.max(today + 1, start);
+      skillsOf(experience, columnKeys, includeTags).forEach((skill, key) => {
+        const entry = bySkill.get(key) ?? { skill, ranges: [], ongoing: false, experienceCount: 0 };
+        if (end > start) {
+          entry.ranges.push([start, end]);
+          entry.ongoing = entry.ongoing || !experience.endDate;
+        }
+        entry.experienceCount++;
+        bySkill.set(key, entry);
+      });
+    });
+
+  const skills: SkillUsage[] = Array.from(bySkill.values())
+    .filter(entry => entry.ranges.length > 0)
+    .map(entry => {
+      const ranges = mergeRanges(entry.ranges);
+      const days = ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+      return {
+        skill: entry.skill,
+        months: monthsOf(days),
+        experienceCount: entry.experienceCount,
+        firstUsed: dateOf(ranges[0][0]),
+        lastUsed: entry.ongoing ? null : dateOf(ranges[ranges.length - 1][1] - 1),
+        byYear: Array.from(daysByYear(ranges).entries())
+          .map(([year, yearDays]) => ({ year, months: monthsOf(yearDays) }))
+          .sort((a, b) => a.year - b.year),
+      };
+    })
+    .sort((a, b) => b.months - a.months || a.skill.localeCompare(b.skill));
+
+  const yearsUsed = skills.flatMap(skill => skill.byYear.map(entry => entry.year));
+  const firstYear = Math.min(...yearsUsed);
+  const lastYear = Math.max(...yearsUsed);
+
+  return {
+    skills,
+    years: yearsUsed.length > 0 ? Array.from({ length: lastYear - firstYear + 1 }, (_, i) => firstYear + i) : [],
+  };
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DatabaseStorage } from "./storage";
+import { executedQueries } from "./test-db";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+/*
+ * Loading a list of experiences fetches every tag in one batched query. These
+ * fail if tags go back to being loaded one experience at a time (N+1 queries).
+ */
+
+const storage = new DatabaseStorage();
+let userCount = 0;
+
+// A user with count experiences, each tagged twice
+async function userWithExperiences(count: number) {
+  const user = await storage.createUser({ username: `lister-${++userCount}`, password: "secret" });
+  const first = await storage.createTag({ userId: user.id, name: "first" });
+  const second = await storage.createTag({ userId: user.id, name: "second" });
+  for (let i = 0; i < count; i++) {
+    await storage.createExperienceWithTags(
+      { userId: user.id, startDate: "2020-01-01", endDate: null, customFields: { client: `Client ${i}` } },
+      [first.id, second.id]
+    );
+  }
+  return user.id;
+}
+
+// How many queries call runs, checking every experience came back with its tags
+async function queriesFor(load: () => Promise<{ tags?: unknown[] }[]>, expectedCount: number) {
+  executedQueries.length = 0;
+  const loaded = await load();
+  expect(loaded).toHaveLength(expectedCount);
+  loaded.forEach(experience => expect(experience.tags).toHaveLength(2));
+  return executedQueries.length;
+}
+
+describe("DatabaseStorage loads tags in one query", () => {
+  let fewUserId: number;
+  let manyUserId: number;
+
+  beforeEach(async () => {
+    fewUserId = await userWithExperiences(2);
+    manyUserId = await userWithExperiences(12);
+  });
+
+  it("for getExperiences", async () => {
+    const few = await queriesFor(() => storage.getExperiences(fewUserId), 2);
+    const many = await queriesFor(() => storage.getExperiences(manyUserId), 12);
+    expect(many).toBe(few);
+    expect(many).toBeLessThanOrEqual(2);
+  });
+
+  it("for searchExperiences", async () => {
+    const few = await queriesFor(() => storage.searchExperiences({ userId: fewUserId, searchTerm: "client" }), 2);
+    const many = await queriesFor(() => storage.searchExperiences({ userId: manyUserId, searchTerm: "client" }), 12);
+    expect(many).toBe(few);
+    expect(many).toBeLessThanOrEqual(2);
+  });
+
+  it("for queryExperiences", async () => {
+    const options = { page: 1, pageSize: 50, sortBy: "startDate", sortDir: "desc" } as const;
+    const few = await queriesFor(async () => (await storage.queryExperiences({ userId: fewUserId }, options)).items, 2);
+    const many = await queriesFor(async () => (await storage.queryExperiences({ userId: manyUserId }, options)).items, 12);
+    expect(many).toBe(few);
+    expect(many).toBeLessThanOrEqual(3);
+  });
+
+  it("for the trash", async () => {
+    for (const experience of await storage.getExperiences(manyUserId)) {
+      await storage.deleteExperience(experience.id, manyUserId);
+    }
+    for (const experience of await storage.getExperiences(fewUserId)) {
+      await storage.deleteExperience(experience.id, fewUserId);
+    }
+    const few = await queriesFor(() => storage.getDeletedExperiences(fewUserId), 2);
+    const many = await queriesFor(() => storage.getDeletedExperiences(manyUserId), 12);
+    expect(many).toBe(few);
+    expect(many).toBeLessThanOrEqual(2);
+  });
+});
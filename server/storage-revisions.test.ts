@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DatabaseStorage, MemStorage, VersionConflictError, type IStorage } from "./storage";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+let userCount = 0;
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s records revisions with the change", (_name, createStorage) => {
+  let storage: IStorage;
+  let userId: number;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    userId = (await storage.createUser({ username: `historian-${++userCount}`, password: "secret" })).id;
+  });
+
+  const actionsOf = async (experienceId: number) =>
+    (await storage.getExperienceRevisions(experienceId, userId)).map(revision => revision.action);
+
+  it("when an experience is created and updated", async () => {
+    const tag = await storage.createTag({ userId, name: "typescript" });
+    const experience = await storage.createExperienceWithTags(
+      { userId, startDate: "2020-01-01", endDate: null, customFields: { client: "Acme" } }, [tag.id], "create"
+    );
+    expect(await actionsOf(experience.id)).toEqual(["create"]);
+
+    await storage.updateExperienceWithTags(experience.id, userId, { customFields: { client: "Globex" } }, undefined, 1, "update");
+    await storage.updateExperienceWithTags(experience.id, userId, {}, [], 2, "tags");
+
+    const [latest] = await storage.getExperienceRevisions(experience.id, userId);
+    expect(latest).toMatchObject({ revision: 3, action: "tags", snapshot: { customFields: { client: "Globex" }, tags: [] } });
+  });
+
+  it("but not when the update is rejected", async () => {
+    const experience = await storage.createExperienceWithTags(
+      { userId, startDate: "2020-01-01", endDate: null, customFields: {} }, [], "create"
+    );
+
+    await expect(storage.updateExperienceWithTags(experience.id, userId, { customFields: { client: "Stale" } }, undefined, 7, "update"))
+      .rejects.toBeInstanceOf(VersionConflictError);
+    expect(await actionsOf(experience.id)).toEqual(["create"]);
+  });
+
+  it("but not when the update changes nothing", async () => {
+    const tag = await storage.createTag({ userId, name: "typescript" });
+    const experience = await storage.createExperienceWithTags(
+      { userId, startDate: "2020-01-01", endDate: null, customFields: { client: "Acme" } }, [tag.id], "create"
+    );
+
+    await storage.updateExperienceWithTags(experience.id, userId, {}, undefined, 1, "tags");
+    await storage.updateExperienceWithTags(experience.id, userId, { customFields: { client: "Acme" } }, [tag.id], undefined, "update");
+    expect(await actionsOf(experience.id)).toEqual(["create"]);
+  });
+
+  it("when a column edit rewrites stored values", async () => {
+    const column = await storage.createColumn({
+      userId, name: "Level", key: "level", type: "dropdown", dropdownOptions: ["Junior", "Senior"], order: 100,
+    });
+    const junior = await storage.createExperienceWithTags(
+      { userId, startDate: "2020-01-01", endDate: null, customFields: { level: "Junior" } }, [], "create"
+    );
+    const senior = await storage.createExperienceWithTags(
+      { userId, startDate: "2021-01-01", endDate: null, customFields: { level: "Senior" } }, [], "create"
+    );
+
+    await storage.updateColumn(column.id, userId, { key: "seniority" });
+    await storage.updateColumn(column.id, userId, { dropdownOptions: ["Mid", "Senior"] }, { renames: { Junior: "Mid" }, removedValues: "keep" });
+    const [renamed] = await storage.getExperienceRevisions(junior.id, userId);
+    expect(renamed).toMatchObject({ revision: 3, action: "column", snapshot: { customFields: { seniority: "Mid" } } });
+    expect(await actionsOf(senior.id)).toEqual(["column", "create"]);
+
+    expect(await storage.purgeFieldKey(userId, "seniority")).toBe(2);
+    const [purged] = await storage.getExperienceRevisions(senior.id, userId);
+    expect(purged).toMatchObject({ revision: 3, action: "column", snapshot: { customFields: {} } });
+  });
+
+  it("when a tag the experience carried is deleted", async () => {
+    const tag = await storage.createTag({ userId, name: "typescript" });
+    const experience = await storage.createExperienceWithTags(
+      { userId, startDate: "2020-01-01", endDate: null, customFields: {} }, [tag.id], "create"
+    );
+
+    expect(await storage.deleteTag(tag.id, userId)).toBe(true);
+
+    const [latest] = await storage.getExperienceRevisions(experience.id, userId);
+    expect(latest).toMatchObject({ revision: 2, action: "tags", snapshot: { tags: [] } });
+  });
+
+  it("for every imported experience", async () => {
+    const { experiences } = await storage.importExperiences(userId, [], [], [
+      { startDate: "2020-01-01", endDate: null, customFields: { client: "Acme" }, tags: ["backend"] },
+      { startDate: "2021-01-01", endDate: null, customFields: { client: "Globex" }, tags: [] },
+    ]);
+
+    for (const experience of experiences) {
+      const revisions = await storage.getExperienceRevisions(experience.id, userId);
+      const tags = (experience.tags ?? []).map(({ id, name }) => ({ id, name }));
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({ revision: 1, action: "create", snapshot: { tags } });
+    }
+  });
+
+  it("for every restored archive experience outside the trash", async () => {
+    await storage.createExperienceWithTags({ userId, startDate: "2020-01-01", endDate: null, customFields: {} }, []);
+    const trashed = await storage.createExperienceWithTags({ userId, startDate: "2021-01-01", endDate: null, customFields: {} }, []);
+    await storage.deleteExperience(trashed.id, userId);
+    const archive = await storage.exportArchive(userId);
+
+    await storage.importArchive(userId, archive, "replace");
+
+    const [restored] = await storage.getExperiences(userId);
+    expect(await actionsOf(restored.id)).toEqual(["create"]);
+    const [restoredTrash] = await storage.getDeletedExperiences(userId);
+    expect(await actionsOf(restoredTrash.id)).toEqual([]);
+  });
+});
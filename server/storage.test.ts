@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+
+let userCount = 0;
+
+// Two users with one column, tag and tagged experience each, named alike
+async function twoUsers(storage: IStorage) {
+  const setUp = async () => {
+    const user = await storage.createUser({ username: `user-${++userCount}`, password: "secret" });
+    const column = await storage.createColumn({
+      userId: user.id, name: "Sponsor", key: "sponsor", type: "short-text", order: 100,
+    });
+    const tag = await storage.createTag({ userId: user.id, name: "typescript" });
+    const experience = await storage.createExperienceWithTags(
+      { userId: user.id, startDate: "2020-01-01", endDate: null, customFields: { sponsor: `Sponsor of ${user.username}` } },
+      [tag.id]
+    );
+    return { user, column, tag, experience };
+  };
+  return { owner: await setUp(), other: await setUp() };
+}
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s keeps users apart", (_name, createStorage) => {
+  let storage: IStorage;
+  let owner: Awaited<ReturnType<typeof twoUsers>>["owner"];
+  let other: Awaited<ReturnType<typeof twoUsers>>["other"];
+
+  beforeEach(async () => {
+    storage = createStorage();
+    ({ owner, other } = await twoUsers(storage));
+  });
+
+  describe("columns", () => {
+    it("are not visible to another user", async () => {
+      expect(await storage.getColumn(owner.column.id, other.user.id)).toBeUndefined();
+      expect((await storage.getColumns(other.user.id)).map(column => column.id)).not.toContain(owner.column.id);
+    });
+
+    it("cannot be edited, archived or deleted by another user", async () => {
+      expect(await storage.updateColumn(owner.column.id, other.user.id, { name: "Hijacked" })).toBeUndefined();
+      expect(await storage.archiveColumn(owner.column.id, other.user.id)).toBeUndefined();
+      expect(await storage.deleteColumn(owner.column.id, other.user.id)).toBe(false);
+      expect(await storage.getColumn(owner.column.id, owner.user.id)).toMatchObject({ name: "Sponsor", archivedAt: null });
+    });
+
+    it("leave another user's unclaimed field keys out of the orphans", async () => {
+      await storage.deleteColumn(owner.column.id, owner.user.id, { keepValues: true });
+      expect(await storage.getOrphanedFieldKeys(owner.user.id)).toEqual([{ key: "sponsor", experienceCount: 1 }]);
+      expect(await storage.getOrphanedFieldKeys(other.user.id)).toEqual([]);
+    });
+
+    it("keep the same key apart per user", async () => {
+      expect((await storage.getColumnByKey("sponsor", owner.user.id))?.id).toBe(owner.column.id);
+      expect((await storage.getColumnByKey("sponsor", other.user.id))?.id).toBe(other.column.id);
+    });
+  });
+
+  describe("experiences", () => {
+    it("are not visible to another user", async () => {
+      expect(await storage.getExperience(owner.experience.id, other.user.id)).toBeUndefined();
+      expect((await storage.getExperiences(other.user.id)).map(experience => experience.id))
+        .toEqual([other.experience.id]);
+    });
+
+    it("cannot be edited or deleted by another user", async () => {
+      expect(await storage.updateExperience(owner.experience.id, other.user.id, { customFields: {} })).toBeUndefined();
+      expect(await storage.updateExperienceWithTags(owner.experience.id, other.user.id, { customFields: {} }, [])).toBeUndefined();
+      expect(await storage.deleteExperience(owner.experience.id, other.user.id)).toBe(false);
+      expect(await storage.getExperience(owner.experience.id, owner.user.id))
+        .toMatchObject({ customFields: { sponsor: `Sponsor of ${owner.user.username}` } });
+    });
+
+    it("cannot be restored or purged from another user's trash", async () => {
+      await storage.deleteExperience(owner.experience.id, owner.user.id);
+      expect(await storage.restoreExperience(owner.experience.id, other.user.id)).toBeUndefined();
+      expect(await storage.purgeExperience(owner.experience.id, other.user.id)).toBe(false);
+      expect(await storage.getDeletedExperiences(other.user.id)).toEqual([]);
+      expect(await storage.purgeDeletedExperiences(new Date(Date.now() + 60000), other.user.id)).toBe(0);
+      expect((await storage.getDeletedExperiences(owner.user.id)).map(experience => experience.id))
+        .toEqual([owner.experience.id]);
+    });
+
+    it("are not found by another user's search", async () => {
+      const found = await storage.searchExperiences({ userId: other.user.id, searchTerm: "Sponsor of" });
+      expect(found.map(experience => experience.id)).toEqual([other.experience.id]);
+    });
+  });
+
+  describe("tags", () => {
+    it("are not visible to another user", async () => {
+      expect(await storage.getTag(owner.tag.id, other.user.id)).toBeUndefined();
+      expect((await storage.getTags(other.user.id)).map(tag => tag.id)).toEqual([other.tag.id]);
+    });
+
+    it("cannot be deleted by another user", async () => {
+      expect(await storage.deleteTag(owner.tag.id, other.user.id)).toBe(false);
+      expect(await storage.getTag(owner.tag.id, owner.user.id)).toBeDefined();
+    });
+
+    it("can share a name across users", async () => {
+      expect((await storage.getTagByName("typescript", owner.user.id))?.id).toBe(owner.tag.id);
+      expect((await storage.getTagByName("typescript", other.user.id))?.id).toBe(other.tag.id);
+    });
+  });
+
+  describe("tag links", () => {
+    it("are not visible to another user", async () => {
+      expect(await storage.getExperienceTags(owner.experience.id, other.user.id)).toEqual([]);
+    });
+
+    it("cannot link another user's tag or experience", async () => {
+      expect(await storage.addTagToExperience(owner.experience.id, other.tag.id, other.user.id)).toBeUndefined();
+      expect(await storage.addTagToExperience(owner.experience.id, other.tag.id, owner.user.id)).toBeUndefined();
+      expect(await storage.addTagToExperience(other.experience.id, owner.tag.id, other.user.id)).toBeUndefined();
+      expect((await storage.getExperienceTags(owner.experience.id, owner.user.id)).map(tag => tag.id))
+        .toEqual([owner.tag.id]);
+    });
+
+    it("cannot be removed or replaced by another user", async () => {
+      expect(await storage.removeTagFromExperience(owner.experience.id, owner.tag.id, other.user.id)).toBe(false);
+      expect(await storage.replaceExperienceTags(owner.experience.id, [other.tag.id], other.user.id)).toBeUndefined();
+      expect((await storage.getExperienceTags(owner.experience.id, owner.user.id)).map(tag => tag.id))
+        .toEqual([owner.tag.id]);
+    });
+
+    it("ignore another user's tags when tags are replaced", async () => {
+      const tags = await storage.replaceExperienceTags(owner.experience.id, [owner.tag.id, other.tag.id], owner.user.id);
+      expect(tags?.map(tag => tag.id)).toEqual([owner.tag.id]);
+    });
+  });
+});
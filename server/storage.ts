@@ -1,54 +1,217 @@
 import { 
   users, type User, type InsertUser,
-  columns, type Column, type InsertColumn,
-  experiences, type Experience, type InsertExperience,
+  columns, type Column, type InsertColumn, type ColumnKeyRenamePreview, type DropdownOptionChanges, type OrphanedFieldKey,
+  experiences, type Experience, type ExperienceInput, type ExperiencePage, type ExperiencePageOptions,
   tags, type Tag, type InsertTag,
-  experienceTags, type ExperienceTag, type InsertExperienceTag
+  experienceTags, type ExperienceTag, type InsertExperienceTag,
+  experienceRevisions, type ExperienceRevision, type RevisionAction,
+  resumes, type Resume, type InsertResume, type ResumeFormData,
+  questions, questionExperiences, type Question, type InsertQuestion, type QuestionExperience, type QuestionFormData,
+  practiceSchedules, practiceReviews, type PracticeSchedule, type PracticeReview, type InsertPracticeReview,
+  type PracticeScheduleState,
+  type AccountArchive, type ArchiveImportMode, type ArchiveImportResult, type DropdownOptionAddition
 } from "@shared/schema";
 import { db } from "./db";
-import { and, asc, desc, eq, gte, ilike, inArray, lte, or, sql } from "drizzle-orm";
+import { defaultColumns } from "./default-columns";
+import { remapDropdownValue } from "./dropdown-options";
+import { sameSnapshot, snapshotExperience } from "./experience-revisions";
+import { buildArchive, importResult, planArchiveImport, type AccountContents } from "./account-archive";
+import { findTag, missingTagNames } from "./experience-import";
+import {
+  buildSearchConditions, buildSortOrder, compareExperiences, matchesSearchFilters,
+  type ExperienceSearchParams
+} from "./experience-search";
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, notInArray, or, sql } from "drizzle-orm";
+
+// Thrown when an update names a version the row has already moved past. current
+// is the row as it is now, so the caller can show it instead of overwriting it.
+export class VersionConflictError<T> extends Error {
+  constructor(readonly current: T) {
+    super("This item was changed by someone else since you loaded it");
+  }
+}
+
+// Thrown when a write would give a user two columns with the same key
+export class DuplicateColumnKeyError extends Error {
+  constructor(readonly key: string) {
+    super(`A column with the key "${key}" already exists`);
+  }
+}
+
+// The first key that more than one of the columns uses, if any
+export function duplicateColumnKey(columnSet: { key: string }[]): string | undefined {
+  const keys = columnSet.map(column => column.key);
+  return keys.find((key, index) => keys.indexOf(key) !== index);
+}
 
 export interface IStorage {
   // User methods (from original file)
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Creates the user together with their default column set
   createUser(user: InsertUser): Promise<User>;
 
-  // Column methods
+  // Column methods. Every lookup and write is scoped to the owning user, so a
+  // row belonging to someone else behaves exactly like a missing row.
+  // getColumns lists active columns only; the single-column lookups include archived ones.
   getColumns(userId: number): Promise<Column[]>;
-  getColumn(id: number): Promise<Column | undefined>;
-  getColumnByKey(key: string): Promise<Column | undefined>;
+  getArchivedColumns(userId: number): Promise<Column[]>;
+  getColumn(id: number, userId: number): Promise<Column | undefined>;
+  getColumnByKey(key: string, userId: number): Promise<Column | undefined>;
   createColumn(column: InsertColumn): Promise<Column>;
-  updateColumn(id: number, column: Partial<InsertColumn>): Promise<Column | undefined>;
-  deleteColumn(id: number): Promise<boolean>;
-
-  // Experience methods
+  // Changing the key also moves every experience's value to the new key, and
+  // optionChanges rewrites stored dropdown values, in the same transaction.
+  // With expectedVersion set, throws VersionConflictError if the column has moved on.
+  updateColumn(
+    id: number,
+    userId: number,
+    column: Partial<Omit<InsertColumn, 'userId'>>,
+    optionChanges?: DropdownOptionChanges,
+    expectedVersion?: number
+  ): Promise<Column | undefined>;
+  previewColumnKeyRename(id: number, userId: number, newKey: string): Promise<ColumnKeyRenamePreview | undefined>;
+  // Archiving hides a column but keeps its stored values so it can be restored
+  archiveColumn(id: number, userId: number): Promise<Column | undefined>;
+  restoreColumn(id: number, userId: number): Promise<Column | undefined>;
+  // Removes the column and strips its key from every experience, unless keepValues
+  // is set, in which case the values are left behind as orphaned keys
+  deleteColumn(id: number, userId: number, options?: { keepValues?: boolean }): Promise<boolean>;
+  // Swaps all of the user's columns, archived ones included, for the given set
+  // in one transaction. Stored values are kept, so columns with the same keys
+  // pick them up again.
+  replaceColumns(userId: number, columns: Omit<InsertColumn, 'userId'>[]): Promise<Column[]>;
+  // customFields keys that no column claims, with how many experiences store each
+  getOrphanedFieldKeys(userId: number): Promise<OrphanedFieldKey[]>;
+  // Strips a key from every experience; returns how many experiences changed
+  purgeFieldKey(userId: number, key: string): Promise<number>;
+  resetColumnsToDefaults(userId: number): Promise<Column[]>;
+
+  // Experience methods (scoped to the owning user like columns). Experiences in
+  // the trash are invisible to everything except the trash methods below.
   getExperiences(userId: number): Promise<Experience[]>;
-  getExperience(id: number): Promise<Experience | undefined>;
-  createExperience(experience: InsertExperience): Promise<Experience>;
-  updateExperience(id: number, experience: Partial<InsertExperience>): Promise<Experience | undefined>;
-  deleteExperience(id: number): Promise<boolean>;
-
-  // Tag methods
-  getTags(): Promise<Tag[]>;
-  getTag(id: number): Promise<Tag | undefined>;
-  getTagByName(name: string): Promise<Tag | undefined>;
+  getExperience(id: number, userId: number): Promise<Experience | undefined>;
+  createExperience(experience: ExperienceInput): Promise<Experience>;
+  updateExperience(id: number, userId: number, experience: Partial<Omit<ExperienceInput, 'userId'>>): Promise<Experience | undefined>;
+  // Create or update an experience together with its tag set in one transaction.
+  // Tag ids the user doesn't own are ignored; tagIds undefined leaves tags as they are.
+  // With expectedVersion set, throws VersionConflictError if the experience has moved on.
+  // With revision set, the change is recorded as a revision in the same transaction.
+  createExperienceWithTags(experience: ExperienceInput, tagIds: number[], revision?: RevisionAction): Promise<Experience>;
+  updateExperienceWithTags(
+    id: number,
+    userId: number,
+    experience: Partial<Omit<ExperienceInput, 'userId'>>,
+    tagIds?: number[],
+    expectedVersion?: number,
+    revision?: RevisionAction
+  ): Promise<Experience | undefined>;
+  // Moves the experience to the trash
+  deleteExperience(id: number, userId: number): Promise<boolean>;
+
+  // Trash methods
+  getDeletedExperiences(userId: number): Promise<Experience[]>;
+  restoreExperience(id: number, userId: number): Promise<Experience | undefined>;
+  // Permanently deletes one experience that is already in the trash
+  purgeExperience(id: number, userId: number): Promise<boolean>;
+  // Permanently deletes trashed experiences deleted before the cutoff, for one
+  // user or for everyone; returns how many were removed
+  purgeDeletedExperiences(deletedBefore: Date, userId?: number): Promise<number>;
+
+  // Tag methods (tags are owned by a single user)
+  getTags(userId: number): Promise<Tag[]>;
+  getTag(id: number, userId: number): Promise<Tag | undefined>;
+  getTagByName(name: string, userId: number): Promise<Tag | undefined>;
   createTag(tag: InsertTag): Promise<Tag>;
-  deleteTag(id: number): Promise<boolean>;
-
-  // Experience-Tag methods
-  getExperienceTags(experienceId: number): Promise<Tag[]>;
-  addTagToExperience(experienceId: number, tagId: number): Promise<ExperienceTag>;
-  removeTagFromExperience(experienceId: number, tagId: number): Promise<boolean>;
+  // Also records a "tags" revision for every experience that carried the tag
+  deleteTag(id: number, userId: number): Promise<boolean>;
+
+  // Experience-Tag methods. Both the experience and the tag must belong to userId.
+  getExperienceTags(experienceId: number, userId: number): Promise<Tag[]>;
+  addTagToExperience(experienceId: number, tagId: number, userId: number): Promise<ExperienceTag | undefined>;
+  removeTagFromExperience(experienceId: number, tagId: number, userId: number): Promise<boolean>;
+  // Makes the owned tags among tagIds the experience's complete tag set, atomically
+  replaceExperienceTags(experienceId: number, tagIds: number[], userId: number): Promise<Tag[] | undefined>;
+
+  // Revision methods. recordExperienceRevision snapshots the experience as it is
+  // now; when nothing changed since the latest revision it returns that one instead.
+  recordExperienceRevision(experienceId: number, userId: number, action: RevisionAction): Promise<ExperienceRevision | undefined>;
+  // Newest first
+  getExperienceRevisions(experienceId: number, userId: number): Promise<ExperienceRevision[]>;
+  getExperienceRevision(experienceId: number, revision: number, userId: number): Promise<ExperienceRevision | undefined>;
 
   // Search methods
-  searchExperiences(params: { 
-    startDate?: Date; 
-    endDate?: Date; 
-    tagIds?: number[];
-    searchTerm?: string;
-    userId: number;
-  }): Promise<Experience[]>;
+  searchExperiences(params: ExperienceSearchParams): Promise<Experience[]>;
+  // One sorted page of the matching experiences plus the total match count
+  queryExperiences(params: ExperienceSearchParams, options: ExperiencePageOptions): Promise<ExperiencePage>;
+
+  // Backup methods. The archive covers archived columns and trashed experiences too;
+  // importArchive applies it in one transaction and reports what a merge skipped.
+  exportArchive(userId: number): Promise<AccountArchive>;
+  importArchive(userId: number, archive: AccountArchive, mode: ArchiveImportMode): Promise<ArchiveImportResult>;
+  // Spreadsheet import: creates the new columns, adds options to existing dropdown
+  // columns, creates missing tags (matched without case) and the experiences, all
+  // in one transaction
+  importExperiences(
+    userId: number,
+    columns: Omit<InsertColumn, 'userId'>[],
+    addedOptions: DropdownOptionAddition[],
+    experiences: ImportedExperienceInput[]
+  ): Promise<{ columns: Column[]; tags: Tag[]; experiences: Experience[] }>;
+
+  // Resume methods (scoped to the owning user); lists are most recently updated first
+  getResumes(userId: number): Promise<Resume[]>;
+  getResume(id: number, userId: number): Promise<Resume | undefined>;
+  createResume(resume: InsertResume): Promise<Resume>;
+  updateResume(id: number, userId: number, resume: Partial<ResumeFormData>): Promise<Resume | undefined>;
+  deleteResume(id: number, userId: number): Promise<boolean>;
+
+  // Question methods (scoped to the owning user); lists are most recently updated
+  // first. experienceIds replaces the linked experiences; ids of experiences the
+  // user doesn't own are ignored, and undefined leaves the links as they are.
+  getQuestions(userId: number): Promise<Question[]>;
+  getQuestion(id: number, userId: number): Promise<Question | undefined>;
+  createQuestion(question: InsertQuestion): Promise<Question>;
+  updateQuestion(id: number, userId: number, question: Partial<QuestionFormData>): Promise<Question | undefined>;
+  deleteQuestion(id: number, userId: number): Promise<boolean>;
+
+  // Practice methods. recordPracticeReview logs one attempt at an experience and
+  // replaces its schedule with what schedule computes from the current one, in
+  // one transaction; undefined when the experience isn't the user's or is in the trash.
+  getPracticeSchedules(userId: number): Promise<PracticeSchedule[]>;
+  // The UTC days (YYYY-MM-DD) with at least one attempt, newest first
+  getPracticeReviewDays(userId: number): Promise<string[]>;
+  recordPracticeReview(
+    review: InsertPracticeReview,
+    schedule: (current: PracticeSchedule | undefined) => PracticeScheduleState
+  ): Promise<PracticeSchedule | undefined>;
+}
+
+// An experience to import, with its tags by name
+export type ImportedExperienceInput = Omit<ExperienceInput, 'userId'> & { tags: string[] };
+
+// Rows per insert statement when importing experiences from a spreadsheet
+const IMPORT_BATCH_SIZE = 500;
+
+// Format a Date (or pass through an existing YYYY-MM-DD string) for a date column
+function toDateString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().split('T')[0] : value;
+}
+
+// The columns an experience update writes, with dates formatted; endDate null clears it
+function toExperienceUpdate(experienceData: Partial<Omit<ExperienceInput, 'userId'>>): Partial<Pick<Experience, 'startDate' | 'endDate' | 'customFields'>> {
+  const updateData: Partial<Pick<Experience, 'startDate' | 'endDate' | 'customFields'>> = {};
+
+  if (experienceData.customFields) {
+    updateData.customFields = experienceData.customFields;
+  }
+  if (experienceData.startDate) {
+    updateData.startDate = toDateString(experienceData.startDate);
+  }
+  if (experienceData.endDate !== undefined) {
+    updateData.endDate = experienceData.endDate ? toDateString(experienceData.endDate) : null;
+  }
+
+  return updateData;
 }
 
 export class MemStorage implements IStorage {
@@ -57,11 +220,23 @@ export class MemStorage implements IStorage {
   private experiences: Map<number, Experience>;
   private tags: Map<number, Tag>;
   private experienceTags: Map<number, ExperienceTag>;
+  private experienceRevisions: Map<number, ExperienceRevision>;
+  private resumes: Map<number, Resume>;
+  private questions: Map<number, Omit<Question, 'experienceIds'>>;
+  private questionExperiences: Map<number, QuestionExperience>;
+  private practiceSchedules: Map<number, PracticeSchedule>;
+  private practiceReviews: Map<number, PracticeReview>;
   private userCurrentId: number;
   private columnCurrentId: number;
   private experienceCurrentId: number;
   private tagCurrentId: number;
   private experienceTagCurrentId: number;
+  private experienceRevisionCurrentId: number;
+  private resumeCurrentId: number;
+  private questionCurrentId: number;
+  private questionExperienceCurrentId: number;
+  private practiceScheduleCurrentId: number;
+  private practiceReviewCurrentId: number;
 
   constructor() {
     this.users = new Map();
@@ -69,30 +244,24 @@ export class MemStorage implements IStorage {
     this.experiences = new Map();
     this.tags = new Map();
     this.experienceTags = new Map();
+    this.experienceRevisions = new Map();
+    this.resumes = new Map();
+    this.questions = new Map();
+    this.questionExperiences = new Map();
+    this.practiceSchedules = new Map();
+    this.practiceReviews = new Map();
 
     this.userCurrentId = 1;
     this.columnCurrentId = 1;
     this.experienceCurrentId = 1;
     this.tagCurrentId = 1;
     this.experienceTagCurrentId = 1;
-
-    // Initialize with default columns
-    this.initializeDefaultColumns();
-  }
-
-  private initializeDefaultColumns() {
-    const defaultColumns: InsertColumn[] = [
-      { name: "Start Date", key: "startDate", type: "date", order: 1, isVisible: true },
-      { name: "End Date", key: "endDate", type: "date", order: 2, isVisible: true },
-      { name: "Client", key: "client", type: "short-text", order: 3, isVisible: true },
-      { name: "Project", key: "project", type: "short-text", order: 4, isVisible: true },
-      { name: "Skills", key: "skills", type: "dropdown", dropdownOptions: ["React", "TypeScript", "Next.js", "MongoDB", "Python"], allowMultiple: true, order: 5, isVisible: true },
-      { name: "Notes", key: "notes", type: "long-text", order: 6, isVisible: true },
-    ];
-
-    defaultColumns.forEach(column => {
-      this.createColumn(column);
-    });
+    this.experienceRevisionCurrentId = 1;
+    this.resumeCurrentId = 1;
+    this.questionCurrentId = 1;
+    this.questionExperienceCurrentId = 1;
+    this.practiceScheduleCurrentId = 1;
+    this.practiceReviewCurrentId = 1;
   }
 
   // User methods (from original file)
@@ -110,83 +279,247 @@ export class MemStorage implements IStorage {
     const id = this.userCurrentId++;
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
+    await this.resetColumnsToDefaults(id);
     return user;
   }
 
   // Column methods
   async getColumns(userId: number): Promise<Column[]> {
-    return Array.from(this.columns.values()).filter(c => c.userId === userId).sort((a, b) => a.order - b.order);
+    return Array.from(this.columns.values()).filter(c => c.userId === userId && !c.archivedAt).sort((a, b) => a.order - b.order);
   }
 
-  async getColumn(id: number): Promise<Column | undefined> {
-    return this.columns.get(id);
+  async getArchivedColumns(userId: number): Promise<Column[]> {
+    return Array.from(this.columns.values()).filter(c => c.userId === userId && c.archivedAt).sort((a, b) => a.order - b.order);
   }
 
-  async getColumnByKey(key: string): Promise<Column | undefined> {
-    return Array.from(this.columns.values()).find(column => column.key === key);
+  async getColumn(id: number, userId: number): Promise<Column | undefined> {
+    const column = this.columns.get(id);
+    return column && column.userId === userId ? column : undefined;
+  }
+
+  async getColumnByKey(key: string, userId: number): Promise<Column | undefined> {
+    return Array.from(this.columns.values()).find(column => column.userId === userId && column.key === key);
   }
 
   async createColumn(insertColumn: InsertColumn): Promise<Column> {
+    if (await this.getColumnByKey(insertColumn.key, insertColumn.userId)) {
+      throw new DuplicateColumnKeyError(insertColumn.key);
+    }
     const id = this.columnCurrentId++;
     // If order is not provided, set it to the last position
     if (!insertColumn.order) {
       const columns = await this.getColumns(insertColumn.userId);
       insertColumn.order = columns.length > 0 ? Math.max(...columns.map(c => c.order)) + 1 : 1;
     }
-    const column: Column = { ...insertColumn, id };
+    const column: Column = {
+      ...insertColumn,
+      id,
+      dropdownOptions: insertColumn.dropdownOptions || null,
+      allowMultiple: insertColumn.allowMultiple || null,
+      isVisible: insertColumn.isVisible !== undefined ? insertColumn.isVisible : true,
+      archivedAt: null,
+      version: 1
+    };
     this.columns.set(id, column);
     return column;
   }
 
-  async updateColumn(id: number, columnData: Partial<InsertColumn>): Promise<Column | undefined> {
-    const column = this.columns.get(id);
+  async updateColumn(
+    id: number,
+    userId: number,
+    columnData: Partial<Omit<InsertColumn, 'userId'>>,
+    optionChanges?: DropdownOptionChanges,
+    expectedVersion?: number
+  ): Promise<Column | undefined> {
+    const column = await this.getColumn(id, userId);
     if (!column) return undefined;
+    if (expectedVersion !== undefined && column.version !== expectedVersion) {
+      throw new VersionConflictError(column);
+    }
+    if (columnData.key !== undefined && columnData.key !== column.key && await this.getColumnByKey(columnData.key, userId)) {
+      throw new DuplicateColumnKeyError(columnData.key);
+    }
 
-    const updatedColumn: Column = { ...column, ...columnData };
+    const updatedColumn: Column = { ...column, ...columnData, userId: column.userId, version: column.version + 1 };
     this.columns.set(id, updatedColumn);
+
+    const userExperiences = Array.from(this.experiences.values()).filter(exp => exp.userId === userId);
+    const changed = new Set<number>();
+
+    if (columnData.key !== undefined && columnData.key !== column.key) {
+      userExperiences.forEach(exp => {
+        const { [column.key]: value, ...rest } = exp.customFields as Record<string, any>;
+        if (value !== undefined) {
+          exp.customFields = { ...rest, [columnData.key!]: value };
+          exp.version++;
+          changed.add(exp.id);
+        }
+      });
+    }
+
+    if (optionChanges) {
+      userExperiences.forEach(exp => {
+        const { [updatedColumn.key]: value, ...rest } = exp.customFields as Record<string, any>;
+        if (value === undefined) return;
+        const remapped = remapDropdownValue(value, column.dropdownOptions || [], updatedColumn.dropdownOptions || [], optionChanges);
+        if (JSON.stringify(remapped) === JSON.stringify(value)) return;
+        exp.customFields = remapped === undefined ? rest : { ...rest, [updatedColumn.key]: remapped };
+        exp.version++;
+        changed.add(exp.id);
+      });
+    }
+
+    for (const experienceId of Array.from(changed)) {
+      await this.recordExperienceRevision(experienceId, userId, "column");
+    }
     return updatedColumn;
   }
 
-  async deleteColumn(id: number): Promise<boolean> {
-    return this.columns.delete(id);
+  async previewColumnKeyRename(id: number, userId: number, newKey: string): Promise<ColumnKeyRenamePreview | undefined> {
+    const column = await this.getColumn(id, userId);
+    if (!column) return undefined;
+
+    const withOldKey = Array.from(this.experiences.values())
+      .filter(exp => exp.userId === userId && column.key in (exp.customFields as Record<string, any>));
+
+    return {
+      oldKey: column.key,
+      newKey,
+      affected: withOldKey.length,
+      overwritten: withOldKey.filter(exp => newKey in (exp.customFields as Record<string, any>)).length,
+    };
+  }
+
+  async archiveColumn(id: number, userId: number): Promise<Column | undefined> {
+    const column = await this.getColumn(id, userId);
+    if (!column) return undefined;
+
+    const archivedColumn: Column = { ...column, archivedAt: column.archivedAt ?? new Date(), version: column.version + 1 };
+    this.columns.set(id, archivedColumn);
+    return archivedColumn;
+  }
+
+  async restoreColumn(id: number, userId: number): Promise<Column | undefined> {
+    const column = await this.getColumn(id, userId);
+    if (!column) return undefined;
+
+    const restoredColumn: Column = { ...column, archivedAt: null, version: column.version + 1 };
+    this.columns.set(id, restoredColumn);
+    return restoredColumn;
+  }
+
+  async deleteColumn(id: number, userId: number, options: { keepValues?: boolean } = {}): Promise<boolean> {
+    const column = await this.getColumn(id, userId);
+    if (!column) return false;
+
+    this.columns.delete(id);
+    if (!options.keepValues) {
+      await this.purgeFieldKey(userId, column.key);
+    }
+    return true;
+  }
+
+  async getOrphanedFieldKeys(userId: number): Promise<OrphanedFieldKey[]> {
+    const claimedKeys = new Set(Array.from(this.columns.values()).filter(c => c.userId === userId).map(c => c.key));
+    const counts = new Map<string, number>();
+
+    Array.from(this.experiences.values())
+      .filter(exp => exp.userId === userId)
+      .forEach(exp => {
+        Object.keys(exp.customFields as Record<string, any>)
+          .filter(key => !claimedKeys.has(key))
+          .forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+      });
+
+    return Array.from(counts.entries())
+      .map(([key, experienceCount]) => ({ key, experienceCount }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async purgeFieldKey(userId: number, key: string): Promise<number> {
+    const changed = Array.from(this.experiences.values())
+      .filter(exp => exp.userId === userId && key in (exp.customFields as Record<string, any>));
+    for (const exp of changed) {
+      const { [key]: _, ...rest } = exp.customFields as Record<string, any>;
+      exp.customFields = rest;
+      exp.version++;
+      await this.recordExperienceRevision(exp.id, userId, "column");
+    }
+    return changed.length;
+  }
+
+  async replaceColumns(userId: number, newColumns: Omit<InsertColumn, 'userId'>[]): Promise<Column[]> {
+    // Checked up front so a bad set leaves the current columns alone
+    const duplicate = duplicateColumnKey(newColumns);
+    if (duplicate !== undefined) throw new DuplicateColumnKeyError(duplicate);
+
+    const existingColumns = Array.from(this.columns.values()).filter(c => c.userId === userId);
+    existingColumns.forEach(column => this.columns.delete(column.id));
+
+    for (const column of newColumns) {
+      await this.createColumn({ ...column, userId });
+    }
+
+    return this.getColumns(userId);
+  }
+
+  async resetColumnsToDefaults(userId: number): Promise<Column[]> {
+    const existingColumns = Array.from(this.columns.values()).filter(c => c.userId === userId);
+    existingColumns.forEach(column => this.columns.delete(column.id));
+
+    for (const column of defaultColumns) {
+      await this.createColumn({ ...column, userId });
+    }
+
+    return this.getColumns(userId);
   }
 
   // Experience methods
   async getExperiences(userId: number): Promise<Experience[]> {
-    const experiences = Array.from(this.experiences.values()).filter(exp => exp.userId === userId);
+    const experiences = Array.from(this.experiences.values()).filter(exp => exp.userId === userId && !exp.deletedAt);
 
     // Attach tags to each experience
     for (const experience of experiences) {
-      experience.tags = await this.getExperienceTags(experience.id);
+      experience.tags = await this.getExperienceTags(experience.id, userId);
     }
 
     return experiences;
   }
 
-  async getExperience(id: number): Promise<Experience | undefined> {
+  async getExperience(id: number, userId: number): Promise<Experience | undefined> {
     const experience = this.experiences.get(id);
-    if (!experience) return undefined;
+    if (!experience || experience.userId !== userId || experience.deletedAt) return undefined;
 
     // Attach tags
-    experience.tags = await this.getExperienceTags(id);
+    experience.tags = await this.getExperienceTags(id, userId);
 
     return experience;
   }
 
-  async createExperience(insertExperience: InsertExperience): Promise<Experience> {
+  async createExperience(insertExperience: ExperienceInput): Promise<Experience> {
     const id = this.experienceCurrentId++;
-    const experience: Experience = { ...insertExperience, id };
+    const experience: Experience = {
+      id,
+      userId: insertExperience.userId,
+      startDate: toDateString(insertExperience.startDate),
+      endDate: insertExperience.endDate ? toDateString(insertExperience.endDate) : null,
+      customFields: insertExperience.customFields,
+      deletedAt: null,
+      version: 1,
+      tags: [],
+    };
     this.experiences.set(id, experience);
     return experience;
   }
 
-  async updateExperience(id: number, experienceData: Partial<InsertExperience>): Promise<Experience | undefined> {
-    const experience = await this.getExperience(id);
+  async updateExperience(id: number, userId: number, experienceData: Partial<Omit<ExperienceInput, 'userId'>>): Promise<Experience | undefined> {
+    const experience = await this.getExperience(id, userId);
     if (!experience) return undefined;
 
     const updatedExperience: Experience = { 
       ...experience, 
-      ...experienceData,
+      ...toExperienceUpdate(experienceData),
+      version: experience.version + 1,
       // Preserve tags
       tags: experience.tags 
     };
@@ -195,33 +528,126 @@ export class MemStorage implements IStorage {
     return updatedExperience;
   }
 
-  async deleteExperience(id: number): Promise<boolean> {
-    // Delete related experience-tag relations
-    const experienceTagIds = Array.from(this.experienceTags.values())
-      .filter(et => et.experienceId === id)
-      .map(et => et.id);
+  async createExperienceWithTags(insertExperience: ExperienceInput, tagIds: number[], revision?: RevisionAction): Promise<Experience> {
+    const ownedTagIds = await this.ownedTagIds(tagIds, insertExperience.userId);
+    const experience = await this.createExperience(insertExperience);
+    this.setTagLinks(experience.id, ownedTagIds);
+    if (revision) await this.recordExperienceRevision(experience.id, insertExperience.userId, revision);
+    return (await this.getExperience(experience.id, insertExperience.userId))!;
+  }
+
+  async updateExperienceWithTags(
+    id: number,
+    userId: number,
+    experienceData: Partial<Omit<ExperienceInput, 'userId'>>,
+    tagIds?: number[],
+    expectedVersion?: number,
+    revision?: RevisionAction
+  ): Promise<Experience | undefined> {
+    // Resolve everything before writing so a missing or stale experience changes nothing
+    const ownedTagIds = tagIds ? await this.ownedTagIds(tagIds, userId) : undefined;
+    const current = await this.getExperience(id, userId);
+    if (current && expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new VersionConflictError(current);
+    }
+
+    const experience = await this.updateExperience(id, userId, experienceData);
+    if (!experience) return undefined;
+
+    if (ownedTagIds) this.setTagLinks(id, ownedTagIds);
+    const updated = await this.getExperience(id, userId);
+    // Nothing to record when the update left the experience as it was
+    if (revision && !sameSnapshot(snapshotExperience(current!), snapshotExperience(updated!))) {
+      await this.recordExperienceRevision(id, userId, revision);
+    }
+    return updated;
+  }
+
+  async deleteExperience(id: number, userId: number): Promise<boolean> {
+    const experience = await this.getExperience(id, userId);
+    if (!experience) return false;
+
+    this.experiences.set(id, { ...experience, deletedAt: new Date() });
+    return true;
+  }
+
+  // Trash methods
+  async getDeletedExperiences(userId: number): Promise<Experience[]> {
+    const deleted = Array.from(this.experiences.values())
+      .filter(exp => exp.userId === userId && exp.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+
+    for (const experience of deleted) {
+      experience.tags = await this.getExperienceTags(experience.id, userId);
+    }
+
+    return deleted;
+  }
+
+  async restoreExperience(id: number, userId: number): Promise<Experience | undefined> {
+    const experience = this.experiences.get(id);
+    if (!experience || experience.userId !== userId || !experience.deletedAt) return undefined;
+
+    this.experiences.set(id, { ...experience, deletedAt: null });
+    return this.getExperience(id, userId);
+  }
 
-    experienceTagIds.forEach(etId => this.experienceTags.delete(etId));
+  async purgeExperience(id: number, userId: number): Promise<boolean> {
+    const experience = this.experiences.get(id);
+    if (!experience || experience.userId !== userId || !experience.deletedAt) return false;
+
+    this.removeExperience(id);
+    return true;
+  }
+
+  async purgeDeletedExperiences(deletedBefore: Date, userId?: number): Promise<number> {
+    const expired = Array.from(this.experiences.values()).filter(exp =>
+      exp.deletedAt && exp.deletedAt < deletedBefore && (userId === undefined || exp.userId === userId)
+    );
+
+    expired.forEach(exp => this.removeExperience(exp.id));
+    return expired.length;
+  }
 
-    return this.experiences.delete(id);
+  // Delete an experience together with its experience-tag relations, question links,
+  // practice history and revisions
+  private removeExperience(id: number) {
+    Array.from(this.practiceSchedules.values())
+      .filter(schedule => schedule.experienceId === id)
+      .forEach(schedule => this.practiceSchedules.delete(schedule.id));
+    Array.from(this.practiceReviews.values())
+      .filter(review => review.experienceId === id)
+      .forEach(review => this.practiceReviews.delete(review.id));
+    Array.from(this.experienceTags.values())
+      .filter(et => et.experienceId === id)
+      .forEach(et => this.experienceTags.delete(et.id));
+    Array.from(this.questionExperiences.values())
+      .filter(link => link.experienceId === id)
+      .forEach(link => this.questionExperiences.delete(link.id));
+    Array.from(this.experienceRevisions.values())
+      .filter(revision => revision.experienceId === id)
+      .forEach(revision => this.experienceRevisions.delete(revision.id));
+
+    this.experiences.delete(id);
   }
 
   // Tag methods
-  async getTags(): Promise<Tag[]> {
-    return Array.from(this.tags.values());
+  async getTags(userId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values()).filter(tag => tag.userId === userId);
   }
 
-  async getTag(id: number): Promise<Tag | undefined> {
-    return this.tags.get(id);
+  async getTag(id: number, userId: number): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    return tag && tag.userId === userId ? tag : undefined;
   }
 
-  async getTagByName(name: string): Promise<Tag | undefined> {
-    return Array.from(this.tags.values()).find(tag => tag.name === name);
+  async getTagByName(name: string, userId: number): Promise<Tag | undefined> {
+    return Array.from(this.tags.values()).find(tag => tag.userId === userId && tag.name === name);
   }
 
   async createTag(insertTag: InsertTag): Promise<Tag> {
-    // Check if tag already exists
-    const existingTag = await this.getTagByName(insertTag.name);
+    // Check if the user already has a tag with this name
+    const existingTag = await this.getTagByName(insertTag.name, insertTag.userId);
     if (existingTag) return existingTag;
 
     const id = this.tagCurrentId++;
@@ -230,19 +656,27 @@ export class MemStorage implements IStorage {
     return tag;
   }
 
-  async deleteTag(id: number): Promise<boolean> {
-    // Delete related experience-tag relations
-    const experienceTagIds = Array.from(this.experienceTags.values())
-      .filter(et => et.tagId === id)
-      .map(et => et.id);
+  async deleteTag(id: number, userId: number): Promise<boolean> {
+    const tag = await this.getTag(id, userId);
+    if (!tag) return false;
 
-    experienceTagIds.forEach(etId => this.experienceTags.delete(etId));
+    // Delete related experience-tag relations
+    const links = Array.from(this.experienceTags.values()).filter(et => et.tagId === id);
+    links.forEach(et => this.experienceTags.delete(et.id));
+    this.tags.delete(id);
 
-    return this.tags.delete(id);
+    // Removing the tag changed every experience that carried it
+    for (const { experienceId } of links) {
+      await this.recordExperienceRevision(experienceId, userId, "tags");
+    }
+    return true;
   }
 
   // Experience-Tag methods
-  async getExperienceTags(experienceId: number): Promise<Tag[]> {
+  async getExperienceTags(experienceId: number, userId: number): Promise<Tag[]> {
+    const experience = this.experiences.get(experienceId);
+    if (!experience || experience.userId !== userId) return [];
+
     const tagIds = Array.from(this.experienceTags.values())
       .filter(et => et.experienceId === experienceId)
       .map(et => et.tagId);
@@ -250,7 +684,11 @@ export class MemStorage implements IStorage {
     return tagIds.map(tagId => this.tags.get(tagId)).filter(Boolean) as Tag[];
   }
 
-  async addTagToExperience(experienceId: number, tagId: number): Promise<ExperienceTag> {
+  async addTagToExperience(experienceId: number, tagId: number, userId: number): Promise<ExperienceTag | undefined> {
+    const experience = this.experiences.get(experienceId);
+    const tag = await this.getTag(tagId, userId);
+    if (!experience || experience.userId !== userId || experience.deletedAt || !tag) return undefined;
+
     // Check if relation already exists
     const exists = Array.from(this.experienceTags.values()).some(
       et => et.experienceId === experienceId && et.tagId === tagId
@@ -268,7 +706,10 @@ export class MemStorage implements IStorage {
     return experienceTag;
   }
 
-  async removeTagFromExperience(experienceId: number, tagId: number): Promise<boolean> {
+  async removeTagFromExperience(experienceId: number, tagId: number, userId: number): Promise<boolean> {
+    const experience = this.experiences.get(experienceId);
+    if (!experience || experience.userId !== userId || experience.deletedAt) return false;
+
     const experienceTagId = Array.from(this.experienceTags.values()).find(
       et => et.experienceId === experienceId && et.tagId === tagId
     )?.id;
@@ -278,132 +719,342 @@ export class MemStorage implements IStorage {
     return this.experienceTags.delete(experienceTagId);
   }
 
-  // Search methods
-  async searchExperiences(params: { 
-    startDate?: Date; 
-    endDate?: Date; 
-    tagIds?: number[];
-    searchTerm?: string;
-    userId: number;
-  }): Promise<Experience[]> {
-    let experiences = await this.getExperiences(params.userId);
-
-    // Filter by start date
-    if (params.startDate) {
-      experiences = experiences.filter(exp => 
-        new Date(exp.startDate) >= new Date(params.startDate!)
-      );
-    }
-
-    // Filter by end date
-    if (params.endDate) {
-      experiences = experiences.filter(exp => 
-        !exp.endDate || new Date(exp.endDate) <= new Date(params.endDate!)
-      );
-    }
-
-    // Filter by tags
-    if (params.tagIds && params.tagIds.length > 0) {
-      experiences = experiences.filter(exp => {
-        if (!exp.tags) return false;
-        return params.tagIds!.some(tagId => 
-          exp.tags!.some(tag => tag.id === tagId)
-        );
-      });
+  async replaceExperienceTags(experienceId: number, tagIds: number[], userId: number): Promise<Tag[] | undefined> {
+    const ownedTagIds = await this.ownedTagIds(tagIds, userId);
+    const experience = this.experiences.get(experienceId);
+    if (!experience || experience.userId !== userId || experience.deletedAt) return undefined;
+
+    this.setTagLinks(experienceId, ownedTagIds);
+    this.experiences.set(experienceId, { ...experience, version: experience.version + 1 });
+    return this.getExperienceTags(experienceId, userId);
+  }
+
+  private async ownedTagIds(tagIds: number[], userId: number): Promise<number[]> {
+    const owned = new Set((await this.getTags(userId)).map(tag => tag.id));
+    return Array.from(new Set(tagIds)).filter(tagId => owned.has(tagId));
+  }
+
+  // Replace an experience's experience-tag relations without yielding in between
+  private setTagLinks(experienceId: number, tagIds: number[]) {
+    Array.from(this.experienceTags.values())
+      .filter(et => et.experienceId === experienceId && !tagIds.includes(et.tagId))
+      .forEach(et => this.experienceTags.delete(et.id));
+
+    const linked = new Set(
+      Array.from(this.experienceTags.values())
+        .filter(et => et.experienceId === experienceId)
+        .map(et => et.tagId)
+    );
+    tagIds.filter(tagId => !linked.has(tagId)).forEach(tagId => {
+      const id = this.experienceTagCurrentId++;
+      this.experienceTags.set(id, { id, experienceId, tagId });
+    });
+  }
+
+  // Revision methods
+  async recordExperienceRevision(experienceId: number, userId: number, action: RevisionAction): Promise<ExperienceRevision | undefined> {
+    const experience = await this.getExperience(experienceId, userId);
+    if (!experience) return undefined;
+
+    const snapshot = snapshotExperience(experience);
+    const [latest] = await this.getExperienceRevisions(experienceId, userId);
+    if (latest && sameSnapshot(latest.snapshot, snapshot)) return latest;
+
+    const id = this.experienceRevisionCurrentId++;
+    const revision: ExperienceRevision = {
+      id,
+      experienceId,
+      userId,
+      revision: (latest?.revision ?? 0) + 1,
+      action,
+      snapshot,
+      createdAt: new Date(),
+    };
+    this.experienceRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getExperienceRevisions(experienceId: number, userId: number): Promise<ExperienceRevision[]> {
+    return Array.from(this.experienceRevisions.values())
+      .filter(revision => revision.experienceId === experienceId && revision.userId === userId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async getExperienceRevision(experienceId: number, revision: number, userId: number): Promise<ExperienceRevision | undefined> {
+    const revisions = await this.getExperienceRevisions(experienceId, userId);
+    return revisions.find(r => r.revision === revision);
+  }
+
+  // Backup methods
+  async exportArchive(userId: number): Promise<AccountArchive> {
+    return buildArchive(await this.accountContents(userId));
+  }
+
+  async importArchive(userId: number, archive: AccountArchive, mode: ArchiveImportMode): Promise<ArchiveImportResult> {
+    const plan = planArchiveImport(archive, mode, await this.accountContents(userId));
+
+    if (mode === "replace") {
+      Array.from(this.experiences.values())
+        .filter(exp => exp.userId === userId)
+        .forEach(exp => this.removeExperience(exp.id));
+      Array.from(this.tags.values())
+        .filter(tag => tag.userId === userId)
+        .forEach(tag => this.tags.delete(tag.id));
+      Array.from(this.columns.values())
+        .filter(column => column.userId === userId)
+        .forEach(column => this.columns.delete(column.id));
     }
 
-    // Filter by search term
-    if (params.searchTerm) {
-      const searchTerm = params.searchTerm.toLowerCase();
-      experiences = experiences.filter(exp => {
-        // Search in custom fields
-        const customFieldsMatch = Object.values(exp.customFields).some(value => 
-          value && typeof value === 'string' && value.toLowerCase().includes(searchTerm)
-        );
+    for (const { archivedAt, ...columnData } of plan.columns) {
+      const column = await this.createColumn({ ...columnData, userId });
+      if (archivedAt) this.columns.set(column.id, { ...column, archivedAt });
+    }
 
-        // Search in tags
-        const tagsMatch = exp.tags?.some(tag => 
-          tag.name.toLowerCase().includes(searchTerm)
-        );
+    const tagIds = new Map(plan.existingTagIds);
+    for (const tag of plan.tags) {
+      tagIds.set(tag.id, (await this.createTag({ name: tag.name, userId })).id);
+    }
 
-        return customFieldsMatch || tagsMatch;
-      });
+    const experienceIds = new Map<number, number>();
+    for (const { id, deletedAt, ...experienceData } of plan.experiences) {
+      const experience = await this.createExperience({ ...experienceData, userId });
+      if (deletedAt) this.experiences.set(experience.id, { ...experience, deletedAt });
+      experienceIds.set(id, experience.id);
     }
 
-    return experiences;
-  }
-}
+    experienceIds.forEach((experienceId, archiveId) => {
+      this.setTagLinks(experienceId, plan.experienceTags
+        .filter(link => link.experienceId === archiveId)
+        .map(link => tagIds.get(link.tagId)!));
+    });
 
-// DatabaseStorage implementation using PostgreSQL
-export class DatabaseStorage implements IStorage {
-  constructor() {
-    this.initializeDefaultColumns();
-  }
-
-  // Initialize default columns if none exist yet
-  private async initializeDefaultColumns() {
-    const existingColumns = await this.getColumns(1); // Assuming a default user ID of 1
-
-    if (existingColumns.length === 0) {
-      const defaultColumns = [
-        {
-          name: "Start Date",
-          key: "startDate",
-          type: "date",
-          isVisible: true,
-          order: 1,
-          userId: 1 // Assuming a default user ID of 1
-        },
-        {
-          name: "End Date",
-          key: "endDate",
-          type: "date",
-          isVisible: true,
-          order: 2,
-          userId: 1 // Assuming a default user ID of 1
-        },
-        {
-          name: "Client",
-          key: "client",
-          type: "short-text",
-          isVisible: true,
-          order: 3,
-          userId: 1 // Assuming a default user ID of 1
-        },
-        {
-          name: "Project",
-          key: "project",
-          type: "short-text",
-          isVisible: true,
-          order: 4,
-          userId: 1 // Assuming a default user ID of 1
-        },
-        {
-          name: "Skills",
-          key: "skills",
-          type: "dropdown",
-          dropdownOptions: ["React", "TypeScript", "Next.js", "MongoDB", "Python"],
-          allowMultiple: true,
-          isVisible: true,
-          order: 5,
-          userId: 1 // Assuming a default user ID of 1
-        },
-        {
-          name: "Notes",
-          key: "notes",
-          type: "long-text",
-          isVisible: true,
-          order: 6,
-          userId: 1 // Assuming a default user ID of 1
-        }
-      ];
+    // Trashed experiences are skipped here and get history once restored and edited
+    for (const experienceId of Array.from(experienceIds.values())) {
+      await this.recordExperienceRevision(experienceId, userId, "create");
+    }
 
-      for (const column of defaultColumns) {
-        await this.createColumn(column as InsertColumn);
+    return importResult(plan, mode);
+  }
+
+  async importExperiences(
+    userId: number,
+    newColumns: Omit<InsertColumn, 'userId'>[],
+    addedOptions: DropdownOptionAddition[],
+    newExperiences: ImportedExperienceInput[]
+  ): Promise<{ columns: Column[]; tags: Tag[]; experiences: Experience[] }> {
+    const created = { columns: [] as Column[], tags: [] as Tag[], experiences: [] as Experience[] };
+    for (const column of newColumns) {
+      created.columns.push(await this.createColumn({ ...column, userId }));
+    }
+    for (const { key, options } of addedOptions) {
+      const column = await this.getColumnByKey(key, userId);
+      if (column) {
+        await this.updateColumn(column.id, userId, { dropdownOptions: [...(column.dropdownOptions ?? []), ...options] });
       }
     }
+    for (const name of missingTagNames(newExperiences, await this.getTags(userId))) {
+      created.tags.push(await this.createTag({ name, userId }));
+    }
+
+    const userTags = await this.getTags(userId);
+    for (const { tags: tagNames, ...experience } of newExperiences) {
+      const tagIds = tagNames.map(name => findTag(userTags, name)!.id);
+      const { id } = await this.createExperienceWithTags({ ...experience, userId }, tagIds, "create");
+      created.experiences.push((await this.getExperience(id, userId))!);
+    }
+    return created;
   }
 
+  private async accountContents(userId: number): Promise<AccountContents> {
+    return {
+      columns: [...await this.getColumns(userId), ...await this.getArchivedColumns(userId)],
+      tags: await this.getTags(userId),
+      experiences: [...await this.getExperiences(userId), ...await this.getDeletedExperiences(userId)],
+    };
+  }
+
+  // Search methods
+  async searchExperiences(params: ExperienceSearchParams): Promise<Experience[]> {
+    const experiences = await this.getExperiences(params.userId);
+    const question = params.questionId === undefined ? undefined : await this.getQuestion(params.questionId, params.userId);
+    const questionExperienceIds = new Set(question?.experienceIds ?? []);
+    return experiences.filter(exp => matchesSearchFilters(exp, params, questionExperienceIds));
+  }
+
+  async queryExperiences(params: ExperienceSearchParams, options: ExperiencePageOptions): Promise<ExperiencePage> {
+    const matching = (await this.searchExperiences(params))
+      .sort((a, b) => compareExperiences(a, b, options));
+    const offset = (options.page - 1) * options.pageSize;
+
+    return {
+      items: matching.slice(offset, offset + options.pageSize),
+      total: matching.length,
+      page: options.page,
+      pageSize: options.pageSize,
+      totalPages: Math.max(1, Math.ceil(matching.length / options.pageSize)),
+    };
+  }
+
+  // Resume methods
+  async getResumes(userId: number): Promise<Resume[]> {
+    return Array.from(this.resumes.values())
+      .filter(resume => resume.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getResume(id: number, userId: number): Promise<Resume | undefined> {
+    const resume = this.resumes.get(id);
+    return resume && resume.userId === userId ? resume : undefined;
+  }
+
+  async createResume(insertResume: InsertResume): Promise<Resume> {
+    const id = this.resumeCurrentId++;
+    const now = new Date();
+    const resume: Resume = {
+      ...insertResume,
+      id,
+      heading: insertResume.heading ?? null,
+      summary: insertResume.summary ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.resumes.set(id, resume);
+    return resume;
+  }
+
+  async updateResume(id: number, userId: number, resumeData: Partial<ResumeFormData>): Promise<Resume | undefined> {
+    const resume = await this.getResume(id, userId);
+    if (!resume) return undefined;
+
+    const updatedResume: Resume = { ...resume, ...resumeData, updatedAt: new Date() };
+    this.resumes.set(id, updatedResume);
+    return updatedResume;
+  }
+
+  async deleteResume(id: number, userId: number): Promise<boolean> {
+    const resume = await this.getResume(id, userId);
+    return resume ? this.resumes.delete(id) : false;
+  }
+
+  // Question methods
+  async getQuestions(userId: number): Promise<Question[]> {
+    return Array.from(this.questions.values())
+      .filter(question => question.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(question => this.withExperienceIds(question));
+  }
+
+  async getQuestion(id: number, userId: number): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    return question && question.userId === userId ? this.withExperienceIds(question) : undefined;
+  }
+
+  async createQuestion({ experienceIds, ...insertQuestion }: InsertQuestion): Promise<Question> {
+    const id = this.questionCurrentId++;
+    const now = new Date();
+    this.questions.set(id, { ...insertQuestion, id, createdAt: now, updatedAt: now });
+    this.setQuestionLinks(id, this.ownedExperienceIds(experienceIds, insertQuestion.userId));
+    return (await this.getQuestion(id, insertQuestion.userId))!;
+  }
+
+  async updateQuestion(id: number, userId: number, { experienceIds, ...questionData }: Partial<QuestionFormData>): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    if (!question || question.userId !== userId) return undefined;
+
+    this.questions.set(id, { ...question, ...questionData, updatedAt: new Date() });
+    if (experienceIds) {
+      this.setQuestionLinks(id, this.ownedExperienceIds(experienceIds, userId));
+    }
+    return this.getQuestion(id, userId);
+  }
+
+  async deleteQuestion(id: number, userId: number): Promise<boolean> {
+    const question = this.questions.get(id);
+    if (!question || question.userId !== userId) return false;
+
+    this.setQuestionLinks(id, []);
+    // Attempts rehearsed against the question are kept without it
+    Array.from(this.practiceReviews.values())
+      .filter(review => review.questionId === id)
+      .forEach(review => this.practiceReviews.set(review.id, { ...review, questionId: null }));
+    return this.questions.delete(id);
+  }
+
+  // Practice methods
+  async getPracticeSchedules(userId: number): Promise<PracticeSchedule[]> {
+    return Array.from(this.practiceSchedules.values()).filter(schedule => schedule.userId === userId);
+  }
+
+  async getPracticeReviewDays(userId: number): Promise<string[]> {
+    const days = Array.from(this.practiceReviews.values())
+      .filter(review => review.userId === userId)
+      .map(review => toDateString(review.reviewedAt));
+    return Array.from(new Set(days)).sort().reverse();
+  }
+
+  async recordPracticeReview(
+    review: InsertPracticeReview,
+    schedule: (current: PracticeSchedule | undefined) => PracticeScheduleState
+  ): Promise<PracticeSchedule | undefined> {
+    const experience = this.experiences.get(review.experienceId);
+    if (!experience || experience.userId !== review.userId || experience.deletedAt) return undefined;
+
+    const current = Array.from(this.practiceSchedules.values()).find(existing => existing.experienceId === review.experienceId);
+    const updated: PracticeSchedule = {
+      ...schedule(current),
+      id: current?.id ?? this.practiceScheduleCurrentId++,
+      userId: review.userId,
+      experienceId: review.experienceId,
+      reviewCount: (current?.reviewCount ?? 0) + 1,
+      lastReviewedAt: review.reviewedAt,
+    };
+    this.practiceSchedules.set(updated.id, updated);
+
+    const id = this.practiceReviewCurrentId++;
+    this.practiceReviews.set(id, { ...review, id });
+    return updated;
+  }
+
+  private withExperienceIds(question: Omit<Question, 'experienceIds'>): Question {
+    const experienceIds = Array.from(this.questionExperiences.values())
+      .filter(link => link.questionId === question.id)
+      .map(link => link.experienceId);
+    return { ...question, experienceIds };
+  }
+
+  // Experiences in the trash can stay linked, so they count as owned here
+  private ownedExperienceIds(experienceIds: number[], userId: number): number[] {
+    return Array.from(new Set(experienceIds)).filter(id => this.experiences.get(id)?.userId === userId);
+  }
+
+  private setQuestionLinks(questionId: number, experienceIds: number[]) {
+    Array.from(this.questionExperiences.values())
+      .filter(link => link.questionId === questionId && !experienceIds.includes(link.experienceId))
+      .forEach(link => this.questionExperiences.delete(link.id));
+
+    const linked = new Set(this.withExperienceIds(this.questions.get(questionId)!).experienceIds);
+    experienceIds.filter(experienceId => !linked.has(experienceId)).forEach(experienceId => {
+      const id = this.questionExperienceCurrentId++;
+      this.questionExperiences.set(id, { id, questionId, experienceId });
+    });
+  }
+}
+
+// The database or an open transaction, for helpers that run either way
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Turns a unique violation on columns (user_id, key) into the DuplicateColumnKeyError
+// it stands for; concurrent writes get past the route's own check and land here
+function rethrowColumnKeyConflict(err: unknown, key: string): never {
+  const { code, constraint } = err as { code?: string; constraint?: string };
+  if (code === "23505" && constraint === "columns_user_key_unique_idx") {
+    throw new DuplicateColumnKeyError(key);
+  }
+  throw err;
+}
+
+// DatabaseStorage implementation using PostgreSQL
+export class DatabaseStorage implements IStorage {
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -416,22 +1067,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+    return db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      await tx.insert(columns).values(defaultColumns.map(column => ({ ...column, userId: user.id })));
+      return user;
+    });
   }
 
   // Column methods
   async getColumns(userId: number): Promise<Column[]> {
-    return db.select().from(columns).where(eq(columns.userId, userId)).orderBy(asc(columns.order));
+    return db.select().from(columns)
+      .where(and(eq(columns.userId, userId), isNull(columns.archivedAt)))
+      .orderBy(asc(columns.order));
   }
 
-  async getColumn(id: number): Promise<Column | undefined> {
-    const [column] = await db.select().from(columns).where(eq(columns.id, id));
+  async getArchivedColumns(userId: number): Promise<Column[]> {
+    return db.select().from(columns)
+      .where(and(eq(columns.userId, userId), isNotNull(columns.archivedAt)))
+      .orderBy(asc(columns.order));
+  }
+
+  async getColumn(id: number, userId: number): Promise<Column | undefined> {
+    const [column] = await db.select().from(columns).where(and(eq(columns.id, id), eq(columns.userId, userId)));
     return column || undefined;
   }
 
-  async getColumnByKey(key: string): Promise<Column | undefined> {
-    const [column] = await db.select().from(columns).where(eq(columns.key, key));
+  async getColumnByKey(key: string, userId: number): Promise<Column | undefined> {
+    const [column] = await db.select().from(columns).where(and(eq(columns.key, key), eq(columns.userId, userId)));
     return column || undefined;
   }
 
@@ -444,67 +1106,246 @@ export class DatabaseStorage implements IStorage {
       isVisible: insertColumn.isVisible !== undefined ? insertColumn.isVisible : true
     };
 
-    const [column] = await db.insert(columns).values(columnData).returning();
+    const [column] = await db.insert(columns).values(columnData).returning()
+      .catch(err => rethrowColumnKeyConflict(err, insertColumn.key));
     return column;
   }
 
-  async updateColumn(id: number, columnData: Partial<InsertColumn>): Promise<Column | undefined> {
-    const [updatedColumn] = await db.update(columns)
-      .set(columnData)
-      .where(eq(columns.id, id))
+  async updateColumn(
+    id: number,
+    userId: number,
+    columnData: Partial<Omit<InsertColumn, 'userId'>>,
+    optionChanges?: DropdownOptionChanges,
+    expectedVersion?: number
+  ): Promise<Column | undefined> {
+    return db.transaction(async (tx) => {
+      const [column] = await tx.select().from(columns)
+        .where(and(eq(columns.id, id), eq(columns.userId, userId)))
+        .for('update');
+      if (!column) return undefined;
+      if (expectedVersion !== undefined && column.version !== expectedVersion) {
+        throw new VersionConflictError(column);
+      }
+
+      const [updatedColumn] = await tx.update(columns)
+        .set({ ...columnData, version: sql`${columns.version} + 1` })
+        .where(eq(columns.id, id))
+        .returning()
+        .catch(err => rethrowColumnKeyConflict(err, columnData.key ?? column.key));
+
+      const changed = new Set<number>();
+
+      // Move the stored values so they stay attached to the renamed column
+      if (columnData.key !== undefined && columnData.key !== column.key) {
+        const moved = await tx.update(experiences)
+          .set({
+            customFields: sql`(${experiences.customFields} - ${column.key}::text)
+              || jsonb_build_object(${columnData.key}::text, ${experiences.customFields} -> ${column.key}::text)`,
+            version: sql`${experiences.version} + 1`,
+          })
+          .where(and(
+            eq(experiences.userId, userId),
+            sql`${experiences.customFields} ? ${column.key}::text`
+          ))
+          .returning({ id: experiences.id });
+        moved.forEach(row => changed.add(row.id));
+      }
+
+      // Renamed, merged and removed options are rewritten row by row, only where something changes
+      if (optionChanges) {
+        const stored = await tx.select({ id: experiences.id, customFields: experiences.customFields })
+          .from(experiences)
+          .where(and(
+            eq(experiences.userId, userId),
+            sql`${experiences.customFields} ? ${updatedColumn.key}::text`
+          ))
+          .for('update');
+
+        for (const row of stored) {
+          const { [updatedColumn.key]: value, ...rest } = row.customFields as Record<string, any>;
+          const remapped = remapDropdownValue(value, column.dropdownOptions || [], updatedColumn.dropdownOptions || [], optionChanges);
+          if (JSON.stringify(remapped) === JSON.stringify(value)) continue;
+
+          await tx.update(experiences)
+            .set({
+              customFields: remapped === undefined ? rest : { ...rest, [updatedColumn.key]: remapped },
+              version: sql`${experiences.version} + 1`,
+            })
+            .where(eq(experiences.id, row.id));
+          changed.add(row.id);
+        }
+      }
+
+      await this.recordColumnChangeIn(tx, userId, Array.from(changed));
+      return updatedColumn;
+    });
+  }
+
+  async previewColumnKeyRename(id: number, userId: number, newKey: string): Promise<ColumnKeyRenamePreview | undefined> {
+    const column = await this.getColumn(id, userId);
+    if (!column) return undefined;
+
+    const [counts] = await db.select({
+      affected: sql<number>`count(*)::int`,
+      overwritten: sql<number>`(count(*) filter (where ${experiences.customFields} ? ${newKey}::text))::int`,
+    })
+    .from(experiences)
+    .where(and(
+      eq(experiences.userId, userId),
+      sql`${experiences.customFields} ? ${column.key}::text`
+    ));
+
+    return { oldKey: column.key, newKey, affected: counts.affected, overwritten: counts.overwritten };
+  }
+
+  async archiveColumn(id: number, userId: number): Promise<Column | undefined> {
+    const [column] = await db.update(columns)
+      .set({ archivedAt: sql`coalesce(${columns.archivedAt}, now())`, version: sql`${columns.version} + 1` })
+      .where(and(eq(columns.id, id), eq(columns.userId, userId)))
       .returning();
-    return updatedColumn || undefined;
+    return column || undefined;
   }
 
-  async deleteColumn(id: number): Promise<boolean> {
-    const result = await db.delete(columns).where(eq(columns.id, id)).returning({ id: columns.id });
-    return result.length > 0;
+  async restoreColumn(id: number, userId: number): Promise<Column | undefined> {
+    const [column] = await db.update(columns)
+      .set({ archivedAt: null, version: sql`${columns.version} + 1` })
+      .where(and(eq(columns.id, id), eq(columns.userId, userId)))
+      .returning();
+    return column || undefined;
   }
 
-  // Experience methods
-  async getExperiences(userId: number): Promise<Experience[]> {
-    const experiencesList = await db.select().from(experiences).where(eq(experiences.userId, userId));
+  async deleteColumn(id: number, userId: number, options: { keepValues?: boolean } = {}): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [column] = await tx.delete(columns)
+        .where(and(eq(columns.id, id), eq(columns.userId, userId)))
+        .returning({ key: columns.key });
+      if (!column) return false;
+      if (options.keepValues) return true;
 
-    // For each experience, fetch tags
-    const result: Experience[] = [];
-    for (const exp of experiencesList) {
-      const tags = await this.getExperienceTags(exp.id);
-      result.push({ ...exp, tags });
-    }
+      await this.purgeFieldKeyIn(tx, userId, column.key);
+      return true;
+    });
+  }
 
-    return result;
+  async getOrphanedFieldKeys(userId: number): Promise<OrphanedFieldKey[]> {
+    const result = await db.execute<{ key: string; experience_count: number }>(sql`
+      select field.key as key, count(*)::int as experience_count
+      from ${experiences}, jsonb_object_keys(${experiences.customFields}) as field(key)
+      where ${experiences.userId} = ${userId}
+        and not exists (
+          select 1 from ${columns}
+          where ${columns.userId} = ${userId} and ${columns.key} = field.key
+        )
+      group by field.key
+      order by field.key
+    `);
+    return result.rows.map(row => ({ key: row.key, experienceCount: row.experience_count }));
   }
 
-  async getExperience(id: number): Promise<Experience | undefined> {
-    const [experience] = await db.select().from(experiences).where(eq(experiences.id, id));
+  async purgeFieldKey(userId: number, key: string): Promise<number> {
+    return db.transaction(tx => this.purgeFieldKeyIn(tx, userId, key));
+  }
 
-    if (!experience) {
-      return undefined;
+  private async purgeFieldKeyIn(tx: DbExecutor, userId: number, key: string): Promise<number> {
+    const purged = await tx.update(experiences)
+      .set({
+        customFields: sql`${experiences.customFields} - ${key}::text`,
+        version: sql`${experiences.version} + 1`,
+      })
+      .where(and(
+        eq(experiences.userId, userId),
+        sql`${experiences.customFields} ? ${key}::text`
+      ))
+      .returning({ id: experiences.id });
+
+    await this.recordColumnChangeIn(tx, userId, purged.map(row => row.id));
+    return purged.length;
+  }
+
+  async replaceColumns(userId: number, newColumns: Omit<InsertColumn, 'userId'>[]): Promise<Column[]> {
+    const duplicate = duplicateColumnKey(newColumns);
+    if (duplicate !== undefined) throw new DuplicateColumnKeyError(duplicate);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(columns).where(eq(columns.userId, userId));
+      if (newColumns.length > 0) {
+        await tx.insert(columns).values(newColumns.map(column => ({
+          ...column,
+          userId,
+          dropdownOptions: column.dropdownOptions || null,
+          allowMultiple: column.allowMultiple || null,
+          isVisible: column.isVisible !== undefined ? column.isVisible : true,
+        })));
+      }
+    });
+
+    return this.getColumns(userId);
+  }
+
+  async resetColumnsToDefaults(userId: number): Promise<Column[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(columns).where(eq(columns.userId, userId));
+      await tx.insert(columns).values(defaultColumns.map(column => ({ ...column, userId })));
+    });
+
+    return this.getColumns(userId);
+  }
+
+  // Load the tags for a batch of experiences with a single query
+  private async attachTags<T extends { id: number }>(
+    experiencesList: T[],
+    userId: number,
+    executor: DbExecutor = db
+  ): Promise<(T & { tags: Tag[] })[]> {
+    if (experiencesList.length === 0) {
+      return [];
+    }
+
+    const tagLinks = await executor.select({
+      experienceId: experienceTags.experienceId,
+      tag: tags
+    })
+    .from(experienceTags)
+    .innerJoin(tags, eq(experienceTags.tagId, tags.id))
+    .where(and(
+      inArray(experienceTags.experienceId, experiencesList.map(exp => exp.id)),
+      eq(tags.userId, userId)
+    ));
+
+    const tagsByExperience = new Map<number, Tag[]>();
+    for (const link of tagLinks) {
+      const list = tagsByExperience.get(link.experienceId) || [];
+      list.push(link.tag);
+      tagsByExperience.set(link.experienceId, list);
     }
 
-    // Get tags for this experience
-    const tags = await this.getExperienceTags(id);
-    return { ...experience, tags };
+    return experiencesList.map(exp => ({ ...exp, tags: tagsByExperience.get(exp.id) || [] }));
   }
 
-  async createExperience(insertExperience: InsertExperience): Promise<Experience> {
-    // Ensure we're working with properly formatted date strings for PostgreSQL
-    const startDateStr = typeof insertExperience.startDate === 'object' && insertExperience.startDate instanceof Date
-      ? (insertExperience.startDate as Date).toISOString().split('T')[0] // Format as YYYY-MM-DD
-      : insertExperience.startDate;
+  // Experience methods
+  async getExperiences(userId: number): Promise<Experience[]> {
+    const experiencesList = await db.select().from(experiences)
+      .where(and(eq(experiences.userId, userId), isNull(experiences.deletedAt)));
+    return this.attachTags(experiencesList, userId);
+  }
 
-    let endDateStr = null;
-    if (insertExperience.endDate) {
-      endDateStr = typeof insertExperience.endDate === 'object' && insertExperience.endDate instanceof Date
-        ? (insertExperience.endDate as Date).toISOString().split('T')[0] // Format as YYYY-MM-DD
-        : insertExperience.endDate;
+  async getExperience(id: number, userId: number): Promise<Experience | undefined> {
+    const [experience] = await db.select().from(experiences)
+      .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNull(experiences.deletedAt)));
+
+    if (!experience) {
+      return undefined;
     }
 
+    const [withTags] = await this.attachTags([experience], userId);
+    return withTags;
+  }
 
+  async createExperience(insertExperience: ExperienceInput): Promise<Experience> {
     // Create the experience with formatted date strings
     const experienceData = {
-      startDate: startDateStr,
-      endDate: endDateStr,
+      startDate: toDateString(insertExperience.startDate),
+      endDate: insertExperience.endDate ? toDateString(insertExperience.endDate) : null,
       customFields: insertExperience.customFields,
       userId: insertExperience.userId
     };
@@ -513,69 +1354,154 @@ export class DatabaseStorage implements IStorage {
     return { ...experience, tags: [] };
   }
 
-  async updateExperience(id: number, experienceData: Partial<InsertExperience>): Promise<Experience | undefined> {
-    // Create a new update object with properly formatted dates
-    const updateData: Record<string, any> = {};
+  async updateExperience(id: number, userId: number, experienceData: Partial<Omit<ExperienceInput, 'userId'>>): Promise<Experience | undefined> {
+    const updateData = toExperienceUpdate(experienceData);
 
-    // Add custom fields if present
-    if (experienceData.customFields) {
-      updateData.customFields = experienceData.customFields;
+    // Nothing to write, but still only report rows the user owns
+    if (Object.keys(updateData).length === 0) {
+      return this.getExperience(id, userId);
     }
 
-    // Format startDate if provided
-    if (experienceData.startDate) {
-      updateData.startDate = typeof experienceData.startDate === 'object' && experienceData.startDate instanceof Date
-        ? (experienceData.startDate as Date).toISOString().split('T')[0] // Format as YYYY-MM-DD
-        : experienceData.startDate;
-    }
+    // Update the experience
+    const [updatedExperience] = await db.update(experiences)
+      .set({ ...updateData, version: sql`${experiences.version} + 1` })
+      .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+      .returning();
 
-    // Format endDate if provided or set to null if explicitly null
-    if (experienceData.endDate !== undefined) {
-      updateData.endDate = typeof experienceData.endDate === 'object' && experienceData.endDate instanceof Date
-        ? (experienceData.endDate as Date).toISOString().split('T')[0] // Format as YYYY-MM-DD
-        : experienceData.endDate || null;
+    if (!updatedExperience) {
+      return undefined;
     }
 
+    const [withTags] = await this.attachTags([updatedExperience], userId);
+    return withTags;
+  }
 
-    // Update the experience
-    const [updatedExperience] = await db.update(experiences)
-      .set(updateData)
-      .where(eq(experiences.id, id))
+  async createExperienceWithTags(insertExperience: ExperienceInput, tagIds: number[], revision?: RevisionAction): Promise<Experience> {
+    return db.transaction(async (tx) => {
+      const [experience] = await tx.insert(experiences).values({
+        startDate: toDateString(insertExperience.startDate),
+        endDate: insertExperience.endDate ? toDateString(insertExperience.endDate) : null,
+        customFields: insertExperience.customFields,
+        userId: insertExperience.userId
+      }).returning();
+
+      await this.replaceTagsIn(tx, experience.id, insertExperience.userId, tagIds);
+
+      const [withTags] = await this.attachTags([experience], insertExperience.userId, tx);
+      if (revision) {
+        await this.recordRevisionIn(tx, withTags, revision);
+      }
+      return withTags;
+    });
+  }
+
+  async updateExperienceWithTags(
+    id: number,
+    userId: number,
+    experienceData: Partial<Omit<ExperienceInput, 'userId'>>,
+    tagIds?: number[],
+    expectedVersion?: number,
+    revision?: RevisionAction
+  ): Promise<Experience | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(experiences)
+        .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+        .for('update');
+
+      if (!current) {
+        return undefined;
+      }
+
+      const [before] = await this.attachTags([current], userId, tx);
+      if (expectedVersion !== undefined && current.version !== expectedVersion) {
+        throw new VersionConflictError(before);
+      }
+
+      // Tag-only changes bump the version too
+      const [experience] = await tx.update(experiences)
+        .set({ ...toExperienceUpdate(experienceData), version: sql`${experiences.version} + 1` })
+        .where(eq(experiences.id, id))
+        .returning();
+
+      if (tagIds) {
+        await this.replaceTagsIn(tx, id, userId, tagIds);
+      }
+
+      const [withTags] = await this.attachTags([experience], userId, tx);
+      // Nothing to record when the update left the experience as it was
+      if (revision && !sameSnapshot(snapshotExperience(before), snapshotExperience(withTags))) {
+        await this.recordRevisionIn(tx, withTags, revision);
+      }
+      return withTags;
+    });
+  }
+
+  async deleteExperience(id: number, userId: number): Promise<boolean> {
+    const result = await db.update(experiences)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+      .returning({ id: experiences.id });
+    return result.length > 0;
+  }
+
+  // Trash methods
+  async getDeletedExperiences(userId: number): Promise<Experience[]> {
+    const experiencesList = await db.select().from(experiences)
+      .where(and(eq(experiences.userId, userId), isNotNull(experiences.deletedAt)))
+      .orderBy(desc(experiences.deletedAt));
+    return this.attachTags(experiencesList, userId);
+  }
+
+  async restoreExperience(id: number, userId: number): Promise<Experience | undefined> {
+    const [experience] = await db.update(experiences)
+      .set({ deletedAt: null })
+      .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNotNull(experiences.deletedAt)))
       .returning();
 
-    if (!updatedExperience) {
+    if (!experience) {
       return undefined;
     }
 
-    // Get tags for this experience
-    const tags = await this.getExperienceTags(id);
-    return { ...updatedExperience, tags };
+    const [withTags] = await this.attachTags([experience], userId);
+    return withTags;
   }
 
-  async deleteExperience(id: number): Promise<boolean> {
+  async purgeExperience(id: number, userId: number): Promise<boolean> {
     // This will cascade delete related experience_tags entries due to our FK constraint
-    const result = await db.delete(experiences).where(eq(experiences.id, id)).returning({ id: experiences.id });
+    const result = await db.delete(experiences)
+      .where(and(eq(experiences.id, id), eq(experiences.userId, userId), isNotNull(experiences.deletedAt)))
+      .returning({ id: experiences.id });
     return result.length > 0;
   }
 
+  async purgeDeletedExperiences(deletedBefore: Date, userId?: number): Promise<number> {
+    const result = await db.delete(experiences)
+      .where(and(
+        lt(experiences.deletedAt, deletedBefore),
+        userId === undefined ? undefined : eq(experiences.userId, userId)
+      ))
+      .returning({ id: experiences.id });
+    return result.length;
+  }
+
   // Tag methods
-  async getTags(): Promise<Tag[]> {
-    return db.select().from(tags);
+  async getTags(userId: number): Promise<Tag[]> {
+    return db.select().from(tags).where(eq(tags.userId, userId));
   }
 
-  async getTag(id: number): Promise<Tag | undefined> {
-    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+  async getTag(id: number, userId: number): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(and(eq(tags.id, id), eq(tags.userId, userId)));
     return tag || undefined;
   }
 
-  async getTagByName(name: string): Promise<Tag | undefined> {
-    const [tag] = await db.select().from(tags).where(eq(tags.name, name));
+  async getTagByName(name: string, userId: number): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(and(eq(tags.name, name), eq(tags.userId, userId)));
     return tag || undefined;
   }
 
   async createTag(insertTag: InsertTag): Promise<Tag> {
-    // Check if the tag already exists
-    const existingTag = await this.getTagByName(insertTag.name);
+    // Check if the user already has a tag with this name
+    const existingTag = await this.getTagByName(insertTag.name, insertTag.userId);
     if (existingTag) {
       return existingTag;
     }
@@ -584,24 +1510,57 @@ export class DatabaseStorage implements IStorage {
     return tag;
   }
 
-  async deleteTag(id: number): Promise<boolean> {
-    const result = await db.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id });
-    return result.length > 0;
+  async deleteTag(id: number, userId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      // Lock the experiences carrying the tag before the links cascade away
+      const tagged = await tx.select({ experience: experiences })
+        .from(experienceTags)
+        .innerJoin(experiences, eq(experienceTags.experienceId, experiences.id))
+        .where(and(eq(experienceTags.tagId, id), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+        .for('update', { of: experiences });
+
+      const result = await tx.delete(tags)
+        .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+        .returning({ id: tags.id });
+      if (result.length === 0) {
+        return false;
+      }
+
+      // Removing the tag changed every experience that carried it
+      await this.recordRevisionsIn(tx, await this.attachTags(tagged.map(row => row.experience), userId, tx), "tags");
+      return true;
+    });
   }
 
   // Experience-Tag methods
-  async getExperienceTags(experienceId: number): Promise<Tag[]> {
+  async getExperienceTags(experienceId: number, userId: number): Promise<Tag[]> {
     const tagLinks = await db.select({
       tag: tags
     })
     .from(experienceTags)
     .innerJoin(tags, eq(experienceTags.tagId, tags.id))
-    .where(eq(experienceTags.experienceId, experienceId));
+    .where(and(
+      eq(experienceTags.experienceId, experienceId),
+      eq(tags.userId, userId)
+    ));
 
     return tagLinks.map(link => link.tag);
   }
 
-  async addTagToExperience(experienceId: number, tagId: number): Promise<ExperienceTag> {
+  // Only links an experience and a tag that are both owned by userId
+  private async ownsExperienceAndTag(experienceId: number, tagId: number, userId: number): Promise<boolean> {
+    const [experience] = await db.select({ id: experiences.id })
+      .from(experiences)
+      .where(and(eq(experiences.id, experienceId), eq(experiences.userId, userId), isNull(experiences.deletedAt)));
+    const tag = await this.getTag(tagId, userId);
+    return !!experience && !!tag;
+  }
+
+  async addTagToExperience(experienceId: number, tagId: number, userId: number): Promise<ExperienceTag | undefined> {
+    if (!(await this.ownsExperienceAndTag(experienceId, tagId, userId))) {
+      return undefined;
+    }
+
     // Check if the association already exists
     const [existing] = await db.select()
       .from(experienceTags)
@@ -621,7 +1580,11 @@ export class DatabaseStorage implements IStorage {
     return experienceTag;
   }
 
-  async removeTagFromExperience(experienceId: number, tagId: number): Promise<boolean> {
+  async removeTagFromExperience(experienceId: number, tagId: number, userId: number): Promise<boolean> {
+    if (!(await this.ownsExperienceAndTag(experienceId, tagId, userId))) {
+      return false;
+    }
+
     const result = await db.delete(experienceTags)
       .where(and(
         eq(experienceTags.experienceId, experienceId),
@@ -632,90 +1595,451 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
-  // Search methods
-  async searchExperiences(params: { 
-    startDate?: Date; 
-    endDate?: Date; 
-    tagIds?: number[];
-    searchTerm?: string;
-    userId: number;
-    dropdownFilters?: Record<string, string[]>;
-  }): Promise<Experience[]> {
-    // Get all experiences with their tags
-    const allExperiences = await this.getExperiences(params.userId);
-    let filteredExperiences = allExperiences;
-
-    // Filter by start date
-    if (params.startDate) {
-      const startDate = new Date(params.startDate);
-      filteredExperiences = filteredExperiences.filter(exp => 
-        new Date(exp.startDate) >= startDate
-      );
-    }
-
-    // Filter by end date
-    if (params.endDate) {
-      const endDate = new Date(params.endDate);
-      filteredExperiences = filteredExperiences.filter(exp => 
-        !exp.endDate || new Date(exp.endDate) <= endDate
-      );
-    }
-
-    // Filter by tags
-    if (params.tagIds && params.tagIds.length > 0) {
-      filteredExperiences = filteredExperiences.filter(exp => 
-        exp.tags?.some(tag => params.tagIds!.includes(tag.id))
-      );
-    }
-
-    // Filter by dropdown values
-    if (params.dropdownFilters && Object.keys(params.dropdownFilters).length > 0) {
-      filteredExperiences = filteredExperiences.filter(exp => {
-        return Object.entries(params.dropdownFilters!).every(([columnKey, selectedValues]) => {
-          if (!selectedValues || selectedValues.length === 0) return true;
-
-          const customFields = exp.customFields || {};
-          const fieldValue = customFields[columnKey.toLowerCase()];
-
-          if (!fieldValue) return false;
-
-          // Handle array values (multi-select dropdowns)
-          if (Array.isArray(fieldValue)) {
-            return selectedValues.some(selected => 
-              fieldValue.map(v => v.toLowerCase()).includes(selected.toLowerCase())
-            );
-          }
-
-          // Handle single string values
-          return selectedValues.some(selected => 
-            fieldValue.toLowerCase() === selected.toLowerCase()
-          );
-        });
+  async replaceExperienceTags(experienceId: number, tagIds: number[], userId: number): Promise<Tag[] | undefined> {
+    const replaced = await db.transaction(async (tx) => {
+      const [experience] = await tx.select({ id: experiences.id }).from(experiences)
+        .where(and(eq(experiences.id, experienceId), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+        .for('update');
+      if (!experience) {
+        return false;
+      }
+
+      await this.replaceTagsIn(tx, experienceId, userId, tagIds);
+      await tx.update(experiences)
+        .set({ version: sql`${experiences.version} + 1` })
+        .where(eq(experiences.id, experienceId));
+      return true;
+    });
+
+    return replaced ? this.getExperienceTags(experienceId, userId) : undefined;
+  }
+
+  // Link exactly the owned tags among tagIds to the experience, inside the caller's transaction
+  private async replaceTagsIn(tx: DbExecutor, experienceId: number, userId: number, tagIds: number[]) {
+    const ownedTags = tagIds.length === 0 ? [] : await tx.select({ id: tags.id })
+      .from(tags)
+      .where(and(inArray(tags.id, tagIds), eq(tags.userId, userId)));
+    const ownedTagIds = ownedTags.map(tag => tag.id);
+
+    await tx.delete(experienceTags).where(and(
+      eq(experienceTags.experienceId, experienceId),
+      ownedTagIds.length > 0 ? notInArray(experienceTags.tagId, ownedTagIds) : undefined
+    ));
+
+    if (ownedTagIds.length > 0) {
+      await tx.insert(experienceTags)
+        .values(ownedTagIds.map(tagId => ({ experienceId, tagId })))
+        .onConflictDoNothing();
+    }
+  }
+
+  // Revision methods
+  async recordExperienceRevision(experienceId: number, userId: number, action: RevisionAction): Promise<ExperienceRevision | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the experience so concurrent saves get consecutive revision numbers
+      const [experience] = await tx.select().from(experiences)
+        .where(and(eq(experiences.id, experienceId), eq(experiences.userId, userId), isNull(experiences.deletedAt)))
+        .for('update');
+      if (!experience) {
+        return undefined;
+      }
+
+      const [withTags] = await this.attachTags([experience], userId, tx);
+      return this.recordRevisionIn(tx, withTags, action);
+    });
+  }
+
+  // Records the experience as given, within a transaction that already holds
+  // its row lock (taken by the update itself or by SELECT ... FOR UPDATE)
+  private async recordRevisionIn(tx: DbExecutor, experience: Experience, action: RevisionAction): Promise<ExperienceRevision> {
+    const snapshot = snapshotExperience(experience);
+
+    const [latest] = await tx.select().from(experienceRevisions)
+      .where(eq(experienceRevisions.experienceId, experience.id))
+      .orderBy(desc(experienceRevisions.revision))
+      .limit(1);
+    if (latest && sameSnapshot(latest.snapshot, snapshot)) {
+      return latest;
+    }
+
+    const [revision] = await tx.insert(experienceRevisions)
+      .values({ experienceId: experience.id, userId: experience.userId, revision: (latest?.revision ?? 0) + 1, action, snapshot })
+      .returning();
+    return revision;
+  }
+
+  // recordRevisionIn for many experiences at once, in batches like the imports
+  private async recordRevisionsIn(tx: DbExecutor, changed: Experience[], action: RevisionAction) {
+    for (let start = 0; start < changed.length; start += IMPORT_BATCH_SIZE) {
+      const batch = changed.slice(start, start + IMPORT_BATCH_SIZE);
+      const latest = await tx.selectDistinctOn([experienceRevisions.experienceId]).from(experienceRevisions)
+        .where(inArray(experienceRevisions.experienceId, batch.map(experience => experience.id)))
+        .orderBy(experienceRevisions.experienceId, desc(experienceRevisions.revision));
+      const latestById = new Map(latest.map(revision => [revision.experienceId, revision]));
+
+      const revisions = batch.flatMap(experience => {
+        const snapshot = snapshotExperience(experience);
+        const previous = latestById.get(experience.id);
+        if (previous && sameSnapshot(previous.snapshot, snapshot)) return [];
+        return [{ experienceId: experience.id, userId: experience.userId, revision: (previous?.revision ?? 0) + 1, action, snapshot }];
       });
+      if (revisions.length > 0) {
+        await tx.insert(experienceRevisions).values(revisions);
+      }
     }
+  }
+
+  // A column edit rewrote the stored values of these experiences. Trashed ones are
+  // skipped, as everywhere else, and get history once restored and edited.
+  private async recordColumnChangeIn(tx: DbExecutor, userId: number, experienceIds: number[]) {
+    if (experienceIds.length === 0) return;
+    const changed = await tx.select().from(experiences)
+      .where(and(inArray(experiences.id, experienceIds), eq(experiences.userId, userId), isNull(experiences.deletedAt)));
+    await this.recordRevisionsIn(tx, await this.attachTags(changed, userId, tx), "column");
+  }
+
+  async getExperienceRevisions(experienceId: number, userId: number): Promise<ExperienceRevision[]> {
+    return db.select().from(experienceRevisions)
+      .where(and(eq(experienceRevisions.experienceId, experienceId), eq(experienceRevisions.userId, userId)))
+      .orderBy(desc(experienceRevisions.revision));
+  }
+
+  async getExperienceRevision(experienceId: number, revision: number, userId: number): Promise<ExperienceRevision | undefined> {
+    const [found] = await db.select().from(experienceRevisions)
+      .where(and(
+        eq(experienceRevisions.experienceId, experienceId),
+        eq(experienceRevisions.revision, revision),
+        eq(experienceRevisions.userId, userId)
+      ));
+    return found || undefined;
+  }
+
+  // Backup methods
+  async exportArchive(userId: number): Promise<AccountArchive> {
+    return buildArchive({
+      columns: [...await this.getColumns(userId), ...await this.getArchivedColumns(userId)],
+      tags: await this.getTags(userId),
+      experiences: [...await this.getExperiences(userId), ...await this.getDeletedExperiences(userId)],
+    });
+  }
 
-    // Filter by search term
-    if (params.searchTerm) {
-      const searchTerm = params.searchTerm.toLowerCase();
-      filteredExperiences = filteredExperiences.filter(exp => {
-        const customFields = exp.customFields || {};
-        const customFieldsMatch = Object.values(customFields).some(value => {
-          if (!value) return false;
-          if (Array.isArray(value)) {
-            return value.some(v => v.toLowerCase().includes(searchTerm));
-          }
-          return String(value).toLowerCase().includes(searchTerm);
-        });
-
-        const tagsMatch = exp.tags?.some(tag =>
-          tag.name.toLowerCase().includes(searchTerm)
-        );
-
-        return customFieldsMatch || tagsMatch;
+  async importArchive(userId: number, archive: AccountArchive, mode: ArchiveImportMode): Promise<ArchiveImportResult> {
+    const plan = await db.transaction(async (tx) => {
+      // Plan against the account as this transaction sees it
+      const plan = planArchiveImport(archive, mode, {
+        columns: await tx.select().from(columns).where(eq(columns.userId, userId)),
+        tags: await tx.select().from(tags).where(eq(tags.userId, userId)),
+        experiences: await tx.select().from(experiences).where(eq(experiences.userId, userId)),
       });
+
+      if (mode === "replace") {
+        // Cascades to experience-tag links and revisions
+        await tx.delete(experiences).where(eq(experiences.userId, userId));
+        await tx.delete(tags).where(eq(tags.userId, userId));
+        await tx.delete(columns).where(eq(columns.userId, userId));
+      }
+
+      if (plan.columns.length > 0) {
+        await tx.insert(columns).values(plan.columns.map(column => ({ ...column, userId })));
+      }
+
+      const tagIds = new Map(plan.existingTagIds);
+      for (const tag of plan.tags) {
+        const [created] = await tx.insert(tags).values({ name: tag.name, userId }).returning({ id: tags.id });
+        tagIds.set(tag.id, created.id);
+      }
+
+      // One row at a time so each archive id maps to its new id
+      const experienceIds = new Map<number, number>();
+      for (const { id, ...experienceData } of plan.experiences) {
+        const [created] = await tx.insert(experiences).values({ ...experienceData, userId }).returning({ id: experiences.id });
+        experienceIds.set(id, created.id);
+      }
+
+      if (plan.experienceTags.length > 0) {
+        await tx.insert(experienceTags).values(plan.experienceTags.map(link => ({
+          experienceId: experienceIds.get(link.experienceId)!,
+          tagId: tagIds.get(link.tagId)!,
+        })));
+      }
+
+      // Trashed experiences are skipped here and get history once restored and edited
+      const imported = experienceIds.size > 0
+        ? await tx.select().from(experiences).where(and(
+            inArray(experiences.id, Array.from(experienceIds.values())),
+            isNull(experiences.deletedAt)
+          ))
+        : [];
+      await this.recordRevisionsIn(tx, await this.attachTags(imported, userId, tx), "create");
+
+      return plan;
+    });
+
+    return importResult(plan, mode);
+  }
+
+  async importExperiences(
+    userId: number,
+    newColumns: Omit<InsertColumn, 'userId'>[],
+    addedOptions: DropdownOptionAddition[],
+    newExperiences: ImportedExperienceInput[]
+  ): Promise<{ columns: Column[]; tags: Tag[]; experiences: Experience[] }> {
+    return db.transaction(async (tx) => {
+      const createdColumns = newColumns.length > 0
+        ? await tx.insert(columns).values(newColumns.map(column => ({ ...column, userId }))).returning()
+        : [];
+
+      for (const { key, options } of addedOptions) {
+        const [column] = await tx.select().from(columns)
+          .where(and(eq(columns.key, key), eq(columns.userId, userId)))
+          .for('update');
+        if (!column) continue;
+        await tx.update(columns)
+          .set({ dropdownOptions: [...(column.dropdownOptions ?? []), ...options], version: sql`${columns.version} + 1` })
+          .where(eq(columns.id, column.id));
+      }
+
+      const existingTags = await tx.select().from(tags).where(eq(tags.userId, userId));
+      const missingTags = missingTagNames(newExperiences, existingTags);
+      const createdTags = missingTags.length > 0
+        ? await tx.insert(tags).values(missingTags.map(name => ({ name, userId }))).returning()
+        : [];
+      const userTags = [...existingTags, ...createdTags];
+
+      // In batches, to stay under the bind parameter limit on large files
+      const createdExperiences: Experience[] = [];
+      for (let start = 0; start < newExperiences.length; start += IMPORT_BATCH_SIZE) {
+        const batch = newExperiences.slice(start, start + IMPORT_BATCH_SIZE);
+        const rows = await tx.insert(experiences).values(batch.map(experience => ({
+          startDate: toDateString(experience.startDate),
+          endDate: experience.endDate ? toDateString(experience.endDate) : null,
+          customFields: experience.customFields,
+          userId,
+        }))).returning();
+
+        // RETURNING gives the rows back in the order they were inserted
+        const batchTags = rows.map((row, index) => batch[index].tags.map(name => findTag(userTags, name)!));
+        const links = rows.flatMap((row, index) => batchTags[index].map(tag => ({ experienceId: row.id, tagId: tag.id })));
+        if (links.length > 0) {
+          await tx.insert(experienceTags).values(links);
+        }
+        createdExperiences.push(...rows.map((row, index) => ({ ...row, tags: batchTags[index] })));
+      }
+
+      await this.recordRevisionsIn(tx, createdExperiences, "create");
+
+      return { columns: createdColumns, tags: createdTags, experiences: createdExperiences };
+    });
+  }
+
+
+  // Search methods
+  async searchExperiences(params: ExperienceSearchParams): Promise<Experience[]> {
+    const experiencesList = await db.select()
+      .from(experiences)
+      .where(and(...buildSearchConditions(params)));
+
+    return this.attachTags(experiencesList, params.userId);
+  }
+
+  async queryExperiences(params: ExperienceSearchParams, options: ExperiencePageOptions): Promise<ExperiencePage> {
+    const where = and(...buildSearchConditions(params));
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(experiences)
+      .where(where);
+
+    const experiencesList = await db.select()
+      .from(experiences)
+      .where(where)
+      .orderBy(...buildSortOrder(options))
+      .limit(options.pageSize)
+      .offset((options.page - 1) * options.pageSize);
+
+    return {
+      items: await this.attachTags(experiencesList, params.userId),
+      total,
+      page: options.page,
+      pageSize: options.pageSize,
+      totalPages: Math.max(1, Math.ceil(total / options.pageSize)),
+    };
+  }
+
+  // Resume methods
+  async getResumes(userId: number): Promise<Resume[]> {
+    return db.select().from(resumes)
+      .where(eq(resumes.userId, userId))
+      .orderBy(desc(resumes.updatedAt));
+  }
+
+  async getResume(id: number, userId: number): Promise<Resume | undefined> {
+    const [resume] = await db.select().from(resumes)
+      .where(and(eq(resumes.id, id), eq(resumes.userId, userId)));
+    return resume || undefined;
+  }
+
+  async createResume(insertResume: InsertResume): Promise<Resume> {
+    const [resume] = await db.insert(resumes).values(insertResume).returning();
+    return resume;
+  }
+
+  async updateResume(id: number, userId: number, resumeData: Partial<ResumeFormData>): Promise<Resume | undefined> {
+    const [resume] = await db.update(resumes)
+      .set({ ...resumeData, updatedAt: new Date() })
+      .where(and(eq(resumes.id, id), eq(resumes.userId, userId)))
+      .returning();
+    return resume || undefined;
+  }
+
+  async deleteResume(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(resumes)
+      .where(and(eq(resumes.id, id), eq(resumes.userId, userId)))
+      .returning({ id: resumes.id });
+    return result.length > 0;
+  }
+
+  // Question methods
+  async getQuestions(userId: number): Promise<Question[]> {
+    const questionList = await db.select().from(questions)
+      .where(eq(questions.userId, userId))
+      .orderBy(desc(questions.updatedAt));
+    return this.attachExperienceIds(questionList);
+  }
+
+  async getQuestion(id: number, userId: number): Promise<Question | undefined> {
+    const [question] = await db.select().from(questions)
+      .where(and(eq(questions.id, id), eq(questions.userId, userId)));
+    if (!question) {
+      return undefined;
     }
 
-    return filteredExperiences;
+    const [withExperienceIds] = await this.attachExperienceIds([question]);
+    return withExperienceIds;
+  }
+
+  async createQuestion({ experienceIds, ...insertQuestion }: InsertQuestion): Promise<Question> {
+    const question = await db.transaction(async (tx) => {
+      const [question] = await tx.insert(questions).values(insertQuestion).returning();
+      await this.replaceQuestionLinksIn(tx, question.id, insertQuestion.userId, experienceIds);
+      return question;
+    });
+
+    const [withExperienceIds] = await this.attachExperienceIds([question]);
+    return withExperienceIds;
+  }
+
+  async updateQuestion(id: number, userId: number, { experienceIds, ...questionData }: Partial<QuestionFormData>): Promise<Question | undefined> {
+    const question = await db.transaction(async (tx) => {
+      const [question] = await tx.update(questions)
+        .set({ ...questionData, updatedAt: new Date() })
+        .where(and(eq(questions.id, id), eq(questions.userId, userId)))
+        .returning();
+      if (question && experienceIds) {
+        await this.replaceQuestionLinksIn(tx, id, userId, experienceIds);
+      }
+      return question;
+    });
+    if (!question) {
+      return undefined;
+    }
+
+    const [withExperienceIds] = await this.attachExperienceIds([question]);
+    return withExperienceIds;
+  }
+
+  async deleteQuestion(id: number, userId: number): Promise<boolean> {
+    // Links go with it through the question_experiences foreign key
+    const result = await db.delete(questions)
+      .where(and(eq(questions.id, id), eq(questions.userId, userId)))
+      .returning({ id: questions.id });
+    return result.length > 0;
+  }
+
+  // Practice methods
+  async getPracticeSchedules(userId: number): Promise<PracticeSchedule[]> {
+    return db.select().from(practiceSchedules).where(eq(practiceSchedules.userId, userId));
+  }
+
+  async getPracticeReviewDays(userId: number): Promise<string[]> {
+    const day = sql<string>`to_char(${practiceReviews.reviewedAt}, 'YYYY-MM-DD')`;
+    const rows = await db.selectDistinct({ day }).from(practiceReviews)
+      .where(eq(practiceReviews.userId, userId))
+      .orderBy(desc(day));
+    return rows.map(row => row.day);
+  }
+
+  async recordPracticeReview(
+    review: InsertPracticeReview,
+    schedule: (current: PracticeSchedule | undefined) => PracticeScheduleState
+  ): Promise<PracticeSchedule | undefined> {
+    return db.transaction(async (tx) => {
+      const [experience] = await tx.select({ id: experiences.id }).from(experiences)
+        .where(and(
+          eq(experiences.id, review.experienceId),
+          eq(experiences.userId, review.userId),
+          isNull(experiences.deletedAt)
+        ))
+        .for('update');
+      if (!experience) {
+        return undefined;
+      }
+
+      // The experience row lock keeps concurrent attempts from reading the same schedule
+      const [current] = await tx.select().from(practiceSchedules)
+        .where(eq(practiceSchedules.experienceId, review.experienceId));
+      const values = {
+        ...schedule(current),
+        reviewCount: (current?.reviewCount ?? 0) + 1,
+        lastReviewedAt: review.reviewedAt,
+      };
+
+      const [updated] = current
+        ? await tx.update(practiceSchedules).set(values).where(eq(practiceSchedules.id, current.id)).returning()
+        : await tx.insert(practiceSchedules)
+          .values({ ...values, userId: review.userId, experienceId: review.experienceId })
+          .returning();
+      await tx.insert(practiceReviews).values(review);
+      return updated;
+    });
+  }
+
+  // Load the linked experience ids for a batch of questions with a single query
+  private async attachExperienceIds<T extends { id: number }>(questionList: T[]): Promise<(T & { experienceIds: number[] })[]> {
+    if (questionList.length === 0) {
+      return [];
+    }
+
+    const links = await db.select().from(questionExperiences)
+      .where(inArray(questionExperiences.questionId, questionList.map(question => question.id)));
+
+    const idsByQuestion = new Map<number, number[]>();
+    for (const link of links) {
+      const list = idsByQuestion.get(link.questionId) || [];
+      list.push(link.experienceId);
+      idsByQuestion.set(link.questionId, list);
+    }
+
+    return questionList.map(question => ({ ...question, experienceIds: idsByQuestion.get(question.id) || [] }));
+  }
+
+  // Link exactly the owned experiences among experienceIds to the question, inside
+  // the caller's transaction. Experiences in the trash can stay linked.
+  private async replaceQuestionLinksIn(tx: DbExecutor, questionId: number, userId: number, experienceIds: number[]) {
+    const owned = experienceIds.length === 0 ? [] : await tx.select({ id: experiences.id })
+      .from(experiences)
+      .where(and(inArray(experiences.id, experienceIds), eq(experiences.userId, userId)));
+    const ownedIds = owned.map(experience => experience.id);
+
+    await tx.delete(questionExperiences).where(and(
+      eq(questionExperiences.questionId, questionId),
+      ownedIds.length > 0 ? notInArray(questionExperiences.experienceId, ownedIds) : undefined
+    ));
+
+    if (ownedIds.length > 0) {
+      await tx.insert(questionExperiences)
+        .values(ownedIds.map(experienceId => ({ questionId, experienceId })))
+        .onConflictDoNothing();
+    }
   }
 }
 
@@ -0,0 +1,33 @@
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { migrations } from "./migrations";
+
+// The SQL each test database has run, in order; tests clear it to count the
+// queries one call makes
+export const executedQueries: string[] = [];
+
+/*
+ * An in-process Postgres for tests with every migration applied, standing in
+ * for ./db:
+ *
+ *   vi.mock("./db", async () => (await import("./test-db")).createTestDb());
+ *
+ * Each test file gets its own database.
+ */
+export async function createTestDb() {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  for (const migration of migrations) {
+    for (const statement of migration.statements) {
+      await client.exec(statement);
+    }
+  }
+
+  const db = drizzle({
+    client,
+    schema,
+    logger: { logQuery: (query) => { executedQueries.push(query); } },
+  });
+  return { db, pool: client };
+}
@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted experiences stay in the trash, from TRASH_RETENTION_DAYS
+export const trashRetentionDays = (() => {
+  const configured = process.env.TRASH_RETENTION_DAYS;
+  if (configured === undefined || configured === "") return DEFAULT_RETENTION_DAYS;
+
+  const days = Number(configured);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`TRASH_RETENTION_DAYS must be a whole number of days, got "${configured}"`);
+  }
+  return days;
+})();
+
+// Permanently delete every experience that has been in the trash longer than the retention period
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays * DAY_MS);
+  return storage.purgeDeletedExperiences(cutoff);
+}
+
+// Purge once at startup and then periodically for as long as the server runs
+export function scheduleTrashPurge() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        log(`purged ${purged} experience(s) from the trash`);
+      }
+    } catch (error) {
+      console.error("Error purging the trash:", error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,47 @@
+// Durations are stored in minutes and written as text like "1h 30m"
+
+const MINUTES_PER_UNIT: Record<string, number> = {
+  w: 7 * 24 * 60,
+  d: 24 * 60,
+  h: 60,
+  m: 1,
+};
+
+// Format a duration stored in minutes, e.g. 150 -> "2h 30m"
+export const formatDuration = (minutes: number): string => {
+  if (minutes <= 0) return "0m";
+
+  const parts: string[] = [];
+  let remaining = Math.round(minutes);
+  for (const [unit, size] of Object.entries(MINUTES_PER_UNIT)) {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * size;
+    }
+  }
+  return parts.join(" ");
+};
+
+// Parse "1h 30m", "45m", "1.5h", "3d", "2w" or a plain number of minutes.
+// Returns the total in minutes, or null when the text isn't a duration.
+export const parseDuration = (input: string | number): number | null => {
+  if (typeof input === "number") return Number.isFinite(input) && input >= 0 ? Math.round(input) : null;
+
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(parseFloat(text));
+
+  const pattern = /(\d+(?:\.\d+)?)\s*([wdhm])/g;
+  let total = 0;
+  let consumed = "";
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    total += parseFloat(match[1]) * MINUTES_PER_UNIT[match[2]];
+    consumed += match[0];
+  }
+
+  // Reject anything with leftover characters, e.g. "2 hours" or "1x"
+  if (!consumed || consumed.replace(/\s/g, "") !== text.replace(/\s/g, "")) return null;
+  return Math.round(total);
+};
@@ -1,6 +1,6 @@
-import { pgTable, text, serial, integer, boolean, date, jsonb, uniqueIndex, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, real, index, uniqueIndex, foreignKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from "zod";
 
 // User schema from the original file
@@ -21,12 +21,16 @@ export const columns = pgTable("columns", {
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   name: text("name").notNull(),
   key: text("key").notNull(),
-  type: text("type").notNull(), // date, short-text, long-text, dropdown
+  type: text("type").notNull(), // one of columnTypeValues
   dropdownOptions: text("dropdown_options").array(), // For dropdown type, stores the available options
   allowMultiple: boolean("allow_multiple").default(false), // For dropdown type, allows multiple selections
   isVisible: boolean("is_visible").default(true),
   order: integer("order").notNull(),
-});
+  archivedAt: timestamp("archived_at"), // Set while the column is archived; its values stay in customFields
+  version: integer("version").notNull().default(1), // Bumped on every change; see versionTokenSchema
+}, (t) => ({
+  userKeyUnique: uniqueIndex("columns_user_key_unique_idx").on(t.userId, t.key),
+}));
 
 export const columnsRelations = relations(columns, ({ many }) => ({
   experiences: many(experiences),
@@ -34,6 +38,8 @@ export const columnsRelations = relations(columns, ({ many }) => ({
 
 export const insertColumnSchema = createInsertSchema(columns).omit({
   id: true,
+  archivedAt: true,
+  version: true,
 });
 
 // Work Experience schema
@@ -43,21 +49,37 @@ export const experiences = pgTable("experiences", {
   startDate: date("start_date").notNull(),
   endDate: date("end_date"),
   customFields: jsonb("custom_fields").notNull(), // Stores the values for custom columns
-});
+  deletedAt: timestamp("deleted_at"), // Set while the experience is in the trash
+  version: integer("version").notNull().default(1), // Bumped on every change, tags included
+}, (t) => ({
+  userStartDateIdx: index("experiences_user_start_date_idx").on(t.userId, t.startDate),
+  deletedAtIdx: index("experiences_deleted_at_idx").on(t.deletedAt).where(sql`${t.deletedAt} is not null`),
+  // Case-insensitive dropdown filters use containment against the lowercased document
+  customFieldsLowerIdx: index("experiences_custom_fields_lower_idx").using("gin", sql`(lower(${t.customFields}::text)::jsonb) jsonb_path_ops`),
+  // Free-text search prefilters on the document text
+  customFieldsTrgmIdx: index("experiences_custom_fields_trgm_idx").using("gin", sql`(${t.customFields}::text) gin_trgm_ops`),
+}));
 
 export const experiencesRelations = relations(experiences, ({ many }) => ({
   experienceTags: many(experienceTags),
+  revisions: many(experienceRevisions),
+  questionExperiences: many(questionExperiences),
 }));
 
 export const insertExperienceSchema = createInsertSchema(experiences).omit({
   id: true,
+  deletedAt: true,
+  version: true,
 });
 
 // Tags schema
 export const tags = pgTable("tags", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
-});
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+}, (t) => ({
+  userTagNameUnique: uniqueIndex("tags_user_name_unique_idx").on(t.userId, t.name),
+}));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
   experienceTags: many(experienceTags),
@@ -74,6 +96,7 @@ export const experienceTags = pgTable("experience_tags", {
   tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: 'cascade' }),
 }, (t) => ({
   experienceTagUnique: uniqueIndex("experience_tag_unique_idx").on(t.experienceId, t.tagId),
+  tagIdIdx: index("experience_tags_tag_id_idx").on(t.tagId),
 }));
 
 export const experienceTagsRelations = relations(experienceTags, ({ one }) => ({
@@ -91,6 +114,127 @@ export const insertExperienceTagSchema = createInsertSchema(experienceTags).omit
   id: true,
 });
 
+// What a revision records: "baseline" is the state an experience was in when
+// history tracking started, the others name the change that produced it.
+// "column" is a column edit that rewrote stored values: a key rename, remapped
+// dropdown options or purged values.
+export const revisionActions = ["baseline", "create", "update", "tags", "restore", "column"] as const;
+export type RevisionAction = typeof revisionActions[number];
+
+// The full editable state of an experience at one point in time
+export interface ExperienceSnapshot {
+  startDate: string;
+  endDate: string | null;
+  customFields: Record<string, any>;
+  tags: { id: number; name: string }[]; // ordered by id
+}
+
+// Experience revision history, one row per saved change
+export const experienceRevisions = pgTable("experience_revisions", {
+  id: serial("id").primaryKey(),
+  experienceId: integer("experience_id").notNull().references(() => experiences.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  revision: integer("revision").notNull(), // 1, 2, 3... within each experience
+  action: text("action").notNull(), // one of revisionActions
+  snapshot: jsonb("snapshot").$type<ExperienceSnapshot>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  experienceRevisionUnique: uniqueIndex("experience_revisions_experience_revision_idx").on(t.experienceId, t.revision),
+}));
+
+export const experienceRevisionsRelations = relations(experienceRevisions, ({ one }) => ({
+  experience: one(experiences, {
+    fields: [experienceRevisions.experienceId],
+    references: [experiences.id],
+  }),
+}));
+
+// Saved resume variants, each aimed at one target role. What goes into the
+// resume (selection) and how columns map onto it (sections) are stored as JSON;
+// see resumeFormSchema.
+export const resumes = pgTable("resumes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  targetRole: text("target_role").notNull(),
+  template: text("template").notNull(), // one of resumeTemplates
+  heading: text("heading"), // Name on the first line, contact details below
+  summary: text("summary"),
+  selection: jsonb("selection").$type<ResumeSelection>().notNull(),
+  sections: jsonb("sections").$type<ResumeSections>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("resumes_user_id_idx").on(t.userId),
+}));
+
+// Interview question bank. Each question belongs to one user; experiences are
+// linked to it as candidate answers.
+export const questions = pgTable("questions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  text: text("text").notNull(),
+  category: text("category").notNull(), // one of questionCategories
+  competency: text("competency").notNull(), // e.g. "Leadership" or "System design"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("questions_user_id_idx").on(t.userId),
+}));
+
+export const questionsRelations = relations(questions, ({ many }) => ({
+  questionExperiences: many(questionExperiences),
+}));
+
+// Question-Experiences relation: the experiences that answer a question
+export const questionExperiences = pgTable("question_experiences", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  experienceId: integer("experience_id").notNull().references(() => experiences.id, { onDelete: 'cascade' }),
+}, (t) => ({
+  questionExperienceUnique: uniqueIndex("question_experience_unique_idx").on(t.questionId, t.experienceId),
+  experienceIdIdx: index("question_experiences_experience_id_idx").on(t.experienceId),
+}));
+
+export const questionExperiencesRelations = relations(questionExperiences, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionExperiences.questionId],
+    references: [questions.id],
+  }),
+  experience: one(experiences, {
+    fields: [questionExperiences.experienceId],
+    references: [experiences.id],
+  }),
+}));
+
+// Practice mode. Each experience that has been rehearsed has one SM-2 schedule
+// row saying when it is next due; every attempt is also logged, for the streak.
+export const practiceSchedules = pgTable("practice_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  experienceId: integer("experience_id").notNull().references(() => experiences.id, { onDelete: 'cascade' }),
+  repetitions: integer("repetitions").notNull(), // Successful recalls in a row
+  intervalDays: integer("interval_days").notNull(),
+  easeFactor: real("ease_factor").notNull(),
+  dueDate: date("due_date").notNull(), // YYYY-MM-DD (UTC)
+  reviewCount: integer("review_count").notNull(),
+  lastReviewedAt: timestamp("last_reviewed_at").notNull(),
+}, (t) => ({
+  experienceUnique: uniqueIndex("practice_schedules_experience_idx").on(t.experienceId),
+  userIdx: index("practice_schedules_user_id_idx").on(t.userId),
+}));
+
+export const practiceReviews = pgTable("practice_reviews", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  experienceId: integer("experience_id").notNull().references(() => experiences.id, { onDelete: 'cascade' }),
+  questionId: integer("question_id").references(() => questions.id, { onDelete: 'set null' }), // The question it was rehearsed against
+  rating: integer("rating").notNull(), // 0-5, see practiceReviewSchema
+  reviewedAt: timestamp("reviewed_at").notNull(),
+}, (t) => ({
+  userReviewedAtIdx: index("practice_reviews_user_reviewed_at_idx").on(t.userId, t.reviewedAt),
+}));
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -102,6 +246,11 @@ export type Experience = typeof experiences.$inferSelect & {
   tags?: Tag[];
 };
 export type InsertExperience = z.infer<typeof insertExperienceSchema>;
+// What the server accepts when writing an experience: dates may still be Date objects
+export type ExperienceInput = Omit<InsertExperience, 'startDate' | 'endDate'> & {
+  startDate: string | Date;
+  endDate?: string | Date | null;
+};
 
 export type Tag = typeof tags.$inferSelect;
 export type InsertTag = z.infer<typeof insertTagSchema>;
@@ -109,6 +258,25 @@ export type InsertTag = z.infer<typeof insertTagSchema>;
 export type ExperienceTag = typeof experienceTags.$inferSelect;
 export type InsertExperienceTag = z.infer<typeof insertExperienceTagSchema>;
 
+export type ExperienceRevision = typeof experienceRevisions.$inferSelect;
+
+export type QuestionExperience = typeof questionExperiences.$inferSelect;
+
+// One field that differs between two revisions. field is "startDate", "endDate",
+// "tags" (tag names) or "customFields.<column key>".
+export interface RevisionFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Returned by GET /api/experiences/:id/revisions/diff
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  changes: RevisionFieldChange[];
+}
+
 // Extend the experience schema for the client
 export const experienceSchema = z.object({
   id: z.number().optional(),
@@ -135,11 +303,96 @@ export const experienceSchema = z.object({
 
 export type ExperienceFormData = z.infer<typeof experienceSchema>;
 
+// Inclusive bounds for numeric column filters; either side may be left open
+export interface RangeFilter {
+  min?: number;
+  max?: number;
+}
+
+// Filters accepted by POST /api/experiences/search
+export interface ExperienceFilters {
+  startDate?: string;
+  endDate?: string;
+  tagIds?: number[];
+  searchTerm?: string;
+  dropdownFilters?: Record<string, string[]>;
+  // Keyed by column key, for number, currency, rating and duration columns
+  rangeFilters?: Record<string, RangeFilter>;
+  // Keyed by column key, for boolean columns; false also matches unset values
+  booleanFilters?: Record<string, boolean>;
+  // Only experiences linked to this question as answers
+  questionId?: number;
+}
+
+// The same filters as a schema, for places that store or validate them (saved resumes)
+const filterDate = z.string().refine(value => !isNaN(Date.parse(value)), { message: "Invalid date" });
+
+export const experienceFiltersSchema: z.ZodType<ExperienceFilters> = z.object({
+  startDate: filterDate.optional(),
+  endDate: filterDate.optional(),
+  tagIds: z.array(z.number().int()).optional(),
+  searchTerm: z.string().optional(),
+  dropdownFilters: z.record(z.array(z.string())).optional(),
+  rangeFilters: z.record(z.object({ min: z.number().optional(), max: z.number().optional() })).optional(),
+  booleanFilters: z.record(z.boolean()).optional(),
+  questionId: z.number().int().optional(),
+});
+
+// Paging and sorting for experience lists. sortBy is "startDate", "endDate" or a customFields key.
+export const experiencePageSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+  sortBy: z.string().min(1).default("startDate"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type ExperiencePageOptions = z.infer<typeof experiencePageSchema>;
+
+export interface ExperiencePage {
+  items: Experience[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Returned by GET /api/experiences/trash, most recently deleted first
+export interface ExperienceTrash {
+  items: Experience[];
+  // Trashed experiences are purged this many days after deletedAt
+  retentionDays: number;
+}
+
+// Every kind of column a user can configure
+export const columnTypeValues = [
+  "date",
+  "short-text",
+  "long-text",
+  "dropdown",
+  "number",
+  "currency",
+  "url",
+  "boolean",
+  "rating",
+  "duration",
+  "story",
+] as const;
+
+export type ColumnType = typeof columnTypeValues[number];
+
+// Column rows store their type as plain text; this narrows it to a ColumnType
+export const isColumnType = (type: string): type is ColumnType =>
+  (columnTypeValues as readonly string[]).includes(type);
+
+// Column types whose values are stored as JSON numbers and can be range filtered.
+// Ratings are whole numbers from 1 to 5; durations are stored in minutes.
+export const numericColumnTypes: ColumnType[] = ["number", "currency", "rating", "duration"];
+
 // Column form schema
 export const columnFormSchema = z.object({
   name: z.string().min(1, { message: "Name is required" }),
   key: z.string().min(1, { message: "Key is required" }),
-  type: z.enum(["date", "short-text", "long-text", "dropdown"]),
+  type: z.enum(columnTypeValues),
   dropdownOptions: z.array(z.string()).optional().nullable(),
   allowMultiple: z.boolean().optional().nullable(),
   isVisible: z.boolean().default(true),
@@ -147,3 +400,507 @@ export const columnFormSchema = z.object({
 });
 
 export type ColumnFormData = z.infer<typeof columnFormSchema>;
+
+// Optimistic concurrency: a PATCH may carry the version of the row the client
+// last saw. If the row has changed since, the server answers 409 with a
+// VersionConflict instead of applying the update.
+export const versionTokenSchema = z.object({
+  version: z.number().int().positive().optional(),
+});
+
+export interface VersionConflict<T> {
+  message: string;
+  current: T;
+}
+
+// How an edit to a dropdown column's options applies to values already stored in experiences.
+// Sent alongside dropdownOptions when updating a column.
+export const dropdownOptionChangesSchema = z.object({
+  // Old option -> the option it becomes; several old options pointing at one option merges them
+  renames: z.record(z.string().min(1)).default({}),
+  // Stored values of options that were removed (not renamed) are kept as legacy values or cleared
+  removedValues: z.enum(["keep", "clear"]).default("keep"),
+});
+
+export type DropdownOptionChanges = z.infer<typeof dropdownOptionChangesSchema>;
+
+// DELETE /api/columns/:id either archives the column (restorable, values kept)
+// or purges it (the column and every stored value are removed)
+export const columnDeleteModes = ["archive", "purge"] as const;
+export type ColumnDeleteMode = typeof columnDeleteModes[number];
+
+// A customFields key that experiences still store but no column (active or archived) uses
+export interface OrphanedFieldKey {
+  key: string;
+  experienceCount: number;
+}
+
+// Keys that map to an experience's own date fields rather than customFields
+export const reservedColumnKeys = ["startDate", "endDate"];
+
+// Returned by GET /api/columns/:id/rename-preview before a key change is saved
+export interface ColumnKeyRenamePreview {
+  oldKey: string;
+  newKey: string;
+  // Experiences with a value under the old key; the rename moves each one
+  affected: number;
+  // Of those, experiences that already hold a value under the new key, which gets replaced
+  overwritten: number;
+}
+
+// Full account backup produced by GET /api/export and read by POST /api/import.
+// Ids are the exporting account's and only link records within the archive;
+// importing assigns new ones. Bump ARCHIVE_FORMAT_VERSION on breaking changes.
+export const ARCHIVE_FORMAT = "worktrackerpro-archive";
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+const archiveDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Dates must be YYYY-MM-DD" });
+
+export const accountArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT, { errorMap: () => ({ message: "Not a WorktrackerPro backup" }) }),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  columns: z.array(z.object({
+    name: z.string().min(1),
+    key: z.string().min(1),
+    type: z.enum(columnTypeValues),
+    dropdownOptions: z.array(z.string()).nullable().default(null),
+    allowMultiple: z.boolean().nullable().default(false),
+    isVisible: z.boolean().nullable().default(true),
+    order: z.number().int(),
+    archivedAt: z.coerce.date().nullable().default(null),
+  })),
+  tags: z.array(z.object({
+    id: z.number().int(),
+    name: z.string().min(1),
+  })),
+  experiences: z.array(z.object({
+    id: z.number().int(),
+    startDate: archiveDate,
+    endDate: archiveDate.nullable().default(null),
+    customFields: z.record(z.any()),
+    deletedAt: z.coerce.date().nullable().default(null),
+  })),
+  experienceTags: z.array(z.object({
+    experienceId: z.number().int(),
+    tagId: z.number().int(),
+  })),
+}).superRefine((archive, ctx) => {
+  const unique = (values: (string | number)[], what: string, path: string) => {
+    const seen = new Set<string | number>();
+    values.forEach((value, index) => {
+      if (seen.has(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path, index], message: `Duplicate ${what} "${value}"` });
+      }
+      seen.add(value);
+    });
+  };
+  unique(archive.columns.map(column => column.key), "column key", "columns");
+  unique(archive.tags.map(tag => tag.id), "tag id", "tags");
+  unique(archive.tags.map(tag => tag.name), "tag name", "tags");
+  unique(archive.experiences.map(exp => exp.id), "experience id", "experiences");
+
+  const tagIds = new Set(archive.tags.map(tag => tag.id));
+  const experienceIds = new Set(archive.experiences.map(exp => exp.id));
+  archive.experienceTags.forEach((link, index) => {
+    if (!experienceIds.has(link.experienceId) || !tagIds.has(link.tagId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["experienceTags", index],
+        message: `Link between experience ${link.experienceId} and tag ${link.tagId} refers to a missing record`,
+      });
+    }
+  });
+});
+
+export type AccountArchive = z.infer<typeof accountArchiveSchema>;
+
+// replace wipes the account's columns, tags and experiences first; merge adds to them
+export const archiveImportModes = ["replace", "merge"] as const;
+export type ArchiveImportMode = typeof archiveImportModes[number];
+
+// Something in the archive that was not imported as-is during a merge
+export interface ArchiveImportConflict {
+  kind: "column" | "tag" | "experience";
+  // The column key, tag name or archive experience id
+  item: string;
+  resolution: string;
+}
+
+// Returned by POST /api/import
+export interface ArchiveImportResult {
+  mode: ArchiveImportMode;
+  created: { columns: number; tags: number; experiences: number; experienceTags: number };
+  conflicts: ArchiveImportConflict[];
+}
+
+// Spreadsheet import of experiences (CSV or TSV). The client uploads the file
+// text to /api/experiences/import/preview to see its headers, then posts it to
+// /api/experiences/import with one mapping per header: a dry run first, which
+// reports row-level errors, then the real import of the rows that passed.
+export const csvDelimiters = [",", "\t"] as const;
+export type CsvDelimiter = typeof csvDelimiters[number];
+
+// What an import file holds: a CSV/TSV spreadsheet, or a JSON Resume (jsonresume.org)
+// whose work, volunteer and project entries are read as rows with fixed headers
+export const importSources = ["spreadsheet", "jsonResume"] as const;
+export type ImportSource = typeof importSources[number];
+
+export const experienceImportMappingSchema = z.discriminatedUnion("target", [
+  z.object({ target: z.literal("ignore") }),
+  z.object({ target: z.literal("startDate") }),
+  z.object({ target: z.literal("endDate") }),
+  // An existing active column. With addOptions, values a dropdown column doesn't
+  // have yet become new options instead of row errors.
+  z.object({ target: z.literal("column"), key: z.string().min(1), addOptions: z.boolean().optional() }),
+  // A column created by the import; dropdown options are collected from the file
+  z.object({
+    target: z.literal("newColumn"),
+    column: columnFormSchema.pick({ name: true, key: true, type: true, allowMultiple: true }),
+  }),
+  // Tag names, split like a multi-select dropdown cell; missing tags are created
+  z.object({ target: z.literal("tags") }),
+]);
+
+export type ExperienceImportMapping = z.infer<typeof experienceImportMappingSchema>;
+
+export const experienceImportPreviewSchema = z.object({
+  text: z.string().min(1, { message: "The file is empty" }),
+  source: z.enum(importSources).default("spreadsheet"),
+  // Spreadsheets only; detected from the first line when left out
+  delimiter: z.enum(csvDelimiters).optional(),
+});
+
+export type ExperienceImportPreviewRequest = z.infer<typeof experienceImportPreviewSchema>;
+
+export const experienceImportSchema = experienceImportPreviewSchema.extend({
+  // One per header, in header order
+  mappings: z.array(experienceImportMappingSchema),
+  // Read 03/04/2020 as 3 April rather than March 4
+  dayFirst: z.boolean().default(false),
+  dryRun: z.boolean().default(true),
+});
+
+export type ExperienceImportRequest = z.infer<typeof experienceImportSchema>;
+
+// Returned by POST /api/experiences/import/preview
+export interface ExperienceImportPreview {
+  source: ImportSource;
+  // Set for spreadsheets
+  delimiter?: CsvDelimiter;
+  headers: string[];
+  // The first few data rows, as text
+  sampleRows: string[][];
+  rowCount: number;
+  // A starting point for the mapping step, matched on header names
+  suggestedMappings: ExperienceImportMapping[];
+}
+
+// A problem with one cell or row. row is the spreadsheet row number, counting the
+// header as row 1, or for a JSON Resume the entry number (work, volunteer, then projects).
+export interface ExperienceImportRowError {
+  row: number;
+  header?: string;
+  message: string;
+}
+
+// Returned by POST /api/experiences/import. Rows with errors are never imported;
+// a dry run reports what would happen without writing anything.
+export interface ExperienceImportResult {
+  dryRun: boolean;
+  rowCount: number;
+  // Rows without errors, which are (or would be) imported
+  validRowCount: number;
+  errors: ExperienceImportRowError[];
+  // The first few rows as they will be stored
+  sample: { row: number; startDate: string; endDate: string | null; customFields: Record<string, any>; tags: string[] }[];
+  // Columns the mappings create, with any dropdown options collected from the file
+  newColumns: Pick<Column, "name" | "key" | "type" | "dropdownOptions" | "allowMultiple">[];
+  // Options added to existing dropdown columns mapped with addOptions
+  addedOptions: DropdownOptionAddition[];
+  created: { columns: number; tags: number; experiences: number };
+}
+
+export interface DropdownOptionAddition {
+  key: string;
+  options: string[];
+}
+
+// POST /api/experiences/export takes the search filters (see ExperienceFilters)
+// plus these options and streams back a CSV file or an XLSX workbook
+export const exportFormats = ["csv", "xlsx"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const experienceExportSchema = experiencePageSchema.pick({ sortBy: true, sortDir: true }).extend({
+  format: z.enum(exportFormats).default("csv"),
+  // Column keys in the order they are written; the visible columns when left out
+  columns: z.array(z.string().min(1)).optional(),
+  includeTags: z.boolean().default(true),
+  // YYYY-MM-DD text instead of readable dates (CSV) or date cells (XLSX)
+  isoDates: z.boolean().default(false),
+});
+
+// What the client sends; every option has a default
+export type ExperienceExportOptions = z.input<typeof experienceExportSchema>;
+
+// JSON Resume (jsonresume.org), as far as experiences go: the entries of the work,
+// volunteer and projects sections, and the skills list. Other sections are ignored.
+export const jsonResumeSections = ["work", "volunteer", "projects"] as const;
+export type JsonResumeSection = typeof jsonResumeSections[number];
+
+const jsonResumeEntryFields = {
+  url: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  highlights: z.array(z.string()).optional(),
+};
+
+export const jsonResumeSchema = z.object({
+  work: z.array(z.object({
+    name: z.string().optional(),
+    position: z.string().optional(),
+    location: z.string().optional(),
+    summary: z.string().optional(),
+    ...jsonResumeEntryFields,
+  })).optional(),
+  volunteer: z.array(z.object({
+    organization: z.string().optional(),
+    position: z.string().optional(),
+    summary: z.string().optional(),
+    ...jsonResumeEntryFields,
+  })).optional(),
+  projects: z.array(z.object({
+    name: z.string().optional(),
+    entity: z.string().optional(),
+    description: z.string().optional(),
+    roles: z.array(z.string()).optional(),
+    keywords: z.array(z.string()).optional(),
+    ...jsonResumeEntryFields,
+  })).optional(),
+  skills: z.array(z.object({
+    name: z.string().optional(),
+    level: z.string().optional(),
+    keywords: z.array(z.string()).optional(),
+  })).optional(),
+});
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+
+// The parts of a JSON Resume entry an export fills from columns. organization is
+// the company of a work entry, the organization of a volunteer entry and the
+// entity of a project; project names the project.
+export const jsonResumeFields = [
+  "organization", "project", "position", "location", "url", "summary", "highlights", "skills",
+] as const;
+export type JsonResumeField = typeof jsonResumeFields[number];
+
+// POST /api/experiences/export/json-resume takes the search filters plus these options
+export const jsonResumeExportSchema = z.object({
+  // Column key per field; null or left out leaves the field empty
+  fields: z.object({
+    organization: z.string().nullable().default(null),
+    project: z.string().nullable().default(null),
+    position: z.string().nullable().default(null),
+    location: z.string().nullable().default(null),
+    url: z.string().nullable().default(null),
+    summary: z.string().nullable().default(null),
+    highlights: z.string().nullable().default(null),
+    skills: z.string().nullable().default(null),
+  }).default({}),
+  // The section of experiences whose section column doesn't name one
+  section: z.enum(jsonResumeSections).default("work"),
+  // A column holding "work", "volunteer" or "projects" for each experience
+  sectionColumn: z.string().nullable().default(null),
+  // Tags count as skills
+  includeTags: z.boolean().default(true),
+});
+
+export type JsonResumeExportMapping = z.infer<typeof jsonResumeExportSchema>;
+// What the client sends; every option has a default
+export type JsonResumeExportOptions = z.input<typeof jsonResumeExportSchema>;
+
+// Resume builder. A resume variant picks experiences by filter or by hand and
+// maps columns onto the parts of each entry; the server renders it as Markdown
+// or as HTML in one of the templates (the HTML doubles as the print layout).
+export const resumeTemplates = ["classic", "modern", "compact"] as const;
+export type ResumeTemplate = typeof resumeTemplates[number];
+
+export const resumeFormats = ["markdown", "html"] as const;
+export type ResumeFormat = typeof resumeFormats[number];
+
+export const resumeSelectionSchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("filter"), filters: experienceFiltersSchema }),
+  z.object({ mode: z.literal("manual"), experienceIds: z.array(z.number().int()) }),
+]);
+
+export type ResumeSelection = z.infer<typeof resumeSelectionSchema>;
+
+// Column keys feeding each part of an entry; null leaves the part out.
+// Bullets come from a text column, one bullet per line. Skills are gathered
+// from every selected experience into one section.
+export const resumeSectionsSchema = z.object({
+  title: z.string().nullable().default(null),
+  company: z.string().nullable().default(null),
+  bullets: z.string().nullable().default(null),
+  skills: z.string().nullable().default(null),
+  includeTags: z.boolean().default(false),
+});
+
+export type ResumeSections = z.infer<typeof resumeSectionsSchema>;
+
+export const resumeFormSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }),
+  targetRole: z.string().trim().min(1, { message: "Target role is required" }),
+  template: z.enum(resumeTemplates).default("classic"),
+  heading: z.string().nullable().optional(),
+  summary: z.string().nullable().optional(),
+  selection: resumeSelectionSchema,
+  sections: resumeSectionsSchema,
+});
+
+export type ResumeFormData = z.infer<typeof resumeFormSchema>;
+
+export type Resume = typeof resumes.$inferSelect;
+export type InsertResume = ResumeFormData & { userId: number };
+
+// Returned by POST /api/resumes/preview
+export interface ResumePreview {
+  experienceCount: number;
+  markdown: string;
+  html: string;
+}
+
+// Interview question bank. Linked experiences are the candidate answers to a
+// question; ids of experiences the user doesn't own are ignored.
+export const questionCategories = ["behavioral", "technical"] as const;
+export type QuestionCategory = typeof questionCategories[number];
+
+export const questionFormSchema = z.object({
+  text: z.string().trim().min(1, { message: "Question is required" }),
+  category: z.enum(questionCategories),
+  competency: z.string().trim().min(1, { message: "Competency is required" }),
+  experienceIds: z.array(z.number().int()).default([]),
+});
+
+export type QuestionFormData = z.infer<typeof questionFormSchema>;
+
+// experienceIds includes experiences in the trash, which keep their links until purged
+export type Question = typeof questions.$inferSelect & {
+  experienceIds: number[];
+};
+export type InsertQuestion = QuestionFormData & { userId: number };
+
+// Practice mode (SM-2 spaced repetition). Experiences with a written story or
+// linked to a question can be rehearsed; after each attempt the user rates
+// their recall from 0 (blank) to 5 (perfect), and 3 or more counts as recalled.
+export const practiceReviewSchema = z.object({
+  rating: z.number().int().min(0).max(5),
+  questionId: z.number().int().nullable().optional(),
+});
+
+export type PracticeReviewData = z.infer<typeof practiceReviewSchema>;
+
+export type PracticeSchedule = typeof practiceSchedules.$inferSelect;
+export type PracticeReview = typeof practiceReviews.$inferSelect;
+export type InsertPracticeReview = Omit<PracticeReview, 'id'>;
+
+// The scheduling state SM-2 carries from one attempt to the next
+export type PracticeScheduleState = Pick<PracticeSchedule, 'repetitions' | 'intervalDays' | 'easeFactor' | 'dueDate'>;
+
+// Returned by GET /api/practice/summary, for the navbar
+export interface PracticeSummary {
+  // Experiences due today or overdue, including ones never practiced
+  dueCount: number;
+  // Days in a row with at least one attempt, ending today or yesterday
+  streak: number;
+  reviewedToday: boolean;
+}
+
+export interface PracticeItem {
+  experience: Experience;
+  // The question to answer with it, or null to just tell the story
+  question: { id: number; text: string } | null;
+  // null until the experience is first practiced
+  schedule: PracticeSchedule | null;
+}
+
+// Returned by GET /api/practice: what is due, most overdue first
+export interface PracticeSession extends PracticeSummary {
+  items: PracticeItem[];
+  // When the next item comes due once everything due now is done
+  nextDueDate: string | null;
+}
+
+// POST /api/job-match ranks the user's experiences against a pasted job description
+export const jobMatchSchema = z.object({
+  jobDescription: z.string().trim()
+    .min(1, { message: "Paste a job description" })
+    .max(50000, { message: "Job description is too long" }),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export type JobMatchRequest = z.input<typeof jobMatchSchema>;
+
+// A term of the job description, weighted by TF-IDF over the job text and the
+// user's experiences
+export interface JobKeyword {
+  // Normalized, as in shared/terms.ts; phrases are two words
+  term: string;
+  // As first written in the job description
+  label: string;
+  weight: number;
+  // Named by a dropdown option or tag of the user's
+  isSkill: boolean;
+  // Experiences mentioning it
+  experienceCount: number;
+}
+
+export interface JobMatchTerm {
+  term: string;
+  label: string;
+  // Keys of the columns it was found in, and "tags" for tag names
+  sources: string[];
+}
+
+export interface JobMatchExperience {
+  experience: Experience;
+  // Share of the keywords' total weight the experience matches, 0-100
+  score: number;
+  matches: JobMatchTerm[];
+}
+
+export interface JobMatchResult {
+  keywords: JobKeyword[];
+  // Best match first, only experiences matching at least one keyword
+  experiences: JobMatchExperience[];
+  // How many experiences matched before the limit was applied
+  total: number;
+  // Skill keywords (isSkill) no experience mentions
+  uncovered: JobKeyword[];
+}
+
+// GET /api/analytics/skills takes these query parameters
+export const skillTimelineQuerySchema = z.object({
+  // A multi-select dropdown column key or "tags"; all of them when left out
+  source: z.string().min(1).optional(),
+});
+
+// How long one skill has been used. Months are counted once however many
+// experiences overlap, with experiences without an end date running until today.
+export interface SkillUsage {
+  skill: string;
+  months: number;
+  experienceCount: number;
+  firstUsed: string;
+  // null while an experience using it is ongoing
+  lastUsed: string | null;
+  // Only the years it was used in
+  byYear: { year: number; months: number }[];
+}
+
+// Returned by GET /api/analytics/skills, longest used skill first
+export interface SkillTimeline {
+  skills: SkillUsage[];
+  // Every year from the first to the last any skill was used
+  years: number[];
+}
@@ -0,0 +1,66 @@
+// Story columns hold a behavioral interview answer in STAR form: one text per
+// section, stored together as an object like { situation: "...", result: "..." }
+
+export const storySections = ["situation", "task", "action", "result"] as const;
+
+export type StorySection = typeof storySections[number];
+
+export type StoryValue = Partial<Record<StorySection, string>>;
+
+export const storySectionLabels: Record<StorySection, string> = {
+  situation: "Situation",
+  task: "Task",
+  action: "Action",
+  result: "Result",
+};
+
+// A stored value that is a story; any other value of a story column is ignored
+export const isStoryValue = (value: unknown): value is StoryValue =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const sectionText = (story: StoryValue, section: StorySection) => {
+  const text = story[section];
+  return typeof text === "string" ? text.trim() : "";
+};
+
+// The sections that have been written, in STAR order
+export const filledStorySections = (value: unknown): StorySection[] =>
+  isStoryValue(value) ? storySections.filter(section => sectionText(value, section) !== "") : [];
+
+// The story as plain text, one labelled paragraph per written section, e.g.
+// "Situation: The build took an hour\n\nAction: I cached the dependencies"
+export const formatStory = (value: unknown): string => {
+  if (!isStoryValue(value)) return "";
+  return filledStorySections(value)
+    .map(section => `${storySectionLabels[section]}: ${sectionText(value, section)}`)
+    .join("\n\n");
+};
+
+// Parse text written like formatStory's output back into a story. Each section
+// starts at a line beginning with its label ("Situation:", "Task:", ...) or just
+// its letter ("S:"), in any order. Returns null when no line starts with a label.
+export const parseStory = (text: string): StoryValue | null => {
+  const story: StoryValue = {};
+  let current: StorySection | null = null;
+  let found = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(situation|task|action|result|s|t|a|r)\s*:\s*(.*)$/i.exec(line);
+    if (match) {
+      const label = match[1].toLowerCase();
+      current = storySections.find(section => section === label || section[0] === label) ?? null;
+      found = true;
+      if (current) story[current] = [story[current], match[2]].filter(Boolean).join("\n");
+      continue;
+    }
+    if (current) story[current] = [story[current] ?? "", line].join("\n");
+  }
+
+  if (!found) return null;
+  storySections.forEach(section => {
+    const sectionValue = story[section]?.trim();
+    if (sectionValue) story[section] = sectionValue;
+    else delete story[section];
+  });
+  return story;
+};
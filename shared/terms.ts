@@ -0,0 +1,98 @@
+// Terms are the words and two-word phrases text is matched on, normalized so
+// "APIs" finds "API" and "Node.js" stays one word. Shared so the client can
+// highlight exactly what the server matched.
+
+// Common English words plus the filler of job postings, which say little about the job
+const STOP_WORDS = new Set([
+  "a", "about", "above", "after", "again", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "eg", "etc",
+  "few", "for", "from", "further", "get", "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how",
+  "i", "ie", "if", "in", "into", "is", "it", "its", "just", "like", "may", "me", "more", "most", "must", "my",
+  "no", "nor", "not", "now", "of", "off", "on", "once", "one", "only", "or", "other", "our", "ours", "out", "over", "own",
+  "per", "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them", "then", "there",
+  "these", "they", "this", "those", "through", "to", "too", "under", "until", "up", "us", "very", "via",
+  "was", "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will", "with", "within",
+  "would", "you", "your", "yours",
+  "ability", "able", "apply", "applicant", "bonus", "candidate", "company", "day", "environment", "excellent",
+  "experience", "good", "great", "help", "ideal", "including", "join", "job", "knowledge", "looking", "new",
+  "opportunity", "plus", "position", "preferred", "proven", "qualification", "requirement", "required",
+  "responsibility", "role", "skill", "strong", "team", "understanding", "using", "well", "work", "working", "year",
+]);
+
+// A word, keeping inner dots and dashes ("node.js", "front-end") and trailing
+// "+" or "#" ("c++", "c#")
+const WORD_PATTERN = /[a-z0-9](?:[a-z0-9]|[.\-](?=[a-z0-9]))*[+#]*/gi;
+
+// Words only pair up into a phrase when nothing but spaces separates them
+const PHRASE_GAP = /^[ \t]+$/;
+
+export interface TermToken {
+  term: string;
+  start: number;
+  end: number;
+  // Whether this word and the one before it form a phrase
+  joinsPrevious: boolean;
+}
+
+// Lowercase and fold plurals, so "Databases" and "database" are the same term
+export const normalizeTerm = (word: string): string => {
+  const term = word.toLowerCase();
+  if (!/^[a-z]+$/.test(term) || term.length <= 3) return term;
+  if (term.endsWith("ies")) return `${term.slice(0, -3)}y`;
+  if (term.endsWith("sses")) return term.slice(0, -2);
+  if (term.endsWith("s") && !/(ss|us|is)$/.test(term)) return term.slice(0, -1);
+  return term;
+};
+
+const isKeyword = (term: string) =>
+  !STOP_WORDS.has(term) && !/^[0-9.\-]+$/.test(term) && (term.length > 1 || /[+#]/.test(term));
+
+// The words of text worth matching on, with their positions
+export const tokenizeTerms = (text: string): TermToken[] => {
+  const tokens: TermToken[] = [];
+  let previousEnd = -1;
+  let previousKept = false;
+
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const term = normalizeTerm(match[0]);
+    const kept = isKeyword(term);
+    if (kept) {
+      const joinsPrevious = previousKept && PHRASE_GAP.test(text.slice(previousEnd, start));
+      tokens.push({ term, start, end, joinsPrevious });
+    }
+    previousEnd = end;
+    previousKept = kept;
+  }
+  return tokens;
+};
+
+// Every word and two-word phrase of some tokens, phrases written "machine learning"
+export const termsOfTokens = (tokens: TermToken[]): string[] =>
+  tokens.flatMap((token, i) =>
+    token.joinsPrevious ? [`${tokens[i - 1].term} ${token.term}`, token.term] : [token.term]
+  );
+
+export const termsOf = (text: string): string[] => termsOfTokens(tokenizeTerms(text));
+
+// Where any of terms (words or phrases) occur in text, as [start, end) ranges in order
+export const termRanges = (text: string, terms: string[]): { start: number; end: number }[] => {
+  const wanted = new Set(terms);
+  const tokens = tokenizeTerms(text);
+  const ranges: { start: number; end: number }[] = [];
+
+  tokens.forEach((token, i) => {
+    const phrase = token.joinsPrevious ? `${tokens[i - 1].term} ${token.term}` : null;
+    const start = phrase && wanted.has(phrase) ? tokens[i - 1].start : wanted.has(token.term) ? token.start : null;
+    if (start === null) return;
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = token.end;
+    } else {
+      ranges.push({ start, end: token.end });
+    }
+  });
+  return ranges;
+};